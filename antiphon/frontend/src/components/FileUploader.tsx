@@ -1,16 +1,11 @@
 import { useCallback, useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useAccount } from 'wagmi';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
 import { useMarketplaceStore } from '../store/useMarketplaceStore';
-
-// ── Config (set VITE_AGENT_A_URL in .env.local) ─────────────────────────────
-const AGENT_A_BASE = import.meta.env.VITE_AGENT_A_URL ?? 'http://localhost:3001';
-const TASK_URL = `${AGENT_A_BASE}/api/task`;
-const STREAM_URL = (taskId: string) => `${AGENT_A_BASE}/api/task/${taskId}/stream`;
-
-// ── Step number → store currentStep mapping ──────────────────────────────────
-// Server emits stepNum 1-6 (analyze) or 1-4 (storage).
-// We pass it straight to setCurrentStep.
-const mapStepNum = (stepNum: number) => stepNum;
+import { isSessionValid, useSessionStore } from '../store/useSessionStore';
+import { TASK_URL, STREAM_URL, authHeaders } from '../lib/agentA';
+import { finalStep, getPipeline } from '../../../shared/pipeline/definitions';
 
 const FileUploader = () => {
   const {
@@ -25,10 +20,21 @@ const FileUploader = () => {
     setAnalysisResults,
     setStorageResults,
     setLiveLog,
+    setTaskId,
+    setIsCancelled,
   } = useMarketplaceStore();
 
+  // AgentA only accepts tasks from a SIWE-signed-in wallet
+  const { address } = useAccount();
+  const { session, clearSession } = useSessionStore();
+  const { openConnectModal } = useConnectModal();
+  const isSignedIn = isSessionValid(session, address);
+
   const [isDragging, setIsDragging] = useState(false);
   const [cidInput, setCidInput] = useState('');
+  // analyze can take a fresh upload or a CSV that is already on IPFS
+  const [analyzeSource, setAnalyzeSource] = useState<'file' | 'cid'>('file');
+  const usesCid = service === 'retrieve' || (service === 'analyze' && analyzeSource === 'cid');
 
   // Keep EventSource ref so we can close it on unmount / error
   const esRef = useRef<EventSource | null>(null);
@@ -53,13 +59,15 @@ const FileUploader = () => {
   }, []);
 
   const runPipeline = async () => {
-    if (service === 'retrieve' && !cidInput) return;
-    if (service !== 'retrieve' && !file) return;
+    if (usesCid && !cidInput) return;
+    if (!usesCid && !file) return;
 
     cleanup(); // close any lingering SSE connection
     setError(null);
     setTxHash(null);
     setLiveLog([]);
+    setTaskId(null);
+    setIsCancelled(false);
     setIsProcessing(true);
     setCurrentStep(1);
 
@@ -70,10 +78,19 @@ const FileUploader = () => {
         'service',
         service === 'analyze' ? 'analyze' : service === 'store' ? 'store' : 'retrieve'
       );
-      if (file) formData.append('file', file);
-      if (service === 'retrieve') formData.append('cid', cidInput);
+      if (file && !usesCid) formData.append('file', file);
+      if (service === 'retrieve') formData.append('cid', cidInput.trim());
+      if (service === 'analyze' && usesCid) formData.append('inputCID', cidInput.trim());
 
-      const postResp = await fetch(TASK_URL, { method: 'POST', body: formData });
+      const postResp = await fetch(TASK_URL, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: formData,
+      });
+      if (postResp.status === 401) {
+        clearSession();
+        throw new Error('Your AgentA session expired — sign in again');
+      }
       if (!postResp.ok) {
         const txt = await postResp.text().catch(() => postResp.statusText);
         throw new Error(`AgentA rejected task: ${txt}`);
@@ -81,6 +98,7 @@ const FileUploader = () => {
 
       const { taskId } = (await postResp.json()) as { taskId: string; success: boolean };
       if (!taskId) throw new Error('AgentA returned no taskId');
+      setTaskId(taskId);
 
       // ── Step B: Open SSE stream for live updates ──────────────────────────
       await new Promise<void>((resolve, reject) => {
@@ -95,7 +113,7 @@ const FileUploader = () => {
               msg: string;
               liveLog: string[];
             };
-            setCurrentStep(mapStepNum(data.stepNum));
+            setCurrentStep(data.stepNum);
             setLiveLog(data.liveLog);
           } catch {
             // non-JSON heartbeat, ignore
@@ -132,6 +150,7 @@ const FileUploader = () => {
               retrievedDataBase64?: string;
             };
 
+            const lastStep = finalStep(getPipeline(service));
             if (result.liveLog) setLiveLog(result.liveLog);
             if (result.reputationTxHash) setTxHash(result.reputationTxHash);
 
@@ -155,14 +174,14 @@ const FileUploader = () => {
                 insights: result.insights ?? [],
                 resultCID: result.resultCID,
               });
-              setCurrentStep(6);
+              setCurrentStep(lastStep);
             } else if (service === 'store' && result.cid) {
               setStorageResults({
                 cid: result.cid,
                 fileName: result.fileName ?? file?.name ?? '',
                 fileSize: result.fileSize ?? file?.size ?? 0,
               });
-              setCurrentStep(4);
+              setCurrentStep(lastStep);
             } else if (service === 'retrieve') {
               setStorageResults({
                 cid: result.retrievedCID ?? '',
@@ -176,7 +195,7 @@ const FileUploader = () => {
                     result.retrievedContentType ?? 'application/octet-stream',
                 }),
               });
-              setCurrentStep(4);
+              setCurrentStep(lastStep);
             }
 
             setIsProcessing(false);
@@ -188,18 +207,45 @@ const FileUploader = () => {
           }
         });
 
-        // Pipeline error
-        es.addEventListener('error', (evt) => {
+        // Cancelled via DELETE /api/task/:taskId (ProgressStepper Cancel button)
+        es.addEventListener('cancelled', (evt) => {
           try {
             const data = JSON.parse((evt as MessageEvent).data) as {
-              error: string;
+              taskId: string;
+              paid: boolean;
               liveLog: string[];
             };
             if (data.liveLog) setLiveLog(data.liveLog);
-            reject(new Error(data.error));
           } catch {
-            // SSE connection-level error (not a JSON message)
+            // keep whatever log we already have
+          }
+          setIsCancelled(true);
+          setIsProcessing(false);
+          es.close();
+          esRef.current = null;
+          resolve();
+        });
+
+        // Pipeline error
+        es.addEventListener('error', (evt) => {
+          const payload = (evt as MessageEvent).data;
+          if (payload === undefined) {
+            // SSE connection-level error. While CONNECTING the browser is
+            // already retrying and will send Last-Event-ID, so AgentA replays
+            // whatever we missed — only give up once the stream is CLOSED.
+            if (es.readyState === EventSource.CONNECTING) return;
             reject(new Error('SSE connection failed — is AgentA running?'));
+          } else {
+            try {
+              const data = JSON.parse(payload) as {
+                error: string;
+                liveLog: string[];
+              };
+              if (data.liveLog) setLiveLog(data.liveLog);
+              reject(new Error(data.error));
+            } catch {
+              reject(new Error('SSE connection failed — is AgentA running?'));
+            }
           }
           es.close();
           esRef.current = null;
@@ -227,15 +273,38 @@ const FileUploader = () => {
     }
   };
 
-  const canSubmit = service === 'retrieve' ? cidInput.length > 0 : !!file;
+  const canSubmit = usesCid ? cidInput.trim().length > 0 : !!file;
 
   return (
     <div className="max-w-2xl mx-auto px-6 py-4">
-      {/* ── CID input for retrieve mode ──────────────────────────────────── */}
-      {service === 'retrieve' ? (
+      {/* ── Analyze source: new upload or existing CID ───────────────────── */}
+      {service === 'analyze' && (
+        <div className="flex gap-1 p-1 mb-3 rounded-lg bg-secondary text-sm">
+          {([
+            ['file', '📄 Upload CSV'],
+            ['cid', '📎 Analyze existing CID'],
+          ] as const).map(([source, label]) => (
+            <button
+              key={source}
+              type="button"
+              onClick={() => setAnalyzeSource(source)}
+              className={`flex-1 py-2 rounded-md transition-all ${
+                analyzeSource === source
+                  ? 'bg-card text-foreground font-medium shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* ── CID input for retrieve / analyze-by-CID ──────────────────────── */}
+      {usesCid ? (
         <div className="p-8 border-2 border-dashed rounded-xl border-border">
           <label className="block text-sm font-medium text-foreground mb-2">
-            Enter CID to retrieve
+            {service === 'retrieve' ? 'Enter CID to retrieve' : 'Enter the CID of a CSV already on IPFS'}
           </label>
           <input
             type="text"
@@ -307,7 +376,18 @@ const FileUploader = () => {
         </div>
       )}
 
-      {canSubmit && (
+      {canSubmit && !isSignedIn && (
+        <motion.button
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          onClick={openConnectModal}
+          className="w-full mt-4 py-4 bg-secondary border border-border rounded-xl font-semibold text-foreground transition-all hover:brightness-110 active:scale-[0.99]"
+        >
+          🔐 Sign in with Ethereum to continue
+        </motion.button>
+      )}
+
+      {canSubmit && isSignedIn && (
         <motion.button
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -315,7 +395,7 @@ const FileUploader = () => {
           className="w-full mt-4 py-4 bg-gradient-to-r from-violet to-indigo rounded-xl font-semibold text-foreground transition-all hover:brightness-110 active:scale-[0.99]"
         >
           {service === 'analyze'
-            ? '⚡ Start Analysis'
+            ? usesCid ? '⚡ Analyze CID' : '⚡ Start Analysis'
             : service === 'store'
             ? '💾 Upload to Storacha'
             : '📥 Retrieve File'}
@@ -324,7 +404,7 @@ const FileUploader = () => {
 
       <div className="mt-3 text-center text-xs text-muted-foreground">
         AgentA discovers, pays, and coordinates autonomously.{' '}
-        <span className="text-green font-medium">No wallet required.</span>
+        <span className="text-green font-medium">Sign in once — AgentA pays for every service.</span>
       </div>
     </div>
   );
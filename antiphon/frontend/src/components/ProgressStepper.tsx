@@ -1,17 +1,8 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useMarketplaceStore, analysisSteps, storageSteps } from '../store/useMarketplaceStore';
-
-// ── Icon map for each step type ──────────────────────────────────────────────
-const stepIcons: Record<string, string> = {
-  Submitted:  '📤',
-  Discovery:  '🔍',
-  Payment:    '💳',
-  Processing: '⚙️',
-  Reputation: '⭐',
-  Results:    '✅',
-  Complete:   '✅',
-};
+import { useMarketplaceStore } from '../store/useMarketplaceStore';
+import { getPipeline } from '../../../shared/pipeline/definitions';
+import { cancelTask } from '../lib/agentA';
 
 // ── Status badge per step ────────────────────────────────────────────────────
 type StepStatus = 'done' | 'active' | 'pending';
@@ -25,6 +16,7 @@ function stepStatus(stepId: number, currentStep: number): StepStatus {
 function logLineColor(line: string): string {
   if (line.startsWith('✅') || line.startsWith('🏆')) return 'text-green';
   if (line.startsWith('❌')) return 'text-red-400';
+  if (line.startsWith('⏹️')) return 'text-orange';
   if (line.startsWith('⭐')) return 'text-yellow-400';
   if (line.startsWith('💳')) return 'text-indigo';
   if (line.startsWith('🔍')) return 'text-emerald';
@@ -33,10 +25,11 @@ function logLineColor(line: string): string {
 }
 
 const ProgressStepper = () => {
-  const { service, currentStep, isProcessing, liveLog, txHash, error } =
+  const { service, currentStep, isProcessing, liveLog, txHash, error, taskId, isCancelled, setError } =
     useMarketplaceStore();
+  const [isCancelling, setIsCancelling] = useState(false);
 
-  const steps = service === 'analyze' ? analysisSteps : storageSteps;
+  const steps = getPipeline(service).steps;
   const logEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll terminal log to bottom
@@ -44,6 +37,22 @@ const ProgressStepper = () => {
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [liveLog]);
 
+  // Cancel spinner only lives as long as the task does
+  useEffect(() => {
+    if (!isProcessing) setIsCancelling(false);
+  }, [isProcessing]);
+
+  const handleCancel = async () => {
+    if (!taskId || isCancelling) return;
+    setIsCancelling(true);
+    try {
+      await cancelTask(taskId);
+    } catch (err: unknown) {
+      setIsCancelling(false);
+      setError(err instanceof Error ? err.message : 'Cancel failed');
+    }
+  };
+
   // Don't render before task starts
   if (currentStep === 0 && !error) return null;
 
@@ -79,7 +88,7 @@ const ProgressStepper = () => {
                         : 'bg-card border-border text-muted-foreground'
                     }`}
                   >
-                    {status === 'done' ? '✓' : stepIcons[step.label] ?? step.icon}
+                    {status === 'done' ? '✓' : step.icon}
                   </motion.div>
 
                   {/* Label + desc */}
@@ -150,6 +159,15 @@ const ProgressStepper = () => {
                     className="w-1.5 h-1.5 rounded-full bg-violet"
                   />
                   <span className="text-[10px] text-violet font-mono">running</span>
+                  {taskId && (
+                    <button
+                      onClick={handleCancel}
+                      disabled={isCancelling}
+                      className="ml-3 px-2 py-0.5 rounded-md border border-white/10 text-[10px] font-mono text-white/60 hover:text-red-400 hover:border-red-400/40 transition disabled:opacity-50"
+                    >
+                      {isCancelling ? 'cancelling…' : 'cancel'}
+                    </button>
+                  )}
                 </span>
               )}
             </div>
@@ -220,6 +238,22 @@ const ProgressStepper = () => {
         )}
       </AnimatePresence>
 
+      {/* ── Cancelled state ───────────────────────────────────────────────── */}
+      <AnimatePresence>
+        {isCancelled && (
+          <motion.div
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-4 rounded-xl bg-orange/10 border border-orange/30"
+          >
+            <div className="flex items-start gap-3">
+              <span className="text-lg">⏹️</span>
+              <div className="text-sm font-semibold text-orange">Task cancelled</div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* ── Error state ───────────────────────────────────────────────────── */}
       <AnimatePresence>
         {error && (
@@ -1,13 +1,15 @@
 import { motion } from 'framer-motion';
 import { useMarketplaceStore } from '../store/useMarketplaceStore';
 import { useState } from 'react';
+import { finalStep, getPipeline } from '../../../shared/pipeline/definitions';
 
 const ResultsViewer = () => {
   const { service, analysisResults, storageResults, currentStep, setShowRatingModal } = useMarketplaceStore();
   const [copied, setCopied] = useState(false);
 
-  const showAnalysis = service === 'analyze' && analysisResults && currentStep >= 6;
-  const showStorage = (service === 'store' || service === 'retrieve') && storageResults && currentStep >= 4;
+  const resultsReady = currentStep >= finalStep(getPipeline(service));
+  const showAnalysis = service === 'analyze' && analysisResults && resultsReady;
+  const showStorage = (service === 'store' || service === 'retrieve') && storageResults && resultsReady;
   const isRetrieve = service === 'retrieve' && storageResults?.retrievedDataBase64;
 
   if (!showAnalysis && !showStorage) return null;
@@ -0,0 +1,14 @@
+import type { ReactNode } from 'react';
+import { RainbowKitAuthenticationProvider } from '@rainbow-me/rainbowkit';
+import { useSiweAuth } from '../hooks/use-siwe-auth';
+
+const SiweAuthProvider = ({ children }: { children: ReactNode }) => {
+  const { adapter, status } = useSiweAuth();
+  return (
+    <RainbowKitAuthenticationProvider adapter={adapter} status={status}>
+      {children}
+    </RainbowKitAuthenticationProvider>
+  );
+};
+
+export default SiweAuthProvider;
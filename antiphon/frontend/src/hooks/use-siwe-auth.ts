@@ -0,0 +1,60 @@
+import { useEffect, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { createAuthenticationAdapter, type AuthenticationStatus } from '@rainbow-me/rainbowkit';
+import { createSiweMessage } from 'viem/siwe';
+import { fetchNonce, signOut, verifySignIn } from '../lib/agentA';
+import { isSessionValid, useSessionStore } from '../store/useSessionStore';
+
+/**
+ * SIWE against the AgentA coordinator, wired into RainbowKit's authentication
+ * flow: connecting a wallet prompts for a signature, and the returned session
+ * token authorises task submission.
+ */
+export function useSiweAuth() {
+  const { address, isConnecting, isReconnecting } = useAccount();
+  const { session, setSession, clearSession } = useSessionStore();
+
+  // A session belongs to one address — drop it when the wallet switches
+  useEffect(() => {
+    if (session && address && !isSessionValid(session, address)) clearSession();
+  }, [address, session, clearSession]);
+
+  const adapter = useMemo(
+    () =>
+      createAuthenticationAdapter({
+        getNonce: fetchNonce,
+        createMessage: ({ nonce, address, chainId }) =>
+          createSiweMessage({
+            domain: window.location.host,
+            address,
+            statement: 'Sign in to Rachax402 so AgentA can run tasks for you.',
+            uri: window.location.origin,
+            version: '1',
+            chainId,
+            nonce,
+          }),
+        verify: async ({ message, signature }) => {
+          try {
+            setSession(await verifySignIn(message, signature));
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        signOut: async () => {
+          await signOut();
+          clearSession();
+        },
+      }),
+    [setSession, clearSession]
+  );
+
+  const status: AuthenticationStatus =
+    isConnecting || isReconnecting
+      ? 'loading'
+      : isSessionValid(session, address)
+      ? 'authenticated'
+      : 'unauthenticated';
+
+  return { adapter, status, session: isSessionValid(session, address) ? session : null };
+}
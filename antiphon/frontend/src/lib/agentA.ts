@@ -0,0 +1,58 @@
+import { useSessionStore } from '../store/useSessionStore';
+
+// ── AgentA coordinator API (set VITE_AGENT_A_URL in .env.local) ─────────────
+export const AGENT_A_BASE = import.meta.env.VITE_AGENT_A_URL ?? 'http://localhost:3001';
+export const TASK_URL = `${AGENT_A_BASE}/api/task`;
+export const AUTH_URL = `${AGENT_A_BASE}/api/auth`;
+
+/** EventSource can't send headers, so the session token rides in the query string. */
+export const STREAM_URL = (taskId: string) => {
+  const token = useSessionStore.getState().session?.token;
+  const url = `${AGENT_A_BASE}/api/task/${taskId}/stream`;
+  return token ? `${url}?access_token=${encodeURIComponent(token)}` : url;
+};
+
+/** Bearer header for the current SIWE session, if there is one. */
+export function authHeaders(): Record<string, string> {
+  const token = useSessionStore.getState().session?.token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** Ask AgentA to abort a running task. The SSE stream then ends with `cancelled`. */
+export async function cancelTask(taskId: string): Promise<void> {
+  const resp = await fetch(`${TASK_URL}/${taskId}`, { method: 'DELETE', headers: authHeaders() });
+  if (!resp.ok && resp.status !== 409) {
+    const txt = await resp.text().catch(() => resp.statusText);
+    throw new Error(`AgentA could not cancel task: ${txt}`);
+  }
+}
+
+// ── SIWE sign-in (used by the RainbowKit authentication adapter) ─────────────
+export async function fetchNonce(): Promise<string> {
+  const resp = await fetch(`${AUTH_URL}/nonce`);
+  if (!resp.ok) throw new Error('AgentA did not issue a sign-in nonce');
+  const { nonce } = (await resp.json()) as { nonce: string };
+  return nonce;
+}
+
+export async function verifySignIn(message: string, signature: string) {
+  const resp = await fetch(`${AUTH_URL}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  });
+  if (!resp.ok) {
+    const txt = await resp.text().catch(() => resp.statusText);
+    throw new Error(`AgentA sign-in failed: ${txt}`);
+  }
+  return (await resp.json()) as {
+    token: string;
+    address: string;
+    chainId: number;
+    expiresAt: string;
+  };
+}
+
+export async function signOut(): Promise<void> {
+  await fetch(`${AUTH_URL}/logout`, { method: 'POST', headers: authHeaders() }).catch(() => undefined);
+}
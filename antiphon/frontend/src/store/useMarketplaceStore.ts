@@ -1,6 +1,7 @@
 import { create } from 'zustand';
+import type { PipelineStep, ServiceId } from '../../../shared/pipeline/definitions';
 
-export type ServiceType = 'analyze' | 'store' | 'retrieve';
+export type ServiceType = ServiceId;
 
 export interface AgentInfo {
   address: string;
@@ -37,31 +38,9 @@ export interface StorageResults {
   retrievedContentType?: string;
 }
 
-export interface Step {
-  id: number;
-  label: string;
-  icon: string;
-  protocol: 'emerald' | 'indigo' | 'orange' | 'violet' | 'green';
-  desc: string;
-}
-
-// ── analysisSteps (1-6) maps to coordinator stepNums ──────────────────────────
-export const analysisSteps: Step[] = [
-  { id: 1, label: 'Submitted',  icon: '📤', protocol: 'orange',  desc: 'Task sent to AgentA' },
-  { id: 2, label: 'Discovery',  icon: '🔍', protocol: 'emerald', desc: 'ERC-8004 on-chain lookup' },
-  { id: 3, label: 'Payment',    icon: '💳', protocol: 'indigo',  desc: 'AgentA pays via x402' },
-  { id: 4, label: 'Processing', icon: '⚙️', protocol: 'violet',  desc: 'AgentB analyzing CSV' },
-  { id: 5, label: 'Reputation', icon: '⭐', protocol: 'emerald', desc: 'Rating posted on-chain' },
-  { id: 6, label: 'Results',    icon: '✅', protocol: 'green',   desc: 'Report ready' },
-];
-
-// ── storageSteps (1-4) maps to coordinator stepNums ───────────────────────────
-export const storageSteps: Step[] = [
-  { id: 1, label: 'Submitted',  icon: '📤', protocol: 'orange',  desc: 'Task sent to AgentA' },
-  { id: 2, label: 'Discovery',  icon: '🔍', protocol: 'emerald', desc: 'ERC-8004 on-chain lookup' },
-  { id: 3, label: 'Payment',    icon: '💳', protocol: 'indigo',  desc: 'AgentA pays via x402' },
-  { id: 4, label: 'Complete',   icon: '✅', protocol: 'green',   desc: 'File stored on IPFS' },
-];
+// ── Stepper steps come from the shared pipeline definitions ───────────────────
+// Same list the coordinator emits stepNums from (shared/pipeline/definitions.ts).
+export type Step = PipelineStep;
 
 // ── PaymentContext kept for backwards compat (no longer used in main flow) ────
 export interface PaymentContext {
@@ -86,6 +65,10 @@ interface MarketplaceState {
   error: string | null;
   showRatingModal: boolean;
   paymentContext: PaymentContext | null;
+  /** Coordinator taskId of the running pipeline (used for cancellation) */
+  taskId: string | null;
+  /** True once the coordinator confirmed the task was cancelled */
+  isCancelled: boolean;
 
   /** SSE live log lines from AgentA coordinator */
   liveLog: string[];
@@ -104,6 +87,8 @@ interface MarketplaceState {
   setError: (e: string | null) => void;
   setShowRatingModal: (v: boolean) => void;
   setPaymentContext: (ctx: PaymentContext | null) => void;
+  setTaskId: (id: string | null) => void;
+  setIsCancelled: (v: boolean) => void;
 
   /** Replace full live log (called on each SSE step event) */
   setLiveLog: (lines: string[]) => void;
@@ -128,6 +113,8 @@ const initialState = {
   error: null,
   showRatingModal: false,
   paymentContext: null,
+  taskId: null,
+  isCancelled: false,
   liveLog: [] as string[],
 };
 
@@ -145,6 +132,8 @@ export const useMarketplaceStore = create<MarketplaceState>((set) => ({
       analysisResults: null,
       storageResults: null,
       txHash: null,
+      taskId: null,
+      isCancelled: false,
       liveLog: [],
     }),
 
@@ -160,6 +149,8 @@ export const useMarketplaceStore = create<MarketplaceState>((set) => ({
   setError:          (error)          => set({ error }),
   setShowRatingModal:(showRatingModal)=> set({ showRatingModal }),
   setPaymentContext: (paymentContext) => set({ paymentContext }),
+  setTaskId:         (taskId)         => set({ taskId }),
+  setIsCancelled:    (isCancelled)    => set({ isCancelled }),
 
   // SSE log actions
   setLiveLog:    (liveLog) => set({ liveLog }),
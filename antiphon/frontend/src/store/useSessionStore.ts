@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// ── AgentA SIWE session ───────────────────────────────────────────────────────
+// Issued by POST /api/auth/verify; persisted so a reload doesn't ask for
+// another signature until the token expires.
+export interface AgentASession {
+  token: string;
+  address: string;
+  chainId: number;
+  expiresAt: string;
+}
+
+interface SessionState {
+  session: AgentASession | null;
+  setSession: (s: AgentASession | null) => void;
+  clearSession: () => void;
+}
+
+export const useSessionStore = create<SessionState>()(
+  persist(
+    (set) => ({
+      session: null,
+      setSession:   (session) => set({ session }),
+      clearSession: ()        => set({ session: null }),
+    }),
+    { name: 'rachax402-agenta-session' }
+  )
+);
+
+/** True while `session` is unexpired and belongs to `address`. */
+export function isSessionValid(session: AgentASession | null, address?: string): session is AgentASession {
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return false;
+  return !address || session.address.toLowerCase() === address.toLowerCase();
+}
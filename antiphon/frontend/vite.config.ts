@@ -11,6 +11,10 @@ export default defineConfig(({ mode }) => ({
     hmr: {
       overlay: false,
     },
+    fs: {
+      // Pipeline definitions are shared with the coordinator (../shared)
+      allow: [".", path.resolve(__dirname, "../shared")],
+    },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
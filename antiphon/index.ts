@@ -5,26 +5,143 @@
  *
  * Port: TASK_API_PORT (default 3001)
  * Endpoints:
- *   POST /api/task               → { taskId }  (pipeline starts async)
+ *   GET  /api/auth/nonce         → { nonce }  (SIWE)
+ *   POST /api/auth/verify        → { token, address, expiresAt }
+ *   POST /api/auth/logout
+ *   POST /api/task               → { taskId }  (pipeline starts async; analyze takes `file` or `inputCID`, not both;
+ *                                   optional `callbackUrl` receives the signed final result;
+ *                                   an `Idempotency-Key` header replays the original taskId on retry)
+ *   POST /api/workflow           → { taskId, hops }  (chained services, one SSE stream)
  *   GET  /api/task/:taskId/stream → SSE events
- *   GET  /api/health             → { status, storacha, erc8004, x402 }
+ *   GET  /api/task/:taskId       → persisted task record (status, liveLog, result, traceId)
+ *   GET  /api/task/:taskId/webhooks → callbackUrl delivery attempts
+ *   DELETE /api/task/:taskId     → cancel a running task (SSE ends with `cancelled`)
+ *   GET  /api/tasks              → recent tasks (?status=&service=&limit=)
+ *   GET  /api/payments           → x402 payment ledger (filters, ?format=csv)
+ *   GET  /api/providers          → ranked providers for ?capability= (?strategy= overrides config)
+ *   GET  /api/health             → { status: ok|degraded|down, components[] }  (live probes; 503 when down)
+ *   GET  /metrics                → Prometheus text format
+ *
+ * Everything except health, metrics and /api/auth/* needs `Authorization: Bearer <token>`
+ * (or `?access_token=` on the SSE stream) unless AUTH_REQUIRED=false.
+ *
+ * Configuration: environment variables and/or antiphon.config.json, validated
+ * at startup (shared/config) — the process exits listing every invalid field.
+ *
+ * Dev mode (`npm run dev`, ANTIPHON_DEV=true) runs offline: a local chain with
+ * the ERC-8004 registries and USDC, an x402 facilitator, an IPFS gateway and a
+ * mock AgentB all start in-process on DEV_STACK_PORT (shared/dev).
  */
 
 import express from 'express';
 import multer from 'multer';
 import cors from 'cors';
-import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
-import * as Client from "@storacha/client";
-import { StoreMemory } from "@storacha/client/stores/memory";
-import * as Proof from "@storacha/client/proof";
-import { Signer } from "@storacha/client/principal/ed25519";
 import dotenv from 'dotenv';
+import { createPublicClient, formatUnits, http, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 import {
+  discoverProviders,
   getERC8004Actions,
-  resolveServiceRoute,
+  listRegisteredAgents,
+  type ProviderDiscoveryResult,
 } from './plugins/erc8004/index.js';
 import { getX402Actions } from './plugins/x402/index.js';
+import {
+  WalletService,
+  getChainProfile,
+} from './shared/blockchain/index.js';
+import {
+  HealthMonitor,
+  rpcCheck,
+  contractCodeCheck,
+  storageCheck,
+  walletCheck,
+  providersCheck,
+} from './shared/health/index.js';
+import {
+  getPipeline,
+  stepFor,
+  planWorkflow,
+  WorkflowValidationError,
+  routeForCapability,
+  serviceIdFor,
+  PAID_CAPABILITIES,
+  runTask,
+  ProviderUnavailableError,
+  type WorkflowHop,
+  type TaskDeps,
+  type ServiceRequest,
+  type UploadedFile,
+  type ServiceOutput,
+} from './shared/pipeline/index.js';
+import {
+  TaskStore,
+  IdempotencyStore,
+  IdempotencyConflictError,
+  InvalidIdempotencyKeyError,
+  fingerprintRequest,
+  TaskStreams,
+  formatSseEvent,
+  parseLastEventId,
+  isTerminalEvent,
+  TaskCancelledError,
+  TaskQueue,
+  type Release,
+  type TaskEvent,
+  type StepEvent,
+  type TaskResult,
+  type ErrorResult,
+  type CancelledResult,
+  type TaskStatus,
+  type WorkflowHopRef,
+  type WorkflowHopResult,
+} from './shared/tasks/index.js';
+import {
+  InvalidSpendingPolicyError,
+  PaymentLedger,
+  PolicyViolation,
+  paymentsToCsv,
+  SpendingPolicy,
+  type PaymentFilter,
+  type PaymentStatus,
+  type SpendTracker,
+} from './shared/payments/index.js';
+import {
+  SiweAuth,
+  AuthError,
+  assertTaskQuota,
+  readToken,
+  requireSession,
+  sessionOf,
+  type TaskQuota,
+} from './shared/auth/index.js';
+import { parseCid, probeGateway, gatewayUrl, GatewayRetriever, InvalidCidError } from './shared/ipfs/index.js';
+import {
+  WebhookDispatcher,
+  parseCallbackUrl,
+  assertPublicCallbackUrl,
+  InvalidCallbackUrlError,
+  type WebhookEvent,
+} from './shared/webhooks/index.js';
+import { metrics, registry, PROMETHEUS_CONTENT_TYPE } from './shared/metrics/index.js';
+import { loadConfig, ConfigError, type AntiphonConfig } from './shared/config/index.js';
+import { startDevStack, devStackCheck } from './shared/dev/index.js';
+import { createStorage, type StorageProvider } from './shared/storage/index.js';
+import {
+  AgentCardCache,
+  LatencyTracker,
+  InvalidSelectionStrategyError,
+  parseSelectionStrategy,
+  type AgentCardSource,
+  type SelectionStrategy,
+} from './shared/agents/index.js';
+import {
+  tracer,
+  OtlpJsonFileExporter,
+  parseTraceparent,
+  type SpanContext,
+} from './shared/tracing/index.js';
 
 dotenv.config();
 
@@ -32,6 +149,11 @@ export type ActionHandlerCallback = (
   response: { text?: string }
 ) => Promise<unknown[]>;
 
+export interface ActionHandlerOptions {
+  /** Fires when the task is cancelled; actions stop at their next safe point */
+  signal?: AbortSignal;
+}
+
 export interface ActionHandlerState {
   recentMessagesData?: Array<{
     content?: { text?: string };
@@ -41,374 +163,1109 @@ export interface ActionHandlerState {
   [key: string]: unknown;
 }
 
-// ── SSE types ────────────────────────────────────────────────────────────────
-interface StepEvent {
-  stepNum: number;   // maps directly to analysisSteps/storageSteps id in store
-  msg: string;       // human-readable message shown in terminal log
-  liveLog: string[]; // full accumulated log up to this point
-}
+// ── SSE ──────────────────────────────────────────────────────────────────────
+// POST opens the task's channel (shared/tasks TaskStreams) before returning
+// taskId; SSE subscribers replay its numbered buffer and then follow live events.
+const SSE_HEARTBEAT_MS = 15_000;
+const SSE_RETRY_MS = 3_000;
+
+// taskId → AbortController for pipelines still in flight
+const activeTasks = new Map<string, AbortController>();
 
-interface TaskResult {
-  success: boolean;
+const TASK_STATUSES: TaskStatus[] = ['queued', 'running', 'done', 'error', 'cancelled'];
+const PAYMENT_STATUSES: PaymentStatus[] = ['signed', 'settled', 'failed'];
+
+// Every pipeline opens with the shared "Submitted" step
+const SUBMIT_STEP = stepFor(getPipeline('analyze'), 'submit');
+
+interface TaskInit {
+  taskId: string;
   service: string;
-  liveLog: string[];
-  resultCID?: string;
-  summary?: string;
-  statistics?: Record<string, unknown>;
-  insights?: string[];
-  cid?: string;
-  fileName?: string;
-  fileSize?: number;
-  reputationTxHash?: string;
-  retrievedCID?: string;
-  retrievedContentType?: string;
-  retrievedDataBase64?: string;
+  owner?: string | undefined;
+  callbackUrl?: string | undefined;
+  /** Caller's `traceparent`, if any — the task span joins that trace */
+  parent?: SpanContext | null;
 }
 
-interface ErrorResult {
-  error: string;
-  liveLog: string[];
+/** Handle the pipeline body uses to report progress and payment state. */
+interface TaskRun {
+  taskId: string;
+  signal: AbortSignal;
+  emit: (stepNum: number, msg: string, extra?: Pick<StepEvent, 'queuePosition' | 'hop' | 'failover'>) => void;
+  /** Called once an x402 payment has been signed, so cancellation can report it */
+  markPaid: () => void;
 }
 
-// ── SSE Registry ─────────────────────────────────────────────────────────────
-// Maps taskId → EventEmitter. POST creates the emitter, SSE subscriber attaches to it.
-// Race-safe: GET /stream registers listeners before POST fires first event (it's async).
-const taskStreams = new Map<string, EventEmitter>();
-
-export async function initStoracha() {
-  try {
-    const pvtKey = process.env.STORACHA_AGENT_PRIVATE_KEY;
-    if (!pvtKey) {
-      throw new Error("STORACHA_AGENT_PRIVATE_KEY must be a non-empty string");
-    }
-    const principal = Signer.parse(pvtKey);
-    const store = new StoreMemory();
-    const client = await Client.create({ principal, store });
+/** What a finished workflow hop hands to the hops that depend on it. */
+interface HopOutput {
+  cid: string;
+  /** Retrieved bytes, so a following store hop doesn't refetch them */
+  data?: UploadedFile;
+}
 
-    const delegationKey = process.env.STORACHA_AGENT_DELEGATION;
-    if (!delegationKey) {
-      throw new Error("STORACHA_DELEGATION_KEY must be a non-empty string");
-    }
-    const proof = await Proof.parse(delegationKey);
-    const space = await client.addSpace(proof);
-    await client.setCurrentSpace(space.did());
-
-    return client;
-  } catch (error: any) {
-    console.error("Error initializing Storacha client:", error);
-    throw new Error("Failed to initialize Storacha client: " + error.message);
+function hopOutput(result: Omit<TaskResult, 'liveLog'>): HopOutput {
+  if (result.retrievedDataBase64) {
+    const cid = result.retrievedCID ?? '';
+    return {
+      cid,
+      data: {
+        buffer: Buffer.from(result.retrievedDataBase64, 'base64'),
+        originalname: cid,
+        mimetype: result.retrievedContentType ?? 'application/octet-stream',
+      },
+    };
   }
+  return { cid: result.resultCID ?? result.cid ?? '' };
+}
+
+async function fetchFromIpfs(cid: string, signal: AbortSignal, ipfs: GatewayRetriever): Promise<UploadedFile> {
+  const { bytes } = await ipfs.retrieve(cid, { signal });
+  return {
+    buffer: Buffer.from(bytes),
+    originalname: cid,
+    mimetype: 'application/octet-stream',
+  };
 }
 
-function buildConfig() {
-  const rpcUrl = process.env.BASE_RPC_URL ?? '';
-  const privateKey = process.env.AGENT_A_PRIVATE_KEY ?? '';
+/** Input for a workflow hop: the upstream output if there is one, else the hop's own cid or the upload. */
+async function hopRequest(
+  hop: WorkflowHop,
+  upstream: HopOutput | undefined,
+  file: UploadedFile | undefined,
+  signal: AbortSignal,
+  ipfs: GatewayRetriever
+): Promise<ServiceRequest> {
+  const request: ServiceRequest = { service: hop.service };
+  const cid = upstream?.cid || hop.cid;
 
-  if (!rpcUrl || !privateKey) {
-    console.warn('[AgentA] ⚠️  BASE_RPC_URL or AGENT_A_PRIVATE_KEY not set');
-    return { erc8004: null, x402: null };
+  if (hop.service === 'retrieve') {
+    if (cid) request.cid = cid;
+  } else if (hop.service === 'analyze') {
+    if (cid) request.inputCID = cid;
+    else if (file) request.file = file;
+  } else if (upstream?.data) {
+    request.file = upstream.data;
+  } else if (upstream?.cid) {
+    request.file = await fetchFromIpfs(upstream.cid, signal, ipfs);
+  } else if (file) {
+    request.file = file;
   }
+  return request;
+}
+
+/** Plugin configs derived from the validated coordinator config. */
+function buildConfig(config: AntiphonConfig, cards: AgentCardSource, latency: LatencyTracker) {
+  const { rpcUrl, explorerUrl } = config.chain;
+  const { chain } = getChainProfile(config.chain.name);
+  const { privateKey } = config.agent;
 
   const erc8004 = {
-    identityRegistryAddress: process.env.ERC8004_IDENTITY_REGISTRY ?? '',
-    reputationRegistryAddress: process.env.ERC8004_REPUTATION_REGISTRY ?? '',
+    identityRegistryAddress: config.erc8004.identityRegistry,
+    reputationRegistryAddress: config.erc8004.reputationRegistry,
     rpcUrl,
+    chain,
     privateKey,
+    ...(explorerUrl && { explorerUrl }),
+    cards,
+    selection: config.selection,
+    latency,
   };
 
-  const x402 = process.env.X402_FACILITATOR_URL
-    ? { facilitatorUrl: process.env.X402_FACILITATOR_URL, privateKey, rpcUrl }
-    : null;
+  const x402 = {
+    facilitatorUrl: config.x402.facilitatorUrl,
+    privateKey,
+    rpcUrl,
+    chain,
+    ...(explorerUrl && { explorerUrl }),
+  };
+
+  return { chain, erc8004, x402 };
+}
+
+/**
+ * runTask's discovery, payment and reputation backed by the ERC-8004 and x402
+ * plugin actions, which pass data to each other through a handler state.
+ */
+function pluginTaskDeps(
+  erc8004Actions: ReturnType<typeof getERC8004Actions>,
+  x402Actions: ReturnType<typeof getX402Actions>,
+  latency: LatencyTracker
+): Pick<TaskDeps, 'discovery' | 'payment' | 'reputation'> {
+  // Adapter: plugin callbacks log into the running step
+  const callbackFor = (log: (msg: string) => void): ActionHandlerCallback => async (response) => {
+    if (response.text) log(response.text);
+    return [];
+  };
+
+  return {
+    discovery: {
+      async discover(service, { signal, log, strategy }) {
+        const state: ActionHandlerState = {
+          data: { serviceIntent: service, selectionStrategy: strategy },
+          recentMessagesData: [{ content: { text: service }, createdAt: Date.now() }],
+        };
+        await erc8004Actions.AGENT_DISCOVER.handler(null, null, state, { signal }, callbackFor(log));
+        // Every ranked provider, so payment can fail over down the list
+        const ranking = state.data?.ranking as ProviderDiscoveryResult | undefined;
+        if (!ranking) return [];
+        return ranking.providers.map((p) => ({ endpoint: p.endpoint, wallet: p.card.wallet, capability: ranking.capability }));
+      },
+    },
+
+    payment: {
+      async request(provider, request, { signal, log, taskId, onPaymentSigned }) {
+        const data: Record<string, unknown> = {
+          taskId,
+          providerEndpoint: provider.endpoint,
+          capability: provider.capability,
+        };
+        if (request.kind === 'analyze') data.inputCID = request.inputCID;
+        if (request.kind === 'retrieve') data.retrieveCID = request.cid;
+        if (request.kind === 'store') {
+          const { buffer } = request.file;
+          data.fileBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+          data.fileName = request.file.originalname;
+          data.fileMimeType = request.file.mimetype;
+        }
+        const state: ActionHandlerState = { data };
+        const started = Date.now();
+        try {
+          await x402Actions.PAYMENT_REQUEST.handler(null, null, state, { signal }, callbackFor(log));
+        } finally {
+          if (state.data?.paymentSigned) onPaymentSigned();
+        }
+
+        const out = state.data ?? {};
+        if (out.policyViolation) {
+          const { code, message } = out.policyViolation as Pick<PolicyViolation, 'code' | 'message'>;
+          throw new PolicyViolation(code, message);
+        }
+        if (out.providerUnavailable) {
+          throw new ProviderUnavailableError(provider.endpoint, out.providerUnavailable as string);
+        }
+        const output = serviceOutput(out);
+        // Only delivered calls count towards a provider's observed latency
+        if (output) latency.observe(provider.endpoint, Date.now() - started);
+        return output;
+      },
+    },
+
+    reputation: {
+      async post(provider, resultCID, { signal, log }) {
+        const state: ActionHandlerState = {
+          data: { providerWallet: provider.wallet, capability: provider.capability, resultCID },
+        };
+        await erc8004Actions.REPUTATION_POST.handler(null, null, state, { signal }, callbackFor(log));
+        return state.data?.reputationTxHash as string | undefined;
+      },
+    },
+  };
+}
+
+/** What PAYMENT_REQUEST left in its handler state, as a ServiceOutput. */
+function serviceOutput(out: Record<string, unknown>): ServiceOutput | null {
+  if (out.analysisResults) {
+    return { kind: 'analysis', ...(out.analysisResults as Omit<Extract<ServiceOutput, { kind: 'analysis' }>, 'kind'>) };
+  }
+  if (out.storageResults) {
+    return { kind: 'storage', ...(out.storageResults as Omit<Extract<ServiceOutput, { kind: 'storage' }>, 'kind'>) };
+  }
+  if (out.retrievedData) {
+    return {
+      kind: 'retrieval',
+      cid: out.retrievedCID as string,
+      contentType: out.retrievedContentType as string,
+      data: out.retrievedData as ArrayBuffer,
+    };
+  }
+  return null;
+}
 
-  return { erc8004, x402 };
+/** Validated config, or exit with every invalid field listed. */
+async function loadConfigOrExit(): Promise<AntiphonConfig> {
+  try {
+    return await loadConfig();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(`[AgentA] ❌ ${err.message}`);
+    console.error('[AgentA]    Set these in the environment (.env) or antiphon.config.json — see antiphon.config.example.json');
+    process.exit(1);
+  }
+}
+
+/** The spending policy at `policyPath` (null when there is none), or exit with every invalid field listed. */
+async function loadSpendingPolicyOrExit(policyPath: string, tracker: SpendTracker): Promise<SpendingPolicy | null> {
+  try {
+    return await SpendingPolicy.load(policyPath, tracker);
+  } catch (err) {
+    if (!(err instanceof InvalidSpendingPolicyError)) throw err;
+    console.error(`[AgentA] ❌ ${err.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Express 4 ignores a rejected handler promise, leaving the request hanging;
+ * forward the rejection to the error middleware instead.
+ */
+function asyncHandler(
+  handler: (req: express.Request, res: express.Response) => Promise<void>
+): express.RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
 }
 
 async function main() {
+  const config = await loadConfigOrExit();
+  const corsOrigins = config.server.corsOrigins;
+  const authRequired = config.auth.required;
+
   const app = express();
   const upload = multer({
     storage: multer.memoryStorage(),
-    limits: { fileSize: 50 * 1024 * 1024 }, // 50 MB
+    limits: { fileSize: config.server.uploadMaxBytes },
   });
 
   app.use(express.json());
   app.use(
     cors({
-      origin: '*',
-      exposedHeaders: ['Content-Type'],
+      origin: corsOrigins.includes('*') ? '*' : corsOrigins,
+      exposedHeaders: ['Content-Type', 'Content-Disposition', 'Idempotent-Replayed'],
     })
   );
 
-  // ── Initialize plugins ──────────────────────────────────────────────────
-  const cfg = buildConfig();
-  const erc8004Actions = getERC8004Actions(cfg.erc8004);
-  const x402Actions = getX402Actions(cfg.x402);
+  // ── Tracing ─────────────────────────────────────────────────────────────
+  // One trace per task (RPC calls, agent card, storage upload, x402 legs,
+  // reputation), appended as OTLP/JSON lines for offline inspection
+  if (config.paths.traceExport) tracer.useExporter(new OtlpJsonFileExporter(config.paths.traceExport));
 
-  // ── Initialize Storacha ─────────────────────────────────────────────────
-  let storacha: Awaited<ReturnType<typeof initStoracha>> | null = null;
+  // ── IPFS retrieval ──────────────────────────────────────────────────────
+  // Agent cards and upstream results come from the configured gateways in
+  // order, and are only used once they hash to the requested CID
+  const ipfs = new GatewayRetriever(config.ipfs);
+  // A card's CID pins its content, so validated cards are kept for good
+  const agentCards = new AgentCardCache({
+    fetch: (cid, options) => ipfs.json(cid, options),
+    legacyNetwork: config.chain.x402Network,
+    dir: config.paths.agentCardCache,
+    maxEntries: config.limits.agentCardCacheEntries,
+  });
+
+  // ── Storage ─────────────────────────────────────────────────────────────
+  // Free CSV transport, chosen by storage.backend (Storacha, a local directory
+  // or memory). Optional: without it only inputCID analysis is available
+  let storage: StorageProvider | null = null;
   try {
-    storacha = await initStoracha();
-    console.log('[AgentA] ✅ Storacha Initialized');
+    storage = await createStorage({ ...config.storage, retrieval: config.ipfs, storacha: config.storacha });
+    console.log(`[AgentA] ✅ CSV uploads go to ${storage.name}`);
   } catch (err) {
-    console.error('[AgentA] ⚠️  Storacha init failed:', (err as Error).message);
-    console.error(
-      '[AgentA]    CSV analysis unavailable until STORACHA_AGENT_PRIVATE_KEY & STORACHA_AGENT_DELEGATION are valid'
-    );
+    console.warn('[AgentA] ⚠️  Storage unavailable:', (err as Error).message);
+    console.warn('[AgentA]    CSV uploads for analysis are unavailable — only inputCID analysis works');
+  }
+
+  // ── Dev stack ───────────────────────────────────────────────────────────
+  // Offline stand-ins the config already points at; AgentA's wallet is funded.
+  // The gateway and mock AgentB read from the coordinator's own storage
+  const agentAddress = privateKeyToAccount(config.agent.privateKey as Hex).address;
+  const devStack = config.dev.enabled
+    ? await startDevStack({ port: config.dev.port, fund: [agentAddress], ...(storage && { storage }) })
+    : null;
+  if (devStack) {
+    console.log(`[AgentA] 🧪 Dev mode — local chain, facilitator, IPFS gateway and AgentB on ${devStack.url}`);
+  }
+
+  // ── Initialize plugins ──────────────────────────────────────────────────
+  // Paid calls feed observed latency back into provider selection
+  const providerLatency = new LatencyTracker();
+  const cfg = buildConfig(config, agentCards, providerLatency);
+
+  // Payment ledger: every signed x402 payment and its settlement tx
+  const paymentLedger = new PaymentLedger(config.paths.paymentLedger);
+  await paymentLedger.load();
+
+  // Spending policy: refuses x402 payments over the configured caps before signing
+  const policyPath = config.paths.spendingPolicy;
+  const spendingPolicy = await loadSpendingPolicyOrExit(policyPath, paymentLedger);
+  if (spendingPolicy) {
+    console.log(`[AgentA] 🛡️  Spending policy loaded from ${policyPath}`);
+  } else {
+    console.warn(`[AgentA] ⚠️  No spending policy at ${policyPath} — x402 payments are unrestricted`);
   }
 
+  const erc8004Actions = getERC8004Actions(cfg.erc8004);
+  const x402Actions = getX402Actions({
+    ...cfg.x402,
+    ledger: paymentLedger,
+    ...(spendingPolicy && { policy: spendingPolicy }),
+  });
+
+  // ── Task store ──────────────────────────────────────────────────────────
+  // Durable record of every task so results survive SSE drops and tab reloads.
+  const taskStore = new TaskStore(config.paths.taskStore);
+  await taskStore.load();
+  // Live SSE buffers, kept a while after each task ends for reconnects
+  const taskStreams = new TaskStreams(config.limits.streamRetentionMs);
+
+  // Idempotency-Key → taskId, so a retried POST /api/task never pays twice
+  const idempotencyKeys = new IdempotencyStore(config.paths.idempotencyStore, config.limits.idempotencyTtlMs);
+  await idempotencyKeys.load();
+
+  const taskQueue = new TaskQueue({
+    concurrency: config.limits.taskConcurrency,
+    perProviderConcurrency: config.limits.providerConcurrency,
+  });
+
+  // ── Auth ────────────────────────────────────────────────────────────────
+  // SIWE sessions gate every task/payment endpoint; auth.required=false opens
+  // them up again for local development. The RPC client lets smart-contract
+  // wallets (EIP-1271) sign in as well.
+  const auth = new SiweAuth({
+    sessionTtlMs: config.auth.sessionTtlMs,
+    chainId: config.chain.id,
+    publicClient: createPublicClient({ chain: cfg.chain, transport: http(config.chain.rpcUrl) }),
+  });
+  // Addresses that may read every task and the payment ledger
+  const admins = config.auth.adminAddresses.map((a) => a.toLowerCase());
+  const taskQuota: TaskQuota = {
+    maxActive: config.limits.taskQuotaActive,
+    maxPerDay: config.limits.taskQuotaDaily,
+  };
+  // Everything that reads or spends on a user's behalf needs a session
+  app.use(
+    ['/api/task', '/api/tasks', '/api/workflow', '/api/payments', '/api/providers', '/api/auth/logout'],
+    requireSession(auth, { enabled: authRequired })
+  );
+
+  const isAdmin = (res: express.Response) => {
+    const session = sessionOf(res);
+    return !authRequired || (!!session && admins.includes(session.address.toLowerCase()));
+  };
+  // Tasks are private to the address that submitted them
+  const canAccess = (res: express.Response, owner: string | undefined) => {
+    if (isAdmin(res)) return true;
+    return owner?.toLowerCase() === sessionOf(res)?.address.toLowerCase();
+  };
+
+  const replyAuthError = (res: express.Response, err: unknown) => {
+    if (!(err instanceof AuthError)) throw err;
+    res.status(err.status).json({ error: err.message });
+  };
+
   // ── SSE stream endpoint ─────────────────────────────────────────────────
-  // Frontend opens this AFTER POST returns taskId.
-  // Emitter may already exist (POST fired very fast) or be created here.
+  // Frontend opens this AFTER POST returns taskId, and EventSource reconnects
+  // here on network blips with Last-Event-ID. Buffered events after that id are
+  // replayed first, so late subscribers still see every step and the final
+  // done/error. Once the channel is evicted, finished tasks replay from the store.
   app.get('/api/task/:taskId/stream', (req, res) => {
     const { taskId } = req.params;
+    const owned = taskStore.get(taskId);
+    if (owned && !canAccess(res, owned.owner)) {
+      res.status(404).json({ error: `Unknown task: ${taskId}` });
+      return;
+    }
+    const lastEventId = parseLastEventId(
+      req.get('last-event-id') ?? req.query.lastEventId
+    );
 
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
-    res.setHeader('Access-Control-Allow-Origin', '*');
     res.flushHeaders();
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    const channel = taskStreams.get(taskId);
+    if (!channel) {
+      const task = taskStore.get(taskId);
+      if (task?.status === 'done' && task.result) {
+        res.write(`event: done\ndata: ${JSON.stringify(task.result)}\n\n`);
+      } else if (task?.status === 'cancelled') {
+        const cancelled: CancelledResult = { taskId, paid: !!task.paid, liveLog: task.liveLog };
+        res.write(`event: cancelled\ndata: ${JSON.stringify(cancelled)}\n\n`);
+      } else if (task?.status === 'error') {
+        const err: ErrorResult = { error: task.error ?? 'Task failed', liveLog: task.liveLog };
+        if (task.errorCode) err.code = task.errorCode;
+        res.write(`event: error\ndata: ${JSON.stringify(err)}\n\n`);
+      } else {
+        const err: ErrorResult = { error: `Unknown task: ${taskId}`, liveLog: [] };
+        res.write(`event: error\ndata: ${JSON.stringify(err)}\n\n`);
+      }
+      res.end();
+      return;
+    }
 
-    // Get or create emitter
-    let emitter = taskStreams.get(taskId);
-    if (!emitter) {
-      emitter = new EventEmitter();
-      taskStreams.set(taskId, emitter);
+    for (const evt of channel.since(lastEventId)) {
+      res.write(formatSseEvent(evt));
+    }
+    if (channel.finished) {
+      res.end();
+      return;
     }
 
-    const onStep = (evt: StepEvent) => {
-      res.write(`data: ${JSON.stringify(evt)}\n\n`);
-    };
-    const onDone = (result: TaskResult) => {
-      res.write(`event: done\ndata: ${JSON.stringify(result)}\n\n`);
-      cleanup();
-    };
-    const onError = (err: ErrorResult) => {
-      res.write(`event: error\ndata: ${JSON.stringify(err)}\n\n`);
-      cleanup();
+    const onEvent = (evt: TaskEvent) => {
+      res.write(formatSseEvent(evt));
+      if (isTerminalEvent(evt)) cleanup();
     };
 
+    // Comment frames keep proxies and load balancers from idling the stream out
+    const heartbeat = setInterval(() => {
+      res.write(`: heartbeat ${Date.now()}\n\n`);
+    }, SSE_HEARTBEAT_MS);
+
+    let subscribed = true;
     const cleanup = () => {
-      emitter!.off('step', onStep);
-      emitter!.off('done', onDone);
-      emitter!.off('error', onError);
+      if (!subscribed) return;
+      subscribed = false;
+      clearInterval(heartbeat);
+      channel.off('event', onEvent);
+      metrics.sseSubscribers.dec();
       res.end();
     };
 
-    emitter.on('step', onStep);
-    emitter.on('done', onDone);
-    emitter.on('error', onError);
+    channel.on('event', onEvent);
+    metrics.sseSubscribers.inc();
     req.on('close', cleanup);
   });
 
+  // ── Webhooks ────────────────────────────────────────────────────────────
+  const webhookSecret = config.webhooks.secret;
+  const webhooks = webhookSecret
+    ? new WebhookDispatcher({
+        secret: webhookSecret,
+        maxAttempts: config.webhooks.maxAttempts,
+        allowedHosts: config.webhooks.allowedHosts,
+        onUpdate: (taskId, delivery) => taskStore.recordWebhook(taskId, delivery),
+      })
+    : null;
+
+  // Optional `callbackUrl` body field; throws InvalidCallbackUrlError, including
+  // for hosts that resolve to loopback/private addresses
+  const readCallbackUrl = async (req: express.Request) => {
+    const raw = req.body?.callbackUrl as string | undefined;
+    if (!raw) return undefined;
+    if (!webhooks) {
+      throw new InvalidCallbackUrlError('callbackUrl is not supported — set WEBHOOK_SECRET on the coordinator');
+    }
+    const callbackUrl = parseCallbackUrl(raw);
+    await assertPublicCallbackUrl(callbackUrl, { allowedHosts: config.webhooks.allowedHosts });
+    return callbackUrl;
+  };
+
+  // ── Task runner ─────────────────────────────────────────────────────────
+  // Registers a task (store record, SSE channel, abort controller), waits for
+  // a pipeline slot, runs `body` and publishes the terminal done/error/cancelled
+  // event. Returns immediately — the caller responds with the taskId.
+  const startTask = (
+    { taskId, service, owner, callbackUrl, parent = null }: TaskInit,
+    body: (run: TaskRun) => Promise<Omit<TaskResult, 'liveLog'>>
+  ) => {
+    taskStore.create(taskId, service, owner, callbackUrl);
+    // `service` is client text; metrics only ever see the service it resolves to
+    const serviceLabel = service === 'workflow' ? service : serviceIdFor(service);
+
+    // done/error are also POSTed to the requester's callbackUrl, if any
+    const notify = (event: WebhookEvent, data: TaskResult | ErrorResult) => {
+      if (!callbackUrl || !webhooks) return;
+      void webhooks.dispatch(taskId, callbackUrl, event, data).then((delivery) => {
+        const icon = delivery.state === 'delivered' ? '📬' : '⚠️ ';
+        console.log(`[AgentA] ${icon} Webhook ${delivery.state} for ${taskId} after ${delivery.attempts.length} attempt(s)`);
+      });
+    };
+
+    // Create channel now; SSE subscriber replays from it
+    const channel = taskStreams.open(taskId);
+
+    // DELETE /api/task/:taskId aborts this; plugins stop at their next safe point
+    const controller = new AbortController();
+    activeTasks.set(taskId, controller);
+    const { signal } = controller;
+
+    const liveLog: string[] = [];
+    let paid = false;
+
+    const run: TaskRun = {
+      taskId,
+      signal,
+      // Emit a step event to SSE + console
+      emit: (stepNum, msg, extra = {}) => {
+        liveLog.push(msg);
+        const evt: StepEvent = { stepNum, msg, liveLog: [...liveLog], ...extra };
+        taskStore.recordStep(taskId, stepNum, liveLog);
+        channel.publish({ event: 'step', data: evt });
+        console.log(`[AgentA:${stepNum}] ${msg}`);
+      },
+      markPaid: () => {
+        paid = true;
+      },
+    };
+
+    const span = tracer.startSpan('task', {
+      kind: 'server',
+      parent,
+      attributes: { 'task.id': taskId, service, ...(owner && { 'task.owner': owner }) },
+    });
+
+    void tracer.withActive(span, async () => {
+      let releaseTaskSlot: Release | null = null;
+      try {
+        // ── submit: wait for a pipeline slot ──────────────────────────────
+        releaseTaskSlot = await taskQueue.acquire({
+          signal,
+          onQueued: (position) =>
+            run.emit(
+              SUBMIT_STEP,
+              `⏳ Queued — position ${position} (${config.limits.taskConcurrency} pipelines running)`,
+              { queuePosition: position }
+            ),
+        });
+        taskStore.start(taskId, span.traceId);
+
+        const result: TaskResult = { ...(await body(run)), liveLog: [...liveLog] };
+        taskStore.complete(taskId, result);
+        metrics.tasks.inc({ service: serviceLabel, outcome: 'done' });
+        span.setStatus('ok');
+        channel.publish({ event: 'done', data: result });
+        notify('done', result);
+      } catch (err: unknown) {
+        if (err instanceof TaskCancelledError || signal.aborted) {
+          const line = paid
+            ? '⏹️ Task cancelled — x402 payment had already been signed'
+            : '⏹️ Task cancelled before any payment was signed';
+          console.log(`[AgentA] ${line}`);
+          liveLog.push(line);
+          const event: CancelledResult = { taskId, paid, liveLog: [...liveLog] };
+          taskStore.cancel(taskId, liveLog, paid);
+          metrics.tasks.inc({ service: serviceLabel, outcome: 'cancelled' });
+          span.setAttribute('task.paid', paid).setStatus('error', 'cancelled');
+          channel.publish({ event: 'cancelled', data: event });
+          return;
+        }
+
+        const msg = err instanceof PolicyViolation
+          ? `PolicyViolation: ${err.message}`
+          : err instanceof Error ? err.message : String(err);
+        console.error('[AgentA] ❌ Task failed:', err);
+        liveLog.push(`❌ ${msg}`);
+        const event: ErrorResult = { error: msg, liveLog: [...liveLog] };
+        if (err instanceof PolicyViolation) event.code = err.code;
+        taskStore.fail(taskId, msg, liveLog, event.code);
+        metrics.tasks.inc({ service: serviceLabel, outcome: 'error' });
+        span.recordException(err);
+        channel.publish({ event: 'error', data: event });
+        notify('error', event);
+      } finally {
+        releaseTaskSlot?.();
+        activeTasks.delete(taskId);
+        span.end();
+        // Keep the buffer around for reconnects; the store covers anything later
+        taskStreams.retire(taskId);
+      }
+    });
+  };
+
+  // ── Single-service pipeline ─────────────────────────────────────────────
+  // discover → prepare → pay → deliver → reputation → complete for one
+  // service (shared/pipeline runTask). POST /api/task runs it once;
+  // POST /api/workflow once per hop.
+  const taskDeps: TaskDeps = {
+    ...pluginTaskDeps(erc8004Actions, x402Actions, providerLatency),
+    storage,
+    datasets: {
+      url: (cid) => gatewayUrl(cid, config.ipfs.gatewayUrl),
+      probe: (cid, signal) => probeGateway(cid, { signal, gateway: config.ipfs.gatewayUrl }),
+    },
+    providerSlots: taskQueue,
+  };
+  const runService = (request: ServiceRequest, run: TaskRun) =>
+    runTask(taskDeps, { ...request, taskId: run.taskId, signal: run.signal, onPaymentSigned: run.markPaid }, run.emit);
+
   // ── Main task endpoint ──────────────────────────────────────────────────
+  // Throws a 429 AuthError once the caller has used up their task quota
+  const checkQuota = (owner: string | undefined) => {
+    if (!owner) return;
+    assertTaskQuota(taskStore.list({ owner, limit: Number.MAX_SAFE_INTEGER }), taskQuota);
+  };
+
   app.post(
     '/api/task',
     upload.single('file'),
-    async (req: express.Request, res: express.Response) => {
-      const taskId = randomUUID();
+    asyncHandler(async (req, res) => {
+      const owner = sessionOf(res)?.address;
       const service = (req.body?.service as string) ?? 'analyze';
-      const cidInput = req.body?.cid as string | undefined;
-      const file = (req as express.Request & { file?: Express.Multer.File }).file;
+      // Raw body values: parseCid rejects anything that isn't a CID string
+      const cid: unknown = req.body?.cid;
+      // analyze: a dataset already on IPFS, used instead of uploading `file`
+      const inputCID: unknown = req.body?.inputCID;
+      const file = (req as express.Request & { file?: UploadedFile }).file;
+
+      const request: ServiceRequest = { service };
+      let callbackUrl: string | undefined;
+      try {
+        if (cid) request.cid = parseCid(cid).toString();
+        if (inputCID) request.inputCID = parseCid(inputCID).toString();
+        const strategy = parseSelectionStrategy(req.body?.strategy);
+        if (strategy) request.strategy = strategy;
+        callbackUrl = await readCallbackUrl(req);
+      } catch (err) {
+        if (
+          err instanceof InvalidCidError ||
+          err instanceof InvalidCallbackUrlError ||
+          err instanceof InvalidSelectionStrategyError
+        ) {
+          res.status(400).json({ error: err.message });
+          return;
+        }
+        throw err;
+      }
+      // Refuse rather than silently drop the upload or ignore the CID
+      if (request.inputCID && serviceIdFor(service) !== 'analyze') {
+        res.status(400).json({ error: `inputCID only applies to analyze tasks, not "${service}"` });
+        return;
+      }
+      if (request.inputCID && file) {
+        res.status(400).json({ error: 'Send either a file or inputCID, not both' });
+        return;
+      }
+      if (file) request.file = file;
+
+      // A retry with the same key and body gets the original task back —
+      // its stream and result are served by the usual endpoints
+      const idempotencyKey = req.get('Idempotency-Key');
+      const scope = owner?.toLowerCase() ?? 'anonymous';
+      const fingerprint = fingerprintRequest(
+        {
+          service,
+          cid: request.cid,
+          inputCID: request.inputCID,
+          callbackUrl,
+          // Only when set, so keys recorded before per-task strategies still match
+          ...(request.strategy && { strategy: request.strategy }),
+        },
+        request.file
+      );
+      if (idempotencyKey !== undefined) {
+        try {
+          const originalTaskId = idempotencyKeys.lookup(scope, idempotencyKey, fingerprint);
+          if (originalTaskId) {
+            console.log(`[AgentA] 🔁 Idempotent replay of task ${originalTaskId}`);
+            res.set('Idempotent-Replayed', 'true').json({ taskId: originalTaskId, success: true, replayed: true });
+            return;
+          }
+        } catch (err) {
+          if (err instanceof IdempotencyConflictError) {
+            res.status(422).json({ error: err.message });
+            return;
+          }
+          if (err instanceof InvalidIdempotencyKeyError) {
+            res.status(400).json({ error: err.message });
+            return;
+          }
+          throw err;
+        }
+      }
+
+      try {
+        checkQuota(owner);
+      } catch (err) {
+        replyAuthError(res, err);
+        return;
+      }
+
+      const taskId = randomUUID();
+      if (idempotencyKey !== undefined) idempotencyKeys.remember(scope, idempotencyKey, fingerprint, taskId);
+      const parent = parseTraceparent(req.get('traceparent'));
+      startTask({ taskId, service, owner, callbackUrl, parent }, (run) => runService(request, run));
 
       // Return taskId immediately — frontend opens SSE stream with it
       res.json({ taskId, success: true });
+    })
+  );
 
-      // Create emitter now; SSE subscriber attaches to it
-      const emitter = taskStreams.get(taskId) ?? new EventEmitter();
-      taskStreams.set(taskId, emitter);
-
-      const liveLog: string[] = [];
-      let currentStep = 1;
+  // ── Workflow endpoint ───────────────────────────────────────────────────
+  // Chains services in one task: each hop's output CID feeds the next hop.
+  // Every hop is discovered, paid and rated on its own; all hops share one
+  // SSE stream, with step events tagged by `hop`.
+  const runWorkflow = async (
+    hops: WorkflowHop[],
+    file: UploadedFile | undefined,
+    strategy: SelectionStrategy | undefined,
+    run: TaskRun
+  ): Promise<Omit<TaskResult, 'liveLog'>> => {
+    const outputs = new Map<string, HopOutput>();
+    const hopResults: WorkflowHopResult[] = [];
 
-      // Emit a step event to SSE + console
-      const emit = (stepNum: number, msg: string) => {
-        currentStep = stepNum;
-        liveLog.push(msg);
-        const evt: StepEvent = { stepNum, msg, liveLog: [...liveLog] };
-        emitter.emit('step', evt);
-        console.log(`[AgentA:${stepNum}] ${msg}`);
+    for (const [index, hop] of hops.entries()) {
+      const ref: WorkflowHopRef = { id: hop.id, service: hop.service, index, total: hops.length };
+      const tag = `[${index + 1}/${hops.length} ${hop.service}]`;
+      const hopRun: TaskRun = {
+        taskId: run.taskId,
+        signal: run.signal,
+        markPaid: run.markPaid,
+        emit: (stepNum, msg, extra = {}) => run.emit(stepNum, `${tag} ${msg}`, { ...extra, hop: ref }),
       };
 
-      // Adapter: plugin callbacks call this
-      const callback: ActionHandlerCallback = async (response) => {
-        if (response.text) emit(currentStep, response.text);
-        return [];
-      };
+      const upstream = hop.inputFrom ? outputs.get(hop.inputFrom) : undefined;
+      if (upstream) {
+        hopRun.emit(SUBMIT_STEP, `🔗 Input from "${hop.inputFrom}" — ${upstream.cid}`);
+      }
+      const result = await tracer.withSpan(
+        `hop ${hop.id}`,
+        { attributes: { 'task.id': run.taskId, 'hop.id': hop.id, service: hop.service, 'hop.index': index } },
+        async () =>
+          runService({ ...(await hopRequest(hop, upstream, file, run.signal, ipfs)), ...(strategy && { strategy }) }, hopRun)
+      );
+
+      const output = hopOutput(result);
+      outputs.set(hop.id, output);
+
+      const summary: WorkflowHopResult = { id: hop.id, service: hop.service, outputCID: output.cid };
+      if (result.summary) summary.summary = result.summary;
+      if (result.fileName) summary.fileName = result.fileName;
+      if (result.fileSize !== undefined) summary.fileSize = result.fileSize;
+      if (result.retrievedContentType) summary.retrievedContentType = result.retrievedContentType;
+      if (result.reputationTxHash) summary.reputationTxHash = result.reputationTxHash;
+      hopResults.push(summary);
+    }
+
+    const last = hopResults[hopResults.length - 1];
+    const result: Omit<TaskResult, 'liveLog'> = { success: true, service: 'workflow', hops: hopResults };
+    if (last?.outputCID) result.resultCID = last.outputCID;
+    return result;
+  };
 
+  app.post(
+    '/api/workflow',
+    upload.single('file'),
+    asyncHandler(async (req, res) => {
+      const owner = sessionOf(res)?.address;
       try {
-        // Build state object — replaces ElizaOS ActionHandlerState
-        const state: ActionHandlerState = {
-          data: { serviceIntent: service },
-          recentMessagesData: [
-            { content: { text: service }, createdAt: Date.now() },
-          ],
-        };
+        checkQuota(owner);
+      } catch (err) {
+        replyAuthError(res, err);
+        return;
+      }
 
-        // ── 1 → 2: AGENT_DISCOVER ───────────────────────────────────────
-        currentStep = 2;
-        emit(2, `🔍 Querying ERC-8004 registry for "${service}" capability...`);
-        await erc8004Actions.AGENT_DISCOVER.handler(
-          null,
-          null,
-          state,
-          {},
-          callback
-        );
-
-        if (!state.data?.providerEndpoint) {
-          throw new Error(
-            `No provider found on-chain for service: ${service}. ` +
-              'Ensure AgentB is registered via register-services.js'
-          );
-        }
+      const file = (req as express.Request & { file?: UploadedFile }).file;
 
-        // ── 2: Upload / Prepare payload ──────────────────────────────────
-        const route = resolveServiceRoute(service);
-
-        if (route.capability === 'csv-analysis') {
-          // CSV analysis: upload to Storacha for FREE (data transport only)
-          // No x402, no wallet, no user interaction. AgentA's Storacha creds.
-          if (!file) throw new Error('CSV file required for analysis');
-          if (!storacha)
-            throw new Error(
-              'Storacha unavailable — check STORACHA_AGENT_PRIVATE_KEY and STORACHA_AGENT_DELEGATION'
-            );
-
-          emit(2, `📤 Uploading CSV to Storacha (free data transport, no payment)...`);
-          const csvFile = new File([file.buffer], file.originalname, {
-            type: file.mimetype,
-          });
-          const cid = await storacha.uploadFile(csvFile);
-          const cidStr = cid.toString();
-          state.data!.inputCID = cidStr;
-          emit(2, `✅ CSV staged — inputCID: ${cidStr.slice(0, 20)}...`);
-        } else if (route.endpointSuffix === '/upload') {
-          // File storage: pass raw buffer to x402 plugin which sends it as multipart
-          if (!file) throw new Error('File required for storage service');
-          emit(2, `📦 Preparing file "${file.originalname}" for paid IPFS storage...`);
-          const ab = file.buffer.buffer.slice(
-            file.buffer.byteOffset,
-            file.buffer.byteOffset + file.buffer.byteLength
-          );
-          state.data!.fileBuffer = ab;
-          state.data!.fileName = file.originalname;
-          state.data!.fileMimeType = file.mimetype;
-        } else {
-          // File retrieval: just pass the CID
-          if (!cidInput) throw new Error('CID required for file retrieval');
-          emit(2, `🔎 Preparing retrieval request for CID: ${cidInput}...`);
-          state.data!.retrieveCID = cidInput;
+      // Multipart requests carry `steps` as a JSON string next to the file
+      let steps: unknown = req.body?.steps;
+      if (typeof steps === 'string') {
+        try {
+          steps = JSON.parse(steps);
+        } catch {
+          res.status(400).json({ error: 'steps must be valid JSON' });
+          return;
         }
+      }
 
-        // ── 3: PAYMENT_REQUEST — x402 EIP-712 auto-sign + execute ────────
-        currentStep = 3;
-        emit(
-          3,
-          `💳 AgentA sending x402 payment → ${state.data!.providerEndpoint}`
-        );
-        await x402Actions.PAYMENT_REQUEST.handler(null, null, state, {}, callback);
-
-        const hasResult =
-          state.data?.resultCID ||
-          state.data?.storageResults ||
-          state.data?.retrievedData;
-
-        if (!hasResult) {
-          throw new Error(
-            'Task execution failed — AgentB returned no result. Check AgentB server logs.'
-          );
+      let hops: WorkflowHop[];
+      let callbackUrl: string | undefined;
+      // One strategy for every hop's discovery
+      let strategy: SelectionStrategy | undefined;
+      try {
+        callbackUrl = await readCallbackUrl(req);
+        strategy = parseSelectionStrategy(req.body?.strategy);
+        hops = planWorkflow(steps, !!file);
+        for (const hop of hops) {
+          if (hop.cid) hop.cid = parseCid(hop.cid).toString();
+        }
+      } catch (err) {
+        if (
+          err instanceof WorkflowValidationError ||
+          err instanceof InvalidCidError ||
+          err instanceof InvalidCallbackUrlError ||
+          err instanceof InvalidSelectionStrategyError
+        ) {
+          res.status(400).json({ error: err.message });
+          return;
         }
+        throw err;
+      }
 
-        // ── 4: Processing complete ────────────────────────────────────────
-        currentStep = 4;
-        emit(4, `✅ Payment confirmed, service delivered by AgentB`);
+      const taskId = randomUUID();
+      const parent = parseTraceparent(req.get('traceparent'));
+      startTask({ taskId, service: 'workflow', owner, callbackUrl, parent }, (run) => runWorkflow(hops, file, strategy, run));
 
-        // ── 4 / 5: REPUTATION_POST ────────────────────────────────────────
-        const repStep = route.capability === 'csv-analysis' ? 5 : 3;
-        currentStep = repStep;
-        emit(repStep, `⭐ Posting on-chain reputation for ${state.data!.providerWallet}...`);
-        await erc8004Actions.REPUTATION_POST.handler(null, null, state, {}, callback);
+      res.json({
+        taskId,
+        success: true,
+        hops: hops.map(({ id, service, dependsOn }) => ({ id, service, dependsOn })),
+      });
+    })
+  );
 
-        // ── 5 / 6: Done ───────────────────────────────────────────────────
-        const doneStep = route.capability === 'csv-analysis' ? 6 : 4;
-        emit(doneStep, `🏆 Pipeline complete — all steps done`);
+  // ── Cancel a running task ───────────────────────────────────────────────
+  app.delete('/api/task/:taskId', (req, res) => {
+    const { taskId } = req.params;
+    const task = taskStore.get(taskId);
+    if (!task || !canAccess(res, task.owner)) {
+      res.status(404).json({ error: `Unknown task: ${taskId}` });
+      return;
+    }
+    const controller = activeTasks.get(taskId);
+    if (!controller || (task.status !== 'queued' && task.status !== 'running')) {
+      res.status(409).json({ error: `Task already ${task.status}`, status: task.status });
+      return;
+    }
+    controller.abort();
+    res.status(202).json({ taskId, cancelling: true });
+  });
 
-        // Build final result object
-        const result: TaskResult = {
-          success: true,
-          service,
-          liveLog: [...liveLog],
-          reputationTxHash: state.data?.reputationTxHash as string,
-        };
+  // ── Webhook delivery log ────────────────────────────────────────────────
+  app.get('/api/task/:taskId/webhooks', (req, res) => {
+    const task = taskStore.get(req.params.taskId);
+    if (!task || !canAccess(res, task.owner)) {
+      res.status(404).json({ error: `Unknown task: ${req.params.taskId}` });
+      return;
+    }
+    res.json({ taskId: task.taskId, callbackUrl: task.callbackUrl ?? null, delivery: task.webhook ?? null });
+  });
 
-        if (state.data?.analysisResults) {
-          const ar = state.data.analysisResults as {
-            summary: string;
-            statistics: Record<string, unknown>;
-            insights: string[];
-            resultCID: string;
-          };
-          result.resultCID = ar.resultCID;
-          result.summary = ar.summary;
-          result.statistics = ar.statistics;
-          result.insights = ar.insights;
-        } else if (state.data?.storageResults) {
-          const sr = state.data.storageResults as {
-            cid: string;
-            fileName: string;
-            fileSize: number;
-          };
-          result.cid = sr.cid;
-          result.fileName = sr.fileName;
-          result.fileSize = sr.fileSize;
-        } else if (state.data?.retrievedData) {
-          const buf = state.data.retrievedData as ArrayBuffer;
-          result.retrievedCID = state.data.retrievedCID as string;
-          result.retrievedContentType = state.data
-            .retrievedContentType as string;
-          result.retrievedDataBase64 = Buffer.from(buf).toString('base64');
-        } else if (state.data?.resultCID) {
-          result.resultCID = state.data.resultCID as string;
-        }
+  // ── Task lookup ─────────────────────────────────────────────────────────
+  // Finished work stays queryable after the SSE stream is gone.
+  app.get('/api/task/:taskId', (req, res) => {
+    const task = taskStore.get(req.params.taskId);
+    if (!task || !canAccess(res, task.owner)) {
+      res.status(404).json({ error: `Unknown task: ${req.params.taskId}` });
+      return;
+    }
+    res.json(task);
+  });
 
-        emitter.emit('done', result);
-      } catch (err: unknown) {
-        const msg = err instanceof Error ? err.message : String(err);
-        console.error('[AgentA] ❌ Task failed:', err);
-        liveLog.push(`❌ ${msg}`);
-        const event: ErrorResult = { error: msg, liveLog: [...liveLog] };
-        emitter.emit('error', event);
-      } finally {
-        // Clean up after SSE has drained
-        setTimeout(() => {
-          taskStreams.delete(taskId);
-        }, 8000);
+  app.get('/api/tasks', (req, res) => {
+    const status = req.query.status as TaskStatus | undefined;
+    if (status && !TASK_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${TASK_STATUSES.join(', ')}` });
+      return;
+    }
+    const limit = Math.min(parseInt((req.query.limit as string) ?? '50', 10) || 50, 500);
+    const service = req.query.service as string | undefined;
+    // Admins see everyone's tasks, everyone else only their own
+    const owner = isAdmin(res) ? undefined : sessionOf(res)?.address;
+    res.json({
+      tasks: taskStore.list({
+        limit,
+        ...(status && { status }),
+        ...(service && { service }),
+        ...(owner && { owner }),
+      }),
+    });
+  });
+
+  // ── SIWE sign-in ────────────────────────────────────────────────────────
+  // GET nonce → wallet signs an EIP-4361 message → POST verify → bearer token.
+  app.get('/api/auth/nonce', (_req, res) => {
+    res.json({ nonce: auth.issueNonce() });
+  });
+
+  app.post('/api/auth/verify', asyncHandler(async (req, res) => {
+    const { message, signature } = (req.body ?? {}) as { message?: string; signature?: string };
+    if (!message || !signature) {
+      res.status(400).json({ error: 'message and signature are required' });
+      return;
+    }
+    // The message must name the site the user is actually on
+    const origin = req.get('origin');
+    let domain = req.get('host') ?? '';
+    if (origin) {
+      try {
+        domain = new URL(origin).host;
+      } catch {
+        res.status(400).json({ error: `Invalid Origin header: ${origin}` });
+        return;
       }
     }
-  );
+    try {
+      const session = await auth.verify(message, signature as Hex, domain);
+      console.log(`[AgentA] 🔐 Signed in ${session.address}`);
+      res.json(session);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        replyAuthError(res, err);
+        return;
+      }
+      // e.g. the RPC call behind an EIP-1271 signature check failed
+      console.error('[AgentA] Sign-in verification failed:', err);
+      res.status(502).json({ error: `Could not verify the signature: ${(err as Error).message}` });
+    }
+  }));
+
+  // Open to everyone: a signed-out client gets `session: null`, not a 401
+  app.get('/api/auth/session', (req, res) => {
+    const token = readToken(req);
+    res.json({ authRequired, session: (token && auth.session(token)) || null });
+  });
+
+  app.post('/api/auth/logout', (_req, res) => {
+    const session = sessionOf(res);
+    if (session) auth.revoke(session.token);
+    res.json({ success: true });
+  });
+
+  // ── Payment ledger ──────────────────────────────────────────────────────
+  // ?taskId=&payTo=&capability=&network=&status=&from=&to=&limit=&format=csv
+  app.get('/api/payments', (req, res) => {
+    if (!isAdmin(res)) {
+      res.status(403).json({ error: 'The payment ledger is restricted to AUTH_ADMIN_ADDRESSES' });
+      return;
+    }
+    const query = req.query as Record<string, string | undefined>;
+    const filter: PaymentFilter = {};
+
+    if (query.status) {
+      if (!PAYMENT_STATUSES.includes(query.status as PaymentStatus)) {
+        res.status(400).json({ error: `status must be one of: ${PAYMENT_STATUSES.join(', ')}` });
+        return;
+      }
+      filter.status = query.status as PaymentStatus;
+    }
+    for (const key of ['from', 'to'] as const) {
+      const value = query[key];
+      if (!value) continue;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        res.status(400).json({ error: `${key} must be an ISO date` });
+        return;
+      }
+      filter[key] = date;
+    }
+    if (query.taskId) filter.taskId = query.taskId;
+    if (query.payTo) filter.payTo = query.payTo;
+    if (query.capability) filter.capability = query.capability;
+    if (query.network) filter.network = query.network;
+
+    if (query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="payments.csv"');
+      res.send(paymentsToCsv(paymentLedger.list(filter)));
+      return;
+    }
+
+    filter.limit = Math.min(parseInt(query.limit ?? '100', 10) || 100, 1000);
+    const payments = paymentLedger.list(filter);
+    res.json({ payments });
+  });
 
   // ── Health check ────────────────────────────────────────────────────────
-  app.get('/api/health', (_req, res) => {
-    res.json({
-      status: 'ok',
+  // Live probes: RPC + chain id, registry bytecode, the storage backend, AgentA
+  // balances and the providers for every paid capability
+  const healthClient = new WalletService(config.chain.rpcUrl, cfg.chain).createPublicClient();
+  // Providers register under their route's capability (file-retrieval under
+  // file-storage) but are probed at the card endpoint for the paid one
+  const listProviders = (capability: string) =>
+    listRegisteredAgents(cfg.erc8004, routeForCapability(capability)!.capability);
+  const loadCard = (cid: string, signal: AbortSignal) => agentCards.get(cid, { signal });
+  const health = new HealthMonitor(
+    [
+      rpcCheck(healthClient, config.chain.id),
+      contractCodeCheck('identityRegistry', healthClient, cfg.erc8004.identityRegistryAddress, true),
+      contractCodeCheck('reputationRegistry', healthClient, cfg.erc8004.reputationRegistryAddress),
+      storageCheck(storage),
+      ...(devStack ? [devStackCheck(devStack)] : []),
+      walletCheck(healthClient, agentAddress, config.chain.usdcAddress as Address),
+      ...PAID_CAPABILITIES.map((c) => providersCheck(c, listProviders, loadCard)),
+    ],
+    { timeoutMs: config.health.timeoutMs, cacheMs: config.health.cacheMs }
+  );
+
+  app.get('/api/health', asyncHandler(async (_req, res) => {
+    const report = await health.report();
+    res.status(report.status === 'down' ? 503 : 200).json({
+      ...report,
       agent: 'RachaxCoordinator',
       framework: 'lean-ts',
-      storacha: !!storacha,
-      erc8004: !!cfg.erc8004?.identityRegistryAddress,
-      x402: !!cfg.x402,
-      agentBEndpoints: {
-        analyzer: 'http://localhost:8001/analyze',
-        storage: 'http://localhost:8000/upload',
-        retrieval: 'http://localhost:8000/retrieve',
-      },
+      chain: { name: config.chain.name, id: config.chain.id, network: config.chain.x402Network },
+      spendingPolicy: !!spendingPolicy,
+      authRequired,
+      queue: taskQueue.stats(),
     });
+  }));
+
+  // ── Provider ranking ────────────────────────────────────────────────────
+  // The candidates discovery chooses from for a capability, best first, with
+  // their scores under the configured strategy or ?strategy=
+  app.get('/api/providers', asyncHandler(async (req, res) => {
+    const capability = typeof req.query.capability === 'string' ? req.query.capability : '';
+    const route = routeForCapability(capability);
+    if (!route) {
+      res.status(400).json({ error: `capability must be one of ${PAID_CAPABILITIES.join(', ')}` });
+      return;
+    }
+    let strategy: SelectionStrategy | undefined;
+    try {
+      strategy = parseSelectionStrategy(req.query.strategy);
+    } catch (err) {
+      if (!(err instanceof InvalidSelectionStrategyError)) throw err;
+      res.status(400).json({ error: err.message });
+      return;
+    }
+
+    try {
+      const ranking = await discoverProviders(cfg.erc8004, route, strategy ? { strategy } : {});
+      res.json({
+        capability: ranking.capability,
+        network: ranking.network,
+        strategy: ranking.strategy,
+        providers: ranking.providers.map((p, i) => ({
+          rank: i + 1,
+          address: p.address,
+          name: p.card.name,
+          endpoint: p.endpoint,
+          price: p.price,
+          priceUsd: formatUnits(BigInt(p.price), 6),
+          reputation: p.reputation,
+          totalRatings: p.totalRatings,
+          weightedReputation: p.weightedReputation,
+          latencyMs: p.latencyMs ?? null,
+          score: p.score,
+          agentCardCID: p.agentCardCID,
+        })),
+        excluded: ranking.excluded,
+      });
+    } catch (err) {
+      res.status(502).json({ error: `Provider discovery failed: ${(err as Error).message}` });
+    }
+  }));
+
+  // ── Prometheus scrape endpoint ──────────────────────────────────────────
+  app.get('/metrics', (_req, res) => {
+    res.type(PROMETHEUS_CONTENT_TYPE).send(registry.render());
+  });
+
+  // ── Errors ──────────────────────────────────────────────────────────────
+  // The one error handler: anything a route throws or rejects with lands here
+  // as JSON. Client errors raised by middleware (malformed JSON bodies,
+  // oversized uploads) keep their 4xx status.
+  app.use((err: unknown, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (res.headersSent) return next(err);
+    const { name, code, status } = (err ?? {}) as { name?: string; code?: string; status?: number };
+    if (name === 'MulterError') {
+      res.status(code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: (err as Error).message });
+      return;
+    }
+    if (typeof status === 'number' && status >= 400 && status < 500) {
+      res.status(status).json({ error: (err as Error).message });
+      return;
+    }
+    console.error('[AgentA] Request failed:', err);
+    res.status(500).json({ error: 'Internal server error' });
   });
 
-  const port = parseInt(process.env.TASK_API_PORT ?? '3001', 10);
+  const port = config.server.port;
   app.listen(port, () => {
     console.log(`\n🤖 Rachax402 AgentA Coordinator`);
+    console.log(`   POST  http://localhost:${port}/api/auth/verify  (SIWE${authRequired ? '' : ' — disabled'})`);
     console.log(`   POST  http://localhost:${port}/api/task`);
+    console.log(`   POST  http://localhost:${port}/api/workflow`);
     console.log(`   GET   http://localhost:${port}/api/task/:id/stream  (SSE)`);
-    console.log(`   GET   http://localhost:${port}/api/health\n`);
+    console.log(`   GET   http://localhost:${port}/api/task/:id`);
+    console.log(`   GET   http://localhost:${port}/api/task/:id/webhooks`);
+    console.log(`   DEL   http://localhost:${port}/api/task/:id`);
+    console.log(`   GET   http://localhost:${port}/api/tasks`);
+    console.log(`   GET   http://localhost:${port}/api/payments`);
+    console.log(`   GET   http://localhost:${port}/api/providers?capability=`);
+    console.log(`   GET   http://localhost:${port}/api/health`);
+    console.log(`   GET   http://localhost:${port}/metrics\n`);
   });
 }
 
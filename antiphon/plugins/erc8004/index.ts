@@ -1,8 +1,21 @@
 import { elizaLogger } from "@elizaos/core";
-import type { Address } from "viem";
-import { baseSepolia } from "viem/chains";
-import { WalletService } from "../../shared/blockchain/index.js";
-import type { ActionHandlerCallback, ActionHandlerState } from "../../index.js";
+import { formatUnits, type Address, type Chain } from "viem";
+import { WalletService, explorerTxUrl, x402Network } from "../../shared/blockchain/index.js";
+import {
+  AgentCardCache,
+  DEFAULT_SELECTION_POLICY,
+  cardMismatch,
+  rankProviders,
+  type AgentCardSource,
+  type ProviderCandidate,
+  type ProviderRanking,
+  type SelectionPolicy,
+  type SelectionStrategy,
+} from "../../shared/agents/index.js";
+import { tracer } from "../../shared/tracing/index.js";
+import { DEFAULT_GATEWAY, GatewayRetriever } from "../../shared/ipfs/index.js";
+import { resolveServiceRoute, type ServiceRoute } from "../../shared/pipeline/routes.js";
+import type { ActionHandlerCallback, ActionHandlerOptions, ActionHandlerState } from "../../index.js";
 import { AgentIdentityABI } from "../ABI/AgentIdentityABI.js";
 import { AgentReputationABI } from "../ABI/AgentReputationABI.js";
 
@@ -10,31 +23,219 @@ export interface ERC8004Config {
   identityRegistryAddress: string;
   reputationRegistryAddress: string;
   rpcUrl: string;
+  /** Chain the registries live on; transactions are signed for it */
+  chain: Chain;
   privateKey: string;
+  /** Block explorer root for tx links in callbacks */
+  explorerUrl?: string;
+  /** Validated agent cards by CID; defaults to an in-memory cache over w3s.link alone */
+  cards?: AgentCardSource;
+  /** How providers are ranked; a task's strategy overrides `strategy` */
+  selection?: SelectionPolicy;
+  /** Observed provider latency for the `latency` and `weighted` strategies */
+  latency?: { latencyMs(endpoint: string): number | undefined };
 }
 
-interface ServiceRoute {
+export interface DiscoverProvidersOptions {
+  /** Overrides `config.selection.strategy` for this discovery */
+  strategy?: SelectionStrategy;
+  signal?: AbortSignal;
+  /** Progress lines, e.g. which agents were excluded and why */
+  log?: (text: string) => unknown;
+}
+
+export interface ProviderDiscoveryResult extends ProviderRanking {
+  /** Capability providers are paid for (`file-retrieval` for retrieve) */
   capability: string;
-  endpointSuffix: string;
-  pricingKey: string;
+  /** CAIP-2 network payments are made on */
+  network: string;
 }
 
-export function resolveServiceRoute(intent: string): ServiceRoute {
-  const t = intent.toLowerCase();
+const USDC_DECIMALS = 6;
 
-  if (t.includes('analyz') || t.includes('csv') || t.includes('statistics') || t.includes('data-transform')) {
-    return { capability: 'csv-analysis', endpointSuffix: '/analyze', pricingKey: 'baseRate' };
-  }
+function defaultCardSource(config: ERC8004Config): AgentCardSource {
+  const retriever = new GatewayRetriever({ gateways: [DEFAULT_GATEWAY] });
+  return new AgentCardCache({
+    fetch: (cid, options) => retriever.json(cid, options),
+    legacyNetwork: x402Network(config.chain.id),
+  });
+}
 
-  if (t.includes('retrieve') || t.includes('fetch file') || t.includes('get file') || t.includes('download')) {
-    return { capability: 'file-storage', endpointSuffix: '/retrieve', pricingKey: 'retrieve' };
+/** Explorer URL for a tx where the chain has one, else the bare hash. */
+function txLink(config: ERC8004Config, hash: string): string {
+  return explorerTxUrl(config.explorerUrl, hash) ?? hash;
+}
+
+/** A registry entry: the agent's card CID and its on-chain reputation. */
+type RegisteredAgent = Pick<ProviderCandidate, "address" | "agentCardCID" | "reputation" | "totalRatings">;
+
+type RegistryReader = Pick<ReturnType<WalletService["createPublicClient"]>, "readContract">;
+
+/** Agents registered for a capability, falling back to `discoverAgents` when the index is empty. */
+async function findAgentAddresses(
+  publicClient: RegistryReader,
+  identityRegistryAddress: string,
+  capability: string
+): Promise<Address[]> {
+  const agentAddresses = await publicClient.readContract({
+    address: identityRegistryAddress as Address,
+    abi: AgentIdentityABI,
+    functionName: "getAgentsByCapability",
+    args: [capability],
+  }) as Address[];
+  if (agentAddresses && agentAddresses.length > 0) return agentAddresses;
+
+  const [discoveredAddrs] = await publicClient.readContract({
+    address: identityRegistryAddress as Address,
+    abi: AgentIdentityABI,
+    functionName: "discoverAgents",
+    args: [[capability], 0n, 10n],
+  }) as [Address[], bigint];
+  return discoveredAddrs ?? [];
+}
+
+/** Every agent registered for `capability` with its agent card CID (health checks). */
+export async function listRegisteredAgents(
+  config: ERC8004Config,
+  capability: string
+): Promise<{ address: Address; agentCardCID: string }[]> {
+  const publicClient = new WalletService(config.rpcUrl, config.chain).createPublicClient();
+  const addresses = await findAgentAddresses(publicClient, config.identityRegistryAddress, capability);
+  return Promise.all(
+    addresses.map(async (address) => ({
+      address,
+      agentCardCID: await publicClient.readContract({
+        address: config.identityRegistryAddress as Address,
+        abi: AgentIdentityABI,
+        functionName: "getAgentCard",
+        args: [address],
+      }) as string,
+    }))
+  );
+}
+
+/**
+ * Every provider registered for `route` that can serve it, ranked by the
+ * selection strategy. Agents without readable details or a valid, matching
+ * card are listed in `excluded` with the reason.
+ */
+export async function discoverProviders(
+  config: ERC8004Config,
+  route: ServiceRoute,
+  { strategy, signal, log = () => {} }: DiscoverProvidersOptions = {}
+): Promise<ProviderDiscoveryResult> {
+  const policy = { ...(config.selection ?? DEFAULT_SELECTION_POLICY), ...(strategy && { strategy }) };
+  const cards = config.cards ?? defaultCardSource(config);
+  const network = x402Network(config.chain.id);
+  const capability = route.endpointSuffix === '/retrieve' ? 'file-retrieval' : route.capability;
+  const result: ProviderDiscoveryResult = { strategy: policy.strategy, providers: [], excluded: [], capability, network };
+  const publicClient = new WalletService(config.rpcUrl, config.chain).createPublicClient();
+
+  await log(`Querying ERC-8004 for capability: ${route.capability}...`);
+  const agentAddresses = await findAgentAddresses(publicClient, config.identityRegistryAddress, route.capability);
+  if (agentAddresses.length === 0) {
+    await log(`No agents found for capability: ${route.capability}`);
+    return result;
+  }
+  signal?.throwIfAborted();
+
+  await log(`Found ${agentAddresses.length} agent(s). Checking reputation...`);
+  const agentsWithDetails = await Promise.all(
+    agentAddresses.map(async (address: Address): Promise<RegisteredAgent | { address: string; reason: string }> => {
+      try {
+        const agentCardCID = await publicClient.readContract({
+          address: config.identityRegistryAddress as Address,
+          abi: AgentIdentityABI,
+          functionName: "getAgentCard",
+          args: [address],
+        }) as string;
+
+        let reputation = 0;
+        let totalRatings = 0;
+        try {
+          const [score, ratings] = await publicClient.readContract({
+            address: config.reputationRegistryAddress as Address,
+            abi: AgentReputationABI,
+            functionName: "getReputationScore",
+            args: [address],
+          }) as [bigint, bigint];
+          reputation = Number(score) / 100;
+          totalRatings = Number(ratings);
+        } catch { /* no ratings yet */ }
+
+        return { address, agentCardCID, reputation, totalRatings };
+      } catch (err) {
+        elizaLogger.warn(`Failed to get details for ${address}:`, err);
+        return { address, reason: "couldn't read its registry entry" };
+      }
+    })
+  );
+  const validAgents: RegisteredAgent[] = [];
+  for (const entry of agentsWithDetails) {
+    if ("reason" in entry) result.excluded.push(entry);
+    else validAgents.push(entry);
+  }
+  if (validAgents.length === 0) {
+    await log("Found agents but couldn't fetch their details.");
+    return result;
+  }
+  signal?.throwIfAborted();
+
+  // Agent cards decide who can serve the task: invalid ones, and ones
+  // without this capability or network, are excluded from selection
+  await log(`Loading agent cards for ${validAgents.length} agent(s)...`);
+  const loaded = await Promise.all(
+    validAgents.map(async (agent): Promise<ProviderCandidate | { address: string; reason: string }> => {
+      try {
+        const card = await tracer.withSpan(
+          "agent_card.fetch",
+          { kind: "client", attributes: { "ipfs.cid": agent.agentCardCID } },
+          () => cards.get(agent.agentCardCID, signal ? { signal } : {})
+        );
+        const mismatch = cardMismatch(card, capability, network);
+        if (mismatch) return { address: agent.address, reason: mismatch };
+        const endpoint = card.endpoints[capability]!;
+        const latencyMs = config.latency?.latencyMs(endpoint);
+        return {
+          ...agent,
+          card,
+          endpoint,
+          price: card.pricing[capability]!,
+          ...(latencyMs !== undefined && { latencyMs }),
+        };
+      } catch (error: unknown) {
+        return { address: agent.address, reason: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+  signal?.throwIfAborted();
+
+  const candidates: ProviderCandidate[] = [];
+  for (const entry of loaded) {
+    if ("reason" in entry) result.excluded.push(entry);
+    else candidates.push(entry);
   }
 
-  return { capability: 'file-storage', endpointSuffix: '/upload', pricingKey: 'upload' };
+  const ranking = rankProviders(candidates, policy);
+  result.providers = ranking.providers;
+  result.excluded.push(...ranking.excluded);
+  for (const { address, reason } of result.excluded) {
+    await log(`Excluded ${address.slice(0, 10)}...: ${reason}`);
+  }
+  if (result.providers.length === 0) {
+    await log(`No agent with a valid card offers ${capability} on ${network}`);
+    return result;
+  }
+  await log(
+    `Ranked ${result.providers.length} provider(s) by ${policy.strategy}: ` +
+      result.providers.map((p) => `${p.address.slice(0, 10)}... (${p.score.toFixed(2)})`).join(", ")
+  );
+  return result;
 }
 
 export function getERC8004Actions(config: ERC8004Config | null) {
-  const walletService = config ? new WalletService(config.rpcUrl) : null;
+  const walletService = config ? new WalletService(config.rpcUrl, config.chain) : null;
+  const cards = config && (config.cards ?? defaultCardSource(config));
 
   return {
     AGENT_REGISTER: {
@@ -72,7 +273,7 @@ export function getERC8004Actions(config: ERC8004Config | null) {
           await callback?.({ text: `Registering agent with capabilities: ${capabilities.join(', ')}...` });
 
           const hash = await walletClient.writeContract({
-            chain: baseSepolia,
+            chain: config.chain,
             address: config.identityRegistryAddress as Address,
             abi: AgentIdentityABI,
             functionName: "registerAgent",
@@ -82,7 +283,7 @@ export function getERC8004Actions(config: ERC8004Config | null) {
 
           await callback?.({ text: `Transaction submitted: ${hash}\nWaiting for confirmation...` });
           const receipt = await publicClient.waitForTransactionReceipt({ hash });
-          await callback?.({ text: `Agent registered on-chain. Tx: ${receipt.transactionHash}` });
+          await callback?.({ text: `Agent registered on-chain. Tx: ${txLink(config, receipt.transactionHash)}` });
         } catch (error: unknown) {
           const msg = error instanceof Error ? error.message : String(error);
           elizaLogger.error("ERC-8004 registration error:", error);
@@ -100,140 +301,61 @@ export function getERC8004Actions(config: ERC8004Config | null) {
         _runtime: unknown,
         _message: unknown,
         state: ActionHandlerState,
-        _options: unknown,
+        options: ActionHandlerOptions,
         callback: ActionHandlerCallback
       ) => {
-        if (!config || !walletService) {
+        const signal = options?.signal;
+        if (!config || !walletService || !cards) {
           await callback?.({ text: "ERC-8004 not configured." });
           return;
         }
 
         const userIntent = (state.data?.serviceIntent as string) ||
           state.recentMessagesData?.find((m) => m.content?.text)?.content?.text || 'csv-analysis';
+        const strategy = state.data?.selectionStrategy as SelectionStrategy | undefined;
 
         const route = resolveServiceRoute(userIntent);
 
         try {
-          const publicClient = walletService.createPublicClient();
-
-          await callback?.({ text: `Querying ERC-8004 for capability: ${route.capability}...` });
-
-          const agentAddresses = await publicClient.readContract({
-            address: config.identityRegistryAddress as Address,
-            abi: AgentIdentityABI,
-            functionName: "getAgentsByCapability",
-            args: [route.capability],
-          }) as Address[];
-
-          if (!agentAddresses || agentAddresses.length === 0) {
-            const [discoveredAddrs] = await publicClient.readContract({
-              address: config.identityRegistryAddress as Address,
-              abi: AgentIdentityABI,
-              functionName: "discoverAgents",
-              args: [[route.capability], 0n, 10n],
-            }) as [Address[], bigint];
-
-            if (!discoveredAddrs || discoveredAddrs.length === 0) {
-              await callback?.({ text: `No agents found for capability: ${route.capability}` });
-              return;
-            }
-            agentAddresses.push(...discoveredAddrs);
-          }
-
-          await callback?.({ text: `Found ${agentAddresses.length} agent(s). Checking reputation...` });
-
-          const agentsWithDetails = await Promise.all(
-            agentAddresses.map(async (addr: Address) => {
-              try {
-                const agentCardCID = await publicClient.readContract({
-                  address: config.identityRegistryAddress as Address,
-                  abi: AgentIdentityABI,
-                  functionName: "getAgentCard",
-                  args: [addr],
-                }) as string;
-
-                let reputation = 0;
-                let totalRatings = 0;
-                try {
-                  const [score, ratings] = await publicClient.readContract({
-                    address: config.reputationRegistryAddress as Address,
-                    abi: AgentReputationABI,
-                    functionName: "getReputationScore",
-                    args: [addr],
-                  }) as [bigint, bigint];
-                  reputation = Number(score) / 100;
-                  totalRatings = Number(ratings);
-                } catch { /* no ratings yet */ }
-
-                return { address: addr, agentCardCID, reputation, totalRatings };
-              } catch (err) {
-                elizaLogger.warn(`Failed to get details for ${addr}:`, err);
-                return null;
-              }
-            })
-          );
-
-          const validAgents = agentsWithDetails
-            .filter(Boolean)
-            .sort((a, b) => b!.reputation - a!.reputation) as NonNullable<typeof agentsWithDetails[number]>[];
-
-          if (validAgents.length === 0) {
-            await callback?.({ text: "Found agents but couldn't fetch their details." });
-            return;
-          }
-
-          const topAgent = validAgents[0];
+          const ranking = await discoverProviders({ ...config, cards }, route, {
+            ...(signal && { signal }),
+            ...(strategy && { strategy }),
+            log: (text) => callback?.({ text }),
+          });
+          const [top] = ranking.providers;
+          if (!top) return;
 
+          const price = Number(formatUnits(BigInt(top.price), USDC_DECIMALS));
           await callback?.({
-            text: `Selected agent ${topAgent.address.slice(0, 10)}... (rep: ${topAgent.reputation}/5, ${topAgent.totalRatings} ratings). Fetching service card from IPFS...`
+            text: `Selected agent ${top.address.slice(0, 10)}... by ${ranking.strategy} (score ${top.score.toFixed(2)}; ` +
+              `rep: ${top.reputation}/5, ${top.totalRatings} ratings)\n` +
+              `Service: ${top.card.name} v${top.card.version}\nEndpoint: ${top.endpoint}\nPrice: $${price} USDC\nPays to: ${top.card.wallet}`
           });
 
-          let providerEndpoint: string;
-          let providerWallet: string;
-          let price: number;
-          let agentName = "Service Provider";
-
-          try {
-            const agentCardResponse = await fetch(`https://w3s.link/ipfs/${topAgent.agentCardCID}`);
-            if (!agentCardResponse.ok) throw new Error(`HTTP ${agentCardResponse.status}`);
-            const agentCard = await agentCardResponse.json();
-
-            const baseUrl = (agentCard.endpoint as string).replace(/\/(upload|analyze|retrieve)$/, '');
-            providerEndpoint = `${baseUrl}${route.endpointSuffix}`;
-            providerWallet = agentCard.walletAddress || topAgent.address;
-            price = agentCard.pricing?.[route.pricingKey] ?? agentCard.pricing?.baseRate ?? 0.0001;
-            agentName = agentCard.name || agentName;
-
-            await callback?.({
-              text: `Service: ${agentName}\nEndpoint: ${providerEndpoint}\nPrice: $${price} USDC\nPays to: ${providerWallet}`
-            });
-          } catch (error: unknown) {
-            const msg = error instanceof Error ? error.message : String(error);
-            elizaLogger.warn(`Agent card fetch failed: ${msg}`);
-
-            providerEndpoint = route.capability === 'csv-analysis'
-              ? `http://localhost:8001${route.endpointSuffix}`
-              : `http://localhost:8000${route.endpointSuffix}`;
-            providerWallet = topAgent.address;
-            price = route.pricingKey === 'baseRate' ? 0.0001 : route.pricingKey === 'upload' ? 0.001 : 0.00002;
-
-            await callback?.({ text: `Agent card fetch failed. Using fallback: ${providerEndpoint}` });
-          }
-
-          const x402Capability = route.endpointSuffix === '/retrieve' ? 'file-retrieval' : route.capability;
           state.data = {
             ...(state.data || {}),
-            selectedAgent: topAgent,
-            providerEndpoint,
-            providerWallet,
+            selectedAgent: {
+              address: top.address,
+              agentCardCID: top.agentCardCID,
+              reputation: top.reputation,
+              totalRatings: top.totalRatings,
+            },
+            agentCard: top.card,
+            providerEndpoint: top.endpoint,
+            providerWallet: top.card.wallet,
             price,
-            capability: x402Capability,
-            agentName,
+            capability: ranking.capability,
+            agentName: top.card.name,
+            ranking,
           };
 
-          await callback?.({ text: `Ready to send task to: ${providerEndpoint}` });
+          await callback?.({ text: `Ready to send task to: ${top.endpoint}` });
 
         } catch (error: unknown) {
+          if (signal?.aborted) {
+            await callback?.({ text: "Discovery cancelled." });
+            return;
+          }
           const msg = error instanceof Error ? error.message : String(error);
           elizaLogger.error("ERC-8004 discovery error:", error);
           await callback?.({ text: `Discovery failed: ${msg}` });
@@ -250,9 +372,10 @@ export function getERC8004Actions(config: ERC8004Config | null) {
         _runtime: unknown,
         _message: unknown,
         state: ActionHandlerState,
-        _options: unknown,
+        options: ActionHandlerOptions,
         callback: ActionHandlerCallback
       ) => {
+        const signal = options?.signal;
         if (!config || !walletService) {
           await callback?.({ text: "ERC-8004 not configured." });
           return;
@@ -301,10 +424,16 @@ export function getERC8004Actions(config: ERC8004Config | null) {
             return; // soft-skip, not an error
           }
 
+          // Last point before a transaction is signed — honour cancellation here
+          if (signal?.aborted) {
+            await callback?.({ text: "Reputation post cancelled." });
+            return;
+          }
+
           await callback?.({ text: `Submitting ${rating}/5 rating for ${providerAddr.slice(0, 10)}...` });
 
           const hash = await walletClient.writeContract({
-            chain: baseSepolia,
+            chain: config.chain,
             address: config.reputationRegistryAddress as Address,
             abi: AgentReputationABI,
             functionName: "postReputation",
@@ -316,7 +445,7 @@ export function getERC8004Actions(config: ERC8004Config | null) {
           const receipt = await publicClient.waitForTransactionReceipt({ hash });
 
           await callback?.({
-            text: `Reputation posted on-chain.\nProvider: ${providerAddr}\nRating: ${rating}/5\nTx: ${receipt.transactionHash}`
+            text: `Reputation posted on-chain.\nProvider: ${providerAddr}\nRating: ${rating}/5\nTx: ${txLink(config, receipt.transactionHash)}`
           });
 
           state.data = { ...(state.data || {}), reputationTxHash: receipt.transactionHash };
@@ -0,0 +1,124 @@
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { anvil } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import { DEV_AGENT_A_PRIVATE_KEY, startDevStack, type DevStack } from "../../shared/dev/index.js";
+import { PaymentLedger, type NewPayment } from "../../shared/payments/index.js";
+import { getX402Actions } from "./index.js";
+
+const agentA = privateKeyToAccount(DEV_AGENT_A_PRIVATE_KEY);
+
+/** Runs PAYMENT_REQUEST for a file upload and collects what it reports. */
+async function requestUpload(actions: ReturnType<typeof getX402Actions>, endpoint: string, signal: AbortSignal) {
+  const messages: string[] = [];
+  const state = {
+    data: {
+      taskId: "t1",
+      capability: "file-storage",
+      providerEndpoint: endpoint,
+      fileBuffer: new TextEncoder().encode("a,b\n1,2\n").buffer,
+      fileName: "data.csv",
+      fileMimeType: "text/csv",
+    } as Record<string, unknown>,
+  };
+  await actions.PAYMENT_REQUEST.handler(null, null, state, { signal }, async ({ text }) => {
+    if (text) messages.push(text);
+    return [];
+  });
+  return { messages, data: state.data };
+}
+
+describe("PAYMENT_REQUEST cancellation", () => {
+  let stack: DevStack;
+  let dir: string;
+  const realFetch = globalThis.fetch;
+  // Every request the plugin sent, and whether it carried a signed payment
+  const sent: { url: string; signed: boolean }[] = [];
+
+  before(async () => {
+    stack = await startDevStack({ port: 0, fund: [agentA.address] });
+    dir = await mkdtemp(path.join(tmpdir(), "antiphon-x402-"));
+  });
+  after(async () => {
+    await stack.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    sent.length = 0;
+  });
+
+  /** Route the plugin's fetches through `onResponse`, recording each request. */
+  function interceptFetch(onResponse: (response: Response) => void) {
+    globalThis.fetch = async (input, init) => {
+      const request = new Request(input, init);
+      sent.push({ url: request.url, signed: request.headers.has("PAYMENT-SIGNATURE") });
+      const response = await realFetch(request);
+      // Buffered so the caller's abort can't cut the body off mid-read
+      const buffered = new Response(await response.arrayBuffer(), response);
+      onResponse(buffered);
+      return buffered;
+    };
+  }
+
+  function actionsWith(ledger: PaymentLedger) {
+    return getX402Actions({
+      facilitatorUrl: `${stack.url}/facilitator`,
+      privateKey: DEV_AGENT_A_PRIVATE_KEY,
+      rpcUrl: stack.url,
+      chain: anvil,
+      ledger,
+    });
+  }
+
+  it("never signs once the task is cancelled at the 402 challenge", async () => {
+    const ledger = new PaymentLedger(path.join(dir, "unsigned.json"));
+    const controller = new AbortController();
+    const balance = stack.usdc.balanceOf(agentA.address);
+    interceptFetch((response) => {
+      if (response.status === 402) controller.abort();
+    });
+
+    const { messages, data } = await requestUpload(actionsWith(ledger), `${stack.url}/agent-b/upload`, controller.signal);
+
+    assert.ok(messages.includes("Payment request cancelled — no payment was signed."));
+    assert.strictEqual(data.paymentSigned, undefined);
+    assert.deepStrictEqual(sent.map((r) => r.signed), [false]);
+    assert.deepStrictEqual(ledger.list(), []);
+    assert.strictEqual(stack.usdc.balanceOf(agentA.address), balance);
+  });
+
+  it("sends nothing for a task cancelled before the request", async () => {
+    const ledger = new PaymentLedger(path.join(dir, "inflight.json"));
+    const controller = new AbortController();
+    controller.abort();
+    interceptFetch(() => assert.fail("nothing should be sent"));
+
+    const { messages } = await requestUpload(actionsWith(ledger), `${stack.url}/agent-b/upload`, controller.signal);
+    assert.deepStrictEqual(messages, ["Payment request cancelled before sending."]);
+    assert.deepStrictEqual(sent, []);
+  });
+
+  it("finishes the paid retry when the cancel lands after signing", async () => {
+    const controller = new AbortController();
+    // Cancel the moment the payment is signed, before the paid retry goes out
+    const ledger = new (class extends PaymentLedger {
+      override recordSigned(payment: NewPayment) {
+        controller.abort();
+        return super.recordSigned(payment);
+      }
+    })(path.join(dir, "signed.json"));
+    interceptFetch(() => {});
+
+    const { data } = await requestUpload(actionsWith(ledger), `${stack.url}/agent-b/upload`, controller.signal);
+
+    assert.strictEqual(data.paymentSigned, true);
+    assert.ok(data.resultCID);
+    assert.deepStrictEqual(sent.map((r) => r.signed), [false, true]);
+    assert.deepStrictEqual(ledger.list().map((p) => p.status), ["settled"]);
+    await ledger.flush();
+  });
+});
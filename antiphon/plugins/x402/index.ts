@@ -1,28 +1,110 @@
 import { elizaLogger } from "@elizaos/core";
-import type { ActionHandlerCallback, ActionHandlerState } from "../../index.js";
+import type { ActionHandlerCallback, ActionHandlerOptions, ActionHandlerState } from "../../index.js";
 import { privateKeyToAccount } from "viem/accounts";
-import { createPublicClient, http, type Hex } from "viem";
-import { baseSepolia } from "viem/chains";
-import { wrapFetchWithPayment, x402Client } from "@x402/fetch";
+import { createPublicClient, formatUnits, http, type Chain, type Hex } from "viem";
+import { decodePaymentResponseHeader, wrapFetchWithPayment, x402Client } from "@x402/fetch";
 import { registerExactEvmScheme } from "@x402/evm/exact/client";
 import { toClientEvmSigner } from "@x402/evm";
+import type { PaymentRequirements } from "@x402/core/types";
+import {
+  PolicyViolation,
+  type PaymentLedger,
+  type PaymentRecord,
+  type SpendReservation,
+  type SpendingPolicy,
+} from "../../shared/payments/index.js";
+import { CHAINS, explorerTxUrl, x402Network } from "../../shared/blockchain/index.js";
+import { metrics } from "../../shared/metrics/index.js";
+import { tracer, TRACEPARENT_HEADER } from "../../shared/tracing/index.js";
+
+// x402 "exact" payments on Base are made in USDC
+const USDC_DECIMALS = 6;
+
+/** Network ids a payment requirement may name for `chain`: CAIP-2 (x402 v2) and the v1 slug. */
+function acceptedNetworks(chain: Chain): string[] {
+  const slug = Object.values(CHAINS).find((p) => p.chain.id === chain.id)?.name;
+  return [x402Network(chain.id), ...(slug ? [slug] : [])];
+}
 
 export interface X402Config {
   facilitatorUrl: string;
   privateKey: string;
   rpcUrl: string;
+  /** Payments are only signed for this chain's x402 network (`eip155:<id>`) */
+  chain: Chain;
+  /** Block explorer root for settlement tx links */
+  explorerUrl?: string;
+  /** Spending limits checked before every payment is signed; absent → unrestricted */
+  policy?: SpendingPolicy;
+  /** Every signed payment and its settlement outcome is recorded here */
+  ledger?: PaymentLedger;
+}
+
+/** Settlement result from the PAYMENT-RESPONSE header (X-PAYMENT-RESPONSE on x402 v1). */
+function readSettlement(response: Response) {
+  const header = response.headers.get("PAYMENT-RESPONSE") ?? response.headers.get("X-PAYMENT-RESPONSE");
+  if (!header) return null;
+  try {
+    return decodePaymentResponseHeader(header);
+  } catch (error) {
+    elizaLogger.warn("x402: undecodable payment response header", error);
+    return null;
+  }
+}
+
+interface PaidFetchOptions {
+  signal?: AbortSignal | undefined;
+  /** Throw (e.g. PolicyViolation) to refuse the payment before it is signed */
+  beforePayment?: (requirements: PaymentRequirements) => void;
+  onPaymentSigned?: (requirements: PaymentRequirements) => void;
 }
 
-function createPaidFetch(privateKey: Hex, rpcUrl: string) {
+function createPaidFetch(privateKey: Hex, rpcUrl: string, chain: Chain, options: PaidFetchOptions = {}) {
+  const { signal, beforePayment, onPaymentSigned } = options;
   const account = privateKeyToAccount(privateKey);
   const publicClient = createPublicClient({
-    chain: baseSepolia,
+    chain,
     transport: http(rpcUrl),
   });
   const signer = toClientEvmSigner(account, publicClient);
   const client = new x402Client();
-  registerExactEvmScheme(client, { signer });
-  return wrapFetchWithPayment(fetch, client);
+  registerExactEvmScheme(client, { signer, networks: [x402Network(chain.id)] });
+  const networks = acceptedNetworks(chain);
+
+  // A cancelled task must never sign: the 402 challenge is the last exit.
+  client.onBeforePaymentCreation(async ({ selectedRequirements }) => {
+    if (signal?.aborted) return { abort: true as const, reason: "task cancelled" };
+    if (!networks.includes(selectedRequirements.network)) {
+      return { abort: true as const, reason: `payment requested on ${selectedRequirements.network}, expected ${networks[0]}` };
+    }
+    try {
+      beforePayment?.(selectedRequirements);
+    } catch (err) {
+      return { abort: true as const, reason: (err as Error).message };
+    }
+  });
+  client.onAfterPaymentCreation(async ({ selectedRequirements }) => {
+    onPaymentSigned?.(selectedRequirements);
+  });
+
+  // Only the unpaid leg is abortable. Once a payment header is attached the
+  // retry runs to completion so AgentA receives what it paid for.
+  // Each leg (402 challenge, paid retry) is its own client span, and AgentB
+  // receives the span as `traceparent`.
+  const abortableFetch: typeof fetch = (input, init) => {
+    const request = new Request(input, init);
+    const signed = request.headers.has("PAYMENT-SIGNATURE") || request.headers.has("X-PAYMENT");
+    const attributes = { "http.request.method": request.method, "url.full": request.url, "x402.paid": signed };
+    return tracer.withSpan(`HTTP ${request.method}`, { kind: "client", attributes }, async (span) => {
+      request.headers.set(TRACEPARENT_HEADER, span.traceparent);
+      const response = await (signal && !signed ? fetch(request, { signal }) : fetch(request));
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 500 || (signed && !response.ok)) span.setStatus("error", `HTTP ${response.status}`);
+      return response;
+    });
+  };
+
+  return wrapFetchWithPayment(abortableFetch, client);
 }
 
 export function getX402Actions(config: X402Config | null) {
@@ -36,7 +118,7 @@ export function getX402Actions(config: X402Config | null) {
         _runtime: unknown,
         _message: unknown,
         state: ActionHandlerState,
-        _options: unknown,
+        options: ActionHandlerOptions,
         callback: ActionHandlerCallback
       ) => {
         if (!config) {
@@ -44,6 +126,12 @@ export function getX402Actions(config: X402Config | null) {
           return;
         }
 
+        const signal = options?.signal;
+        if (signal?.aborted) {
+          await callback?.({ text: "Payment request cancelled before sending." });
+          return;
+        }
+
         const providerEndpoint = state.data?.providerEndpoint as string;
         const inputCID = state.data?.inputCID as string;
         const capability = (state.data?.capability as string) || 'csv-analysis';
@@ -53,13 +141,55 @@ export function getX402Actions(config: X402Config | null) {
           return;
         }
 
+        // wrapFetchWithPayment re-wraps hook errors, so the violation is kept here
+        let violation = null as PolicyViolation | null;
+        const { policy, ledger } = config;
+        let payment: PaymentRecord | undefined;
+        // Held against the caps from the check until the ledger has the payment (or it's never signed)
+        let reservation: SpendReservation | undefined;
+        let signedAmount: string | undefined;
+        const wallet = privateKeyToAccount(config.privateKey as Hex).address;
+        const taskId = state.data?.taskId as string | undefined;
+        const toIntent = (requirements: PaymentRequirements) => ({
+          wallet,
+          capability,
+          payTo: requirements.payTo,
+          amount: BigInt(requirements.amount),
+          ...(taskId && { taskId }),
+        });
+        // Unset when the request never got a response (unreachable, or a 402 challenge we couldn't pay)
+        let paidResponse: Response | undefined;
+
         try {
-          const fetchWithPayment = createPaidFetch(config.privateKey as Hex, config.rpcUrl);
+          const fetchWithPayment = createPaidFetch(config.privateKey as Hex, config.rpcUrl, config.chain, {
+            signal,
+            beforePayment: (requirements) => {
+              try {
+                reservation = policy?.check(toIntent(requirements));
+              } catch (err) {
+                if (err instanceof PolicyViolation) violation = err;
+                throw err;
+              }
+            },
+            onPaymentSigned: (requirements) => {
+              signedAmount = requirements.amount;
+              payment = ledger?.recordSigned({
+                capability,
+                endpoint: providerEndpoint,
+                payer: wallet,
+                payTo: requirements.payTo,
+                amount: requirements.amount,
+                asset: requirements.asset,
+                network: requirements.network,
+                ...(taskId && { taskId }),
+              });
+              reservation?.release();
+              state.data = { ...state.data, paymentSigned: true };
+            },
+          });
 
           await callback?.({ text: `Sending paid request to ${providerEndpoint}...` });
 
-          let paidResponse: Response;
-
           if (capability === 'csv-analysis') {
             if (!inputCID) {
               await callback?.({ text: "Missing inputCID for analysis." });
@@ -111,6 +241,20 @@ export function getX402Actions(config: X402Config | null) {
             });
           }
 
+          const settlement = readSettlement(paidResponse);
+          if (settlement?.success && settlement.transaction) {
+            if (payment) ledger?.settle(payment.id, settlement.transaction, settlement.network);
+            if (signedAmount) {
+              metrics.usdcSpent.inc({ capability }, Number(formatUnits(BigInt(signedAmount), USDC_DECIMALS)));
+            }
+            state.data = { ...state.data, paymentTxHash: settlement.transaction };
+            const tx = explorerTxUrl(config.explorerUrl, settlement.transaction) ?? settlement.transaction;
+            await callback?.({ text: `💸 Payment settled on ${settlement.network} — tx ${tx}` });
+          } else if (payment && (settlement || !paidResponse.ok)) {
+            const reason = settlement?.errorReason ?? `HTTP ${paidResponse.status}`;
+            ledger?.markFailed(payment.id, reason);
+          }
+
           if (!paidResponse.ok) {
             const errBody = await paidResponse.text().catch(() => '');
             throw new Error(`Request failed (${paidResponse.status}): ${errBody}`);
@@ -157,9 +301,28 @@ export function getX402Actions(config: X402Config | null) {
             await callback?.({ text: `File retrieved (${buffer.byteLength} bytes).` });
           }
         } catch (error: unknown) {
+          if (signal?.aborted && !state.data?.paymentSigned) {
+            await callback?.({ text: "Payment request cancelled — no payment was signed." });
+            return;
+          }
+          if (violation) {
+            const { code, message } = violation;
+            state.data = { ...state.data, policyViolation: { code, message } };
+            await callback?.({ text: `🚫 PolicyViolation (${code}): ${message} — payment not signed.` });
+            return;
+          }
           const msg = error instanceof Error ? error.message : String(error);
           elizaLogger.error("x402 payment request error:", error);
+          // Nothing signed and the provider at fault (unreachable, an invalid
+          // challenge, or a 5xx before payment): the caller may try another provider
+          if (signedAmount === undefined && (!paidResponse || paidResponse.status >= 500)) {
+            state.data = { ...state.data, providerUnavailable: msg };
+            await callback?.({ text: `⚠️ ${providerEndpoint} unavailable — nothing was paid: ${msg}` });
+            return;
+          }
           await callback?.({ text: `Payment request failed: ${msg}` });
+        } finally {
+          reservation?.release();
         }
       },
     },
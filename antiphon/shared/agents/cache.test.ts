@@ -0,0 +1,105 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { AgentCardCache } from "./cache.js";
+import { AGENT_CARD_VERSION } from "./card.js";
+import { InvalidAgentCardError } from "./errors.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-cards-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const NETWORK = "eip155:84532";
+const CID = "bafkreiagentcardone";
+
+const card = (name = "AgentB") => ({
+  schemaVersion: AGENT_CARD_VERSION,
+  name,
+  version: "1.0.0",
+  wallet: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  networks: [NETWORK],
+  endpoints: { "csv-analysis": "https://agent-b.example/analyze" },
+  pricing: { "csv-analysis": "10000" },
+});
+
+/** A fetch over `published` that records every CID it is asked for. */
+function fakeIpfs(published: Record<string, unknown>) {
+  const fetched: string[] = [];
+  const fetch = async (cid: string) => {
+    fetched.push(cid);
+    if (!(cid in published)) throw new Error(`${cid} not found`);
+    return published[cid];
+  };
+  return { fetch, fetched };
+}
+
+describe("AgentCardCache", () => {
+  it("fetches a CID once and serves it from memory after", async () => {
+    const ipfs = fakeIpfs({ [CID]: card(), bafkreiagentcardtwo: card("AgentC") });
+    const cache = new AgentCardCache({ fetch: ipfs.fetch, legacyNetwork: NETWORK });
+
+    assert.strictEqual((await cache.get(CID)).name, "AgentB");
+    assert.strictEqual((await cache.get(CID)).name, "AgentB");
+    assert.deepStrictEqual(ipfs.fetched, [CID]);
+
+    // An updated card is a new CID, so it is fetched
+    assert.strictEqual((await cache.get("bafkreiagentcardtwo")).name, "AgentC");
+    assert.deepStrictEqual(ipfs.fetched, [CID, "bafkreiagentcardtwo"]);
+  });
+
+  it("shares one fetch between concurrent lookups", async () => {
+    const ipfs = fakeIpfs({ [CID]: card() });
+    const cache = new AgentCardCache({ fetch: ipfs.fetch, legacyNetwork: NETWORK });
+
+    const [a, b] = await Promise.all([cache.get(CID), cache.get(CID)]);
+    assert.strictEqual(a, b);
+    assert.deepStrictEqual(ipfs.fetched, [CID]);
+  });
+
+  it("never caches an invalid card", async () => {
+    const ipfs = fakeIpfs({ [CID]: { ...card(), wallet: "0xnope" } });
+    const dir = await tempDir();
+    const cache = new AgentCardCache({ fetch: ipfs.fetch, legacyNetwork: NETWORK, dir });
+
+    await assert.rejects(cache.get(CID), InvalidAgentCardError);
+    await assert.rejects(cache.get(CID), InvalidAgentCardError);
+    assert.strictEqual(cache.size, 0);
+    assert.deepStrictEqual(ipfs.fetched, [CID, CID]);
+  });
+
+  it("drops the least recently used card past maxEntries", async () => {
+    const ipfs = fakeIpfs({ bafkreione: card("One"), bafkreitwo: card("Two"), bafkreithree: card("Three") });
+    const cache = new AgentCardCache({ fetch: ipfs.fetch, legacyNetwork: NETWORK, maxEntries: 2 });
+
+    await cache.get("bafkreione");
+    await cache.get("bafkreitwo");
+    await cache.get("bafkreione");
+    await cache.get("bafkreithree");
+    assert.strictEqual(cache.size, 2);
+
+    await cache.get("bafkreione");
+    await cache.get("bafkreitwo");
+    assert.deepStrictEqual(ipfs.fetched, ["bafkreione", "bafkreitwo", "bafkreithree", "bafkreitwo"]);
+  });
+
+  it("keeps cards on disk across instances and re-validates them", async () => {
+    const dir = await tempDir();
+    await new AgentCardCache({ fetch: fakeIpfs({ [CID]: card() }).fetch, legacyNetwork: NETWORK, dir }).get(CID);
+
+    const offline = fakeIpfs({});
+    const reopened = new AgentCardCache({ fetch: offline.fetch, legacyNetwork: NETWORK, dir });
+    assert.strictEqual((await reopened.get(CID)).name, "AgentB");
+    assert.deepStrictEqual(offline.fetched, []);
+
+    // A file that no longer validates is rejected, not served
+    await writeFile(path.join(dir, "bafkreitampered.json"), JSON.stringify({ name: "AgentB" }));
+    await assert.rejects(reopened.get("bafkreitampered"), InvalidAgentCardError);
+  });
+});
@@ -0,0 +1,123 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { metrics } from "../metrics/index.js";
+import { writeJsonFile } from "../persistence/index.js";
+import { parseAgentCard, type AgentCard, type ParseAgentCardOptions } from "./card.js";
+
+const DEFAULT_MAX_ENTRIES = 256;
+
+/** Where discovery gets validated agent cards from. */
+export interface AgentCardSource {
+  /** The card at `cid`; throws InvalidAgentCardError, or the fetch error when it can't be had. */
+  get(cid: string, options?: { signal?: AbortSignal }): Promise<AgentCard>;
+}
+
+export interface AgentCardCacheOptions extends ParseAgentCardOptions {
+  /** Verified card JSON by CID, e.g. GatewayRetriever.json */
+  fetch: (cid: string, options: { signal?: AbortSignal }) => Promise<unknown>;
+  /** Directory of `<cid>.json` files that survive restarts; memory only without it */
+  dir?: string;
+  /** Cards kept in memory; the least recently used is dropped first */
+  maxEntries?: number;
+}
+
+/**
+ * Validated agent cards keyed by CID. A CID's content never changes, so an
+ * entry never goes stale: an agent that calls `updateAgentCard` publishes a
+ * new CID, which is the only time its card is fetched again. Lookups go
+ * memory (LRU) → disk → IPFS; only cards that validate are stored, and disk
+ * keeps the JSON as published so it is re-validated when read back.
+ */
+export class AgentCardCache implements AgentCardSource {
+  private entries = new Map<string, AgentCard>();
+  private inFlight = new Map<string, Promise<AgentCard>>();
+
+  constructor(private options: AgentCardCacheOptions) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(cid: string, { signal }: { signal?: AbortSignal } = {}): Promise<AgentCard> {
+    const cached = this.entries.get(cid);
+    if (cached) {
+      // Re-insert so Map order tracks recency
+      this.entries.delete(cid);
+      this.entries.set(cid, cached);
+      metrics.agentCardLookups.inc({ source: "memory" });
+      return cached;
+    }
+
+    // Concurrent discoveries share one disk read / download per CID. It isn't
+    // tied to any one caller's signal: an aborted caller stops waiting, and
+    // the card is still cached for the others
+    let pending = this.inFlight.get(cid);
+    if (!pending) {
+      pending = this.load(cid).finally(() => this.inFlight.delete(cid));
+      this.inFlight.set(cid, pending);
+    }
+    return signal ? untilAborted(pending, signal) : pending;
+  }
+
+  private async load(cid: string): Promise<AgentCard> {
+    const onDisk = await this.readDisk(cid);
+    if (onDisk !== undefined) {
+      metrics.agentCardLookups.inc({ source: "disk" });
+      return this.remember(cid, parseAgentCard(onDisk, this.options));
+    }
+
+    metrics.agentCardLookups.inc({ source: "ipfs" });
+    const raw = await this.options.fetch(cid, {});
+    const card = this.remember(cid, parseAgentCard(raw, this.options));
+    await this.writeDisk(cid, raw);
+    return card;
+  }
+
+  private remember(cid: string, card: AgentCard): AgentCard {
+    this.entries.set(cid, card);
+    const max = this.options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= max) break;
+      this.entries.delete(oldest);
+    }
+    return card;
+  }
+
+  private fileFor(cid: string): string | undefined {
+    // CIDs are base32/base58, but never let one name a path outside the directory
+    if (!this.options.dir || !/^[a-zA-Z0-9]+$/.test(cid)) return undefined;
+    return path.join(this.options.dir, `${cid}.json`);
+  }
+
+  private async readDisk(cid: string): Promise<unknown> {
+    const file = this.fileFor(cid);
+    if (!file) return undefined;
+    try {
+      return JSON.parse(await readFile(file, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      console.error(`[AgentCardCache] ⚠️  Ignoring unreadable ${file}:`, (err as Error).message);
+      return undefined;
+    }
+  }
+
+  /** Best effort: a failed write only costs a later re-download. */
+  private async writeDisk(cid: string, raw: unknown): Promise<void> {
+    const file = this.fileFor(cid);
+    if (!file) return;
+    try {
+      await writeJsonFile(file, raw);
+    } catch (err) {
+      console.error(`[AgentCardCache] ⚠️  Failed to persist ${cid}:`, (err as Error).message);
+    }
+  }
+}
+
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
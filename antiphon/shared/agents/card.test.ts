@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { AGENT_CARD_VERSION, cardMismatch, parseAgentCard } from "./card.js";
+import { InvalidAgentCardError } from "./errors.js";
+
+const NETWORK = "eip155:84532";
+const WALLET = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const options = { legacyNetwork: NETWORK };
+
+const card = (overrides: Record<string, unknown> = {}) => ({
+  schemaVersion: AGENT_CARD_VERSION,
+  name: "AgentB",
+  version: "1.2.0",
+  wallet: WALLET,
+  networks: [NETWORK],
+  endpoints: { "csv-analysis": "https://agent-b.example/analyze" },
+  pricing: { "csv-analysis": "10000" },
+  ...overrides,
+});
+
+/** The issue paths an invalid card is rejected with. */
+function issuePaths(raw: unknown): string[] {
+  try {
+    parseAgentCard(raw, options);
+  } catch (err) {
+    assert.ok(err instanceof InvalidAgentCardError);
+    return err.issues.map((issue) => issue.split(":")[0]!);
+  }
+  assert.fail("card was accepted");
+}
+
+describe("parseAgentCard", () => {
+  it("accepts a current card and defaults its limits", () => {
+    const parsed = parseAgentCard(card({ limits: { maxUploadBytes: 1024 } }), options);
+    assert.strictEqual(parsed.endpoints["csv-analysis"], "https://agent-b.example/analyze");
+    assert.deepStrictEqual(parsed.limits, { maxUploadBytes: 1024 });
+    assert.deepStrictEqual(parseAgentCard(card(), options).limits, {});
+  });
+
+  it("lists every invalid field", () => {
+    assert.deepStrictEqual(
+      issuePaths(card({ wallet: "0xnope", endpoints: { "csv-analysis": "ftp://x" }, pricing: { "csv-analysis": "0.01" } })),
+      ["wallet", "endpoints.csv-analysis", "pricing.csv-analysis"]
+    );
+    assert.deepStrictEqual(issuePaths(card({ pricing: {} })), ["pricing.csv-analysis"]);
+    assert.deepStrictEqual(issuePaths(card({ networks: [] })), ["networks"]);
+    assert.deepStrictEqual(issuePaths(card({ schemaVersion: 2 })), ["schemaVersion"]);
+    assert.deepStrictEqual(issuePaths("not a card"), ["(root)"]);
+  });
+
+  it("upgrades unversioned cards to per-capability endpoints and atomic prices", () => {
+    const parsed = parseAgentCard(
+      {
+        name: "AgentB",
+        endpoint: "https://agent-b.example/analyze",
+        walletAddress: WALLET,
+        capabilities: ["csv-analysis", "file-storage"],
+        pricing: { baseRate: 0.01, upload: 0.001, retrieve: 0.00002 },
+      },
+      options
+    );
+
+    assert.deepStrictEqual(parsed.endpoints, {
+      "csv-analysis": "https://agent-b.example/analyze",
+      "file-storage": "https://agent-b.example/upload",
+      "file-retrieval": "https://agent-b.example/retrieve",
+    });
+    assert.deepStrictEqual(parsed.pricing, { "csv-analysis": "10000", "file-storage": "1000", "file-retrieval": "20" });
+    assert.deepStrictEqual(parsed.networks, [NETWORK]);
+    assert.strictEqual(parsed.wallet, WALLET);
+  });
+
+  it("upgrades baseline cards that only carry a base rate", () => {
+    const parsed = parseAgentCard(
+      { name: "AgentB", endpoint: "https://agent-b.example/upload", walletAddress: WALLET, pricing: { baseRate: 0.002 } },
+      options
+    );
+
+    assert.strictEqual(cardMismatch(parsed, "file-storage", NETWORK), null);
+    assert.strictEqual(parsed.endpoints["file-storage"], "https://agent-b.example/upload");
+    assert.deepStrictEqual(parsed.pricing, { "csv-analysis": "2000", "file-storage": "2000", "file-retrieval": "2000" });
+
+    // Unpriced cards get the flat rate legacy discovery charged
+    const unpriced = parseAgentCard({ name: "AgentB", endpoint: "https://agent-b.example", walletAddress: WALLET }, options);
+    assert.strictEqual(unpriced.pricing["csv-analysis"], "100");
+  });
+
+  it("rejects unversioned cards it can't upgrade", () => {
+    assert.deepStrictEqual(issuePaths({ name: "AgentB", endpoint: "https://agent-b.example/analyze" }), ["walletAddress"]);
+    assert.deepStrictEqual(issuePaths({ name: "AgentB", endpoint: "ftp://agent-b.example", walletAddress: WALLET }), ["endpoint"]);
+  });
+});
+
+describe("cardMismatch", () => {
+  it("explains why a valid card can't serve the task", () => {
+    const parsed = parseAgentCard(card(), options);
+    assert.strictEqual(cardMismatch(parsed, "csv-analysis", NETWORK), null);
+    assert.strictEqual(cardMismatch(parsed, "file-storage", NETWORK), "no endpoint for file-storage");
+    assert.strictEqual(cardMismatch(parsed, "csv-analysis", "eip155:8453"), "doesn't accept payment on eip155:8453");
+  });
+});
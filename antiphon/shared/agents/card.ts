@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { parseUnits } from "viem";
+import { InvalidAgentCardError } from "./errors.js";
+
+/** Agent card schema the coordinator writes and reads; older cards are upgraded on parse. */
+export const AGENT_CARD_VERSION = 1;
+
+const USDC_DECIMALS = 6;
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "must be a 0x-prefixed 20-byte address");
+const httpUrl = z.url({ protocol: /^https?$/, error: "must be an http(s) URL" });
+/** USDC in atomic units (6 decimals) as a decimal string, so cards stay plain JSON */
+const atomicAmount = z.string().regex(/^\d+$/, "must be an integer amount in atomic units");
+/** CAIP-2 id, as x402 uses it (`eip155:84532`) */
+const network = z.string().regex(/^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}$/, "must be a CAIP-2 network id");
+const capability = z.string().min(1);
+
+export const agentCardSchema = z
+  .object({
+    schemaVersion: z.literal(AGENT_CARD_VERSION),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    /** The agent's own release, e.g. "1.4.0" */
+    version: z.string().min(1),
+    /** Receives x402 payments and is rated on-chain */
+    wallet: address,
+    networks: z.array(network).min(1),
+    /** Paid route per capability, e.g. `{ "csv-analysis": "https://…/analyze" }` */
+    endpoints: z.record(capability, httpUrl).refine((e) => Object.keys(e).length > 0, "must list at least one capability"),
+    /** Price per call per capability */
+    pricing: z.record(capability, atomicAmount),
+    limits: z
+      .object({
+        maxUploadBytes: z.number().int().positive().optional(),
+        maxRequestsPerMinute: z.number().int().positive().optional(),
+        timeoutSeconds: z.number().int().positive().optional(),
+      })
+      .prefault({}),
+  })
+  .superRefine((card, ctx) => {
+    for (const name of Object.keys(card.endpoints)) {
+      if (card.pricing[name] === undefined) {
+        ctx.addIssue({ code: "custom", path: ["pricing", name], message: "required for every endpoint" });
+      }
+    }
+  });
+
+export type AgentCard = z.output<typeof agentCardSchema>;
+
+/** Unversioned cards published before AGENT_CARD_VERSION: one base endpoint and USD prices. */
+const legacyCardSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  endpoint: httpUrl,
+  walletAddress: address,
+  pricing: z.record(z.string(), z.number().nonnegative()).optional(),
+});
+
+/** What legacy discovery charged when a card had no usable `pricing` entry (USD). */
+const LEGACY_DEFAULT_PRICE = 0.0001;
+
+/** Legacy capability → AgentB route and the `pricing` key it was priced under. */
+const LEGACY_ROUTES: Record<string, { path: string; pricingKey: string }> = {
+  "csv-analysis": { path: "/analyze", pricingKey: "baseRate" },
+  "file-storage": { path: "/upload", pricingKey: "upload" },
+  "file-retrieval": { path: "/retrieve", pricingKey: "retrieve" },
+};
+
+export interface ParseAgentCardOptions {
+  /** Network legacy cards are assumed to serve (they don't declare one): the registry's chain */
+  legacyNetwork: string;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+function upgradeLegacy(raw: unknown, { legacyNetwork }: ParseAgentCardOptions): unknown {
+  const parsed = legacyCardSchema.safeParse(raw);
+  if (!parsed.success) throw new InvalidAgentCardError(formatIssues(parsed.error));
+  const legacy = parsed.data;
+
+  // Legacy cards don't reliably say what they serve: the registry entry they
+  // were found under does. So every route is derived from the base endpoint,
+  // and discovery only ever uses the one for the capability it looked up.
+  // Prices fall back to `baseRate`, then to the old flat default
+  const base = legacy.endpoint.replace(/\/(upload|analyze|retrieve)$/, "");
+  const endpoints: Record<string, string> = {};
+  const pricing: Record<string, string> = {};
+  for (const [name, route] of Object.entries(LEGACY_ROUTES)) {
+    const price = legacy.pricing?.[route.pricingKey] ?? legacy.pricing?.baseRate ?? LEGACY_DEFAULT_PRICE;
+    endpoints[name] = `${base}${route.path}`;
+    pricing[name] = parseUnits(price.toFixed(USDC_DECIMALS), USDC_DECIMALS).toString();
+  }
+
+  return {
+    schemaVersion: AGENT_CARD_VERSION,
+    name: legacy.name,
+    ...(legacy.description && { description: legacy.description }),
+    version: "0.0.0",
+    wallet: legacy.walletAddress,
+    networks: [legacyNetwork],
+    endpoints,
+    pricing,
+  };
+}
+
+/**
+ * Validate an agent card fetched from IPFS. Cards without `schemaVersion`
+ * are upgraded from the legacy layout first; unknown versions are rejected.
+ * Throws InvalidAgentCardError listing every problem.
+ */
+export function parseAgentCard(raw: unknown, options: ParseAgentCardOptions): AgentCard {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new InvalidAgentCardError(["(root): must be a JSON object"]);
+  }
+  const version = (raw as { schemaVersion?: unknown }).schemaVersion;
+  if (version !== undefined && version !== AGENT_CARD_VERSION) {
+    throw new InvalidAgentCardError([`schemaVersion: unsupported version ${JSON.stringify(version)}`]);
+  }
+
+  const parsed = agentCardSchema.safeParse(version === undefined ? upgradeLegacy(raw, options) : raw);
+  if (!parsed.success) throw new InvalidAgentCardError(formatIssues(parsed.error));
+  return parsed.data;
+}
+
+/** Why `card` can't serve `capability` on `network`, or null when it can. */
+export function cardMismatch(card: AgentCard, capability: string, network: string): string | null {
+  if (!card.endpoints[capability]) return `no endpoint for ${capability}`;
+  if (!card.networks.includes(network)) return `doesn't accept payment on ${network}`;
+  return null;
+}
@@ -0,0 +1,15 @@
+/** An agent card that can't be used for selection; `issues` has one line per problem. */
+export class InvalidAgentCardError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid agent card: ${issues.join("; ")}`);
+    this.name = "InvalidAgentCardError";
+  }
+}
+
+/** A selection strategy name that isn't one of SELECTION_STRATEGIES (per-task `strategy`). */
+export class InvalidSelectionStrategyError extends Error {
+  constructor(readonly strategy: unknown, allowed: readonly string[]) {
+    super(`Unknown selection strategy ${JSON.stringify(strategy)} — expected one of ${allowed.join(", ")}`);
+    this.name = "InvalidSelectionStrategyError";
+  }
+}
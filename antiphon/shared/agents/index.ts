@@ -0,0 +1,20 @@
+export { agentCardSchema, parseAgentCard, cardMismatch, AGENT_CARD_VERSION } from "./card.js";
+export type { AgentCard, ParseAgentCardOptions } from "./card.js";
+export { InvalidAgentCardError, InvalidSelectionStrategyError } from "./errors.js";
+export { AgentCardCache } from "./cache.js";
+export type { AgentCardSource, AgentCardCacheOptions } from "./cache.js";
+export {
+  SELECTION_STRATEGIES,
+  DEFAULT_SELECTION_POLICY,
+  parseSelectionStrategy,
+  rankProviders,
+  weightedReputation,
+} from "./selection.js";
+export type {
+  SelectionStrategy,
+  SelectionPolicy,
+  ProviderCandidate,
+  RankedProvider,
+  ProviderRanking,
+} from "./selection.js";
+export { LatencyTracker } from "./latency.js";
@@ -0,0 +1,22 @@
+/** Smoothing for new samples: recent calls count most, one slow call doesn't swamp the history. */
+const DEFAULT_ALPHA = 0.3;
+
+/**
+ * Observed latency per provider endpoint, as an exponentially weighted moving
+ * average of completed paid calls. In memory only: it starts empty on each
+ * restart, and providers not yet called have no latency.
+ */
+export class LatencyTracker {
+  private averages = new Map<string, number>();
+
+  constructor(private alpha = DEFAULT_ALPHA) {}
+
+  observe(endpoint: string, ms: number): void {
+    const previous = this.averages.get(endpoint);
+    this.averages.set(endpoint, previous === undefined ? ms : previous + this.alpha * (ms - previous));
+  }
+
+  latencyMs(endpoint: string): number | undefined {
+    return this.averages.get(endpoint);
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { AGENT_CARD_VERSION, parseAgentCard } from "./card.js";
+import { InvalidSelectionStrategyError } from "./errors.js";
+import { LatencyTracker } from "./latency.js";
+import {
+  DEFAULT_SELECTION_POLICY,
+  parseSelectionStrategy,
+  rankProviders,
+  weightedReputation,
+  type ProviderCandidate,
+  type SelectionPolicy,
+} from "./selection.js";
+
+const NETWORK = "eip155:84532";
+
+function candidate(address: string, fields: Partial<ProviderCandidate>): ProviderCandidate {
+  const card = parseAgentCard(
+    {
+      schemaVersion: AGENT_CARD_VERSION,
+      name: address,
+      version: "1.0.0",
+      wallet: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+      networks: [NETWORK],
+      endpoints: { "csv-analysis": `https://${address}.example/analyze` },
+      pricing: { "csv-analysis": fields.price ?? "10000" },
+    },
+    { legacyNetwork: NETWORK }
+  );
+  return {
+    address,
+    agentCardCID: `bafkrei${address}`,
+    card,
+    reputation: 0,
+    totalRatings: 0,
+    endpoint: card.endpoints["csv-analysis"]!,
+    price: "10000",
+    ...fields,
+  };
+}
+
+const policy = (overrides: Partial<SelectionPolicy>): SelectionPolicy => ({ ...DEFAULT_SELECTION_POLICY, ...overrides });
+const order = (candidates: ProviderCandidate[], overrides: Partial<SelectionPolicy>) =>
+  rankProviders(candidates, policy(overrides)).providers.map((p) => p.address);
+
+describe("rankProviders", () => {
+  const lucky = candidate("lucky", { reputation: 5, totalRatings: 1 });
+  const proven = candidate("proven", { reputation: 4.9, totalRatings: 500 });
+
+  it("ranks by reputation weighted by how many ratings back it", () => {
+    assert.deepStrictEqual(order([lucky, proven], { strategy: "reputation" }), ["proven", "lucky"]);
+    assert.strictEqual(weightedReputation(lucky, DEFAULT_SELECTION_POLICY), (5 * 3 + 5) / 6);
+    // With no ratings at all a provider sits at the prior
+    assert.strictEqual(weightedReputation(candidate("new", {}), DEFAULT_SELECTION_POLICY), 3);
+  });
+
+  it("picks the cheapest provider above the reputation floor", () => {
+    const cheapButBad = candidate("cheap", { reputation: 1, totalRatings: 40, price: "100" });
+    const pricey = candidate("pricey", { reputation: 4.5, totalRatings: 40, price: "50000" });
+    const fair = candidate("fair", { reputation: 4, totalRatings: 40, price: "20000" });
+
+    const ranking = rankProviders([cheapButBad, pricey, fair], policy({ strategy: "cheapest", minReputation: 3.5 }));
+    assert.deepStrictEqual(ranking.providers.map((p) => p.address), ["fair", "pricey"]);
+    assert.deepStrictEqual(ranking.providers.map((p) => p.score), [1, 0.4]);
+    assert.deepStrictEqual(ranking.excluded.map((e) => e.address), ["cheap"]);
+    assert.match(ranking.excluded[0]!.reason, /below the floor of 3.5/);
+  });
+
+  it("prefers the fastest observed provider and puts unmeasured ones last", () => {
+    const slow = candidate("slow", { latencyMs: 800 });
+    const fast = candidate("fast", { latencyMs: 200 });
+    const unknown = candidate("unknown", { reputation: 5, totalRatings: 100 });
+
+    const ranking = rankProviders([unknown, slow, fast], policy({ strategy: "latency" }));
+    assert.deepStrictEqual(ranking.providers.map((p) => p.address), ["fast", "slow", "unknown"]);
+    assert.deepStrictEqual(ranking.providers.map((p) => p.score), [1, 0.25, 0]);
+  });
+
+  it("blends reputation, price and latency by weight", () => {
+    const cheap = candidate("cheap", { reputation: 4, totalRatings: 50, price: "5000", latencyMs: 400 });
+    const premium = candidate("premium", { reputation: 5, totalRatings: 50, price: "20000", latencyMs: 400 });
+
+    assert.deepStrictEqual(
+      order([premium, cheap], { strategy: "weighted", weights: { reputation: 0.2, price: 0.8, latency: 0 } }),
+      ["cheap", "premium"]
+    );
+    assert.deepStrictEqual(
+      order([cheap, premium], { strategy: "weighted", weights: { reputation: 1, price: 0, latency: 0 } }),
+      ["premium", "cheap"]
+    );
+    const [top] = rankProviders([cheap], policy({ strategy: "weighted" })).providers;
+    assert.ok(top!.score > 0 && top!.score <= 1);
+  });
+});
+
+describe("parseSelectionStrategy", () => {
+  it("accepts known strategies and leaves unset ones to config", () => {
+    assert.strictEqual(parseSelectionStrategy("cheapest"), "cheapest");
+    assert.strictEqual(parseSelectionStrategy(undefined), undefined);
+    assert.throws(() => parseSelectionStrategy("random"), InvalidSelectionStrategyError);
+  });
+});
+
+describe("LatencyTracker", () => {
+  it("smooths observations per endpoint", () => {
+    const latency = new LatencyTracker(0.5);
+    assert.strictEqual(latency.latencyMs("https://a.example"), undefined);
+    latency.observe("https://a.example", 100);
+    latency.observe("https://a.example", 300);
+    assert.strictEqual(latency.latencyMs("https://a.example"), 200);
+    assert.strictEqual(latency.latencyMs("https://b.example"), undefined);
+  });
+});
@@ -0,0 +1,155 @@
+import type { AgentCard } from "./card.js";
+import { InvalidSelectionStrategyError } from "./errors.js";
+
+/**
+ * How discovery orders the providers that can serve a task:
+ * - `reputation`: average rating shrunk towards a prior by how few ratings back it
+ * - `cheapest`: lowest price among providers at or above the reputation floor
+ * - `latency`: lowest observed latency; providers never called come last
+ * - `weighted`: blend of reputation, price and latency by `weights`
+ */
+export const SELECTION_STRATEGIES = ["reputation", "cheapest", "latency", "weighted"] as const;
+
+export type SelectionStrategy = (typeof SELECTION_STRATEGIES)[number];
+
+export interface SelectionPolicy {
+  strategy: SelectionStrategy;
+  /** Rating (0–5) a provider is assumed to have before its own ratings count */
+  priorMean: number;
+  /** How many ratings the prior is worth */
+  priorWeight: number;
+  /** Least weighted reputation `cheapest` will pick */
+  minReputation: number;
+  /** Relative weight of each score in `weighted` */
+  weights: { reputation: number; price: number; latency: number };
+}
+
+export const DEFAULT_SELECTION_POLICY: SelectionPolicy = {
+  strategy: "reputation",
+  priorMean: 3,
+  priorWeight: 5,
+  minReputation: 3,
+  weights: { reputation: 0.5, price: 0.3, latency: 0.2 },
+};
+
+/** A registered provider whose card can serve the task. */
+export interface ProviderCandidate {
+  address: string;
+  agentCardCID: string;
+  card: AgentCard;
+  /** Average on-chain rating, 0–5 */
+  reputation: number;
+  totalRatings: number;
+  /** The card's endpoint for the capability */
+  endpoint: string;
+  /** The card's price for the capability, in atomic USDC */
+  price: string;
+  /** Smoothed observed latency of `endpoint`, once it has been called */
+  latencyMs?: number;
+}
+
+export interface RankedProvider extends ProviderCandidate {
+  /** The strategy's score, 0–1 and higher is better; only comparable within one ranking */
+  score: number;
+  /** `reputation` shrunk towards the prior (Bayesian average), 0–5 */
+  weightedReputation: number;
+}
+
+export interface ProviderRanking {
+  strategy: SelectionStrategy;
+  /** Best first */
+  providers: RankedProvider[];
+  /** Candidates the strategy won't pick, e.g. below the reputation floor */
+  excluded: { address: string; reason: string }[];
+}
+
+/** `value` as a strategy name; undefined passes through so callers fall back to config. */
+export function parseSelectionStrategy(value: unknown): SelectionStrategy | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (!SELECTION_STRATEGIES.includes(value as SelectionStrategy)) {
+    throw new InvalidSelectionStrategyError(value, SELECTION_STRATEGIES);
+  }
+  return value as SelectionStrategy;
+}
+
+/** Bayesian average: with few ratings the prior dominates, with many the provider's own average does. */
+export function weightedReputation(
+  { reputation, totalRatings }: Pick<ProviderCandidate, "reputation" | "totalRatings">,
+  { priorMean, priorWeight }: Pick<SelectionPolicy, "priorMean" | "priorWeight">
+): number {
+  const weight = priorWeight + totalRatings;
+  return weight === 0 ? priorMean : (priorWeight * priorMean + totalRatings * reputation) / weight;
+}
+
+const comparePrice = (a: ProviderCandidate, b: ProviderCandidate) => {
+  const diff = BigInt(a.price) - BigInt(b.price);
+  return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+};
+
+/** `best / value` for lower-is-better quantities: 1 for the best, towards 0 for the worst. */
+function relative(value: number, best: number): number {
+  if (value <= 0) return 1;
+  return best / value;
+}
+
+/** Order `candidates` by `policy.strategy`; ties go to the better reputation, then the cheaper price. */
+export function rankProviders(candidates: ProviderCandidate[], policy: SelectionPolicy): ProviderRanking {
+  const excluded: ProviderRanking["excluded"] = [];
+  let eligible = candidates.map((c) => ({ ...c, score: 0, weightedReputation: weightedReputation(c, policy) }));
+
+  if (policy.strategy === "cheapest") {
+    eligible = eligible.filter((c) => {
+      if (c.weightedReputation >= policy.minReputation) return true;
+      excluded.push({
+        address: c.address,
+        reason: `reputation ${c.weightedReputation.toFixed(2)} is below the floor of ${policy.minReputation}`,
+      });
+      return false;
+    });
+  }
+
+  const cheapest = eligible.reduce((min, c) => Math.min(min, Number(c.price)), Infinity);
+  const fastest = eligible.reduce((min, c) => Math.min(min, c.latencyMs ?? Infinity), Infinity);
+  const priceScore = (c: ProviderCandidate) => relative(Number(c.price), cheapest);
+  // Unknown latency is neutral in a blend, and last when latency is all that counts
+  const latencyScore = (c: ProviderCandidate, unknown: number) =>
+    c.latencyMs === undefined ? unknown : relative(c.latencyMs, fastest);
+
+  const { weights } = policy;
+  const totalWeight = weights.reputation + weights.price + weights.latency;
+  for (const c of eligible) {
+    switch (policy.strategy) {
+      case "reputation":
+        c.score = c.weightedReputation / 5;
+        break;
+      case "cheapest":
+        c.score = priceScore(c);
+        break;
+      case "latency":
+        c.score = latencyScore(c, 0);
+        break;
+      case "weighted":
+        c.score =
+          totalWeight === 0
+            ? 0
+            : (weights.reputation * (c.weightedReputation / 5) +
+                weights.price * priceScore(c) +
+                weights.latency * latencyScore(c, 0.5)) /
+              totalWeight;
+        break;
+    }
+  }
+
+  eligible.sort((a, b) => {
+    // Prices are exact in atomic units; don't let float scores reorder them
+    if (policy.strategy === "cheapest") {
+      const byPrice = comparePrice(a, b);
+      if (byPrice !== 0) return byPrice;
+    } else if (b.score !== a.score) {
+      return b.score - a.score;
+    }
+    return b.weightedReputation - a.weightedReputation || comparePrice(a, b);
+  });
+
+  return { strategy: policy.strategy, providers: eligible, excluded };
+}
@@ -0,0 +1,10 @@
+/** Rejected sign-in, missing/expired session, or an exhausted quota. `status` is the HTTP status to answer with. */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403 | 429 = 401
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
@@ -0,0 +1,6 @@
+export { SiweAuth } from "./siwe.js";
+export type { Session, SiweAuthOptions } from "./siwe.js";
+export { AuthError } from "./errors.js";
+export { assertTaskQuota } from "./quota.js";
+export type { TaskQuota } from "./quota.js";
+export { requireSession, readToken, sessionOf } from "./middleware.js";
@@ -0,0 +1,39 @@
+import type { Request, RequestHandler, Response } from "express";
+import { AuthError } from "./errors.js";
+import type { Session, SiweAuth } from "./siwe.js";
+
+/**
+ * Bearer token from `Authorization`, or `?access_token=` for EventSource,
+ * which cannot set headers.
+ */
+export function readToken(req: Request): string | undefined {
+  const header = req.get("authorization");
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length).trim();
+  const query = req.query.access_token;
+  return typeof query === "string" && query ? query : undefined;
+}
+
+/**
+ * Rejects requests without a live session (401) and exposes it as
+ * `res.locals.session`. With `enabled: false` every request passes through
+ * anonymously.
+ */
+export function requireSession(auth: SiweAuth, options: { enabled: boolean }): RequestHandler {
+  return (req, res, next) => {
+    if (!options.enabled) return next();
+    const token = readToken(req);
+    const session = token ? auth.session(token) : undefined;
+    if (!session) {
+      const err = new AuthError("Sign in with Ethereum first (missing or expired session)");
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    res.locals.session = session;
+    next();
+  };
+}
+
+/** Session attached by requireSession, if the request has one. */
+export function sessionOf(res: Response): Session | undefined {
+  return res.locals.session as Session | undefined;
+}
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { TaskSummary } from "../tasks/index.js";
+import { assertTaskQuota } from "./quota.js";
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+function task(status: TaskSummary["status"], createdAt = NOW.toISOString()): TaskSummary {
+  return { taskId: createdAt + status, service: "analyze", status, currentStep: 1, createdAt, updatedAt: createdAt };
+}
+
+describe("assertTaskQuota", () => {
+  it("limits tasks in flight", () => {
+    const quota = { maxActive: 1, maxPerDay: 10 };
+    assert.doesNotThrow(() => assertTaskQuota([task("done")], quota, NOW));
+    assert.throws(() => assertTaskQuota([task("running")], quota, NOW), /in flight/);
+  });
+
+  it("limits tasks per UTC day", () => {
+    const quota = { maxActive: 5, maxPerDay: 2 };
+    const yesterday = "2026-03-14T23:59:00Z";
+    assert.doesNotThrow(() => assertTaskQuota([task("done"), task("error", yesterday)], quota, NOW));
+    assert.throws(() => assertTaskQuota([task("done"), task("error")], quota, NOW), /today/);
+  });
+});
@@ -0,0 +1,23 @@
+import type { TaskSummary } from "../tasks/index.js";
+import { AuthError } from "./errors.js";
+
+export interface TaskQuota {
+  /** Tasks an address may have queued or running at once */
+  maxActive: number;
+  /** Tasks an address may submit per UTC day */
+  maxPerDay: number;
+}
+
+/** Throws a 429 AuthError if `tasks` (one owner's) leave no room for another task. */
+export function assertTaskQuota(tasks: TaskSummary[], quota: TaskQuota, now = new Date()): void {
+  const active = tasks.filter((t) => t.status === "queued" || t.status === "running").length;
+  if (active >= quota.maxActive) {
+    throw new AuthError(`Quota exceeded: ${active} tasks already in flight (max ${quota.maxActive})`, 429);
+  }
+
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+  const today = tasks.filter((t) => t.createdAt >= dayStart).length;
+  if (today >= quota.maxPerDay) {
+    throw new AuthError(`Quota exceeded: ${today} tasks submitted today (max ${quota.maxPerDay})`, 429);
+  }
+}
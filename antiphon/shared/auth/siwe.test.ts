@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { SiweAuth } from "./siwe.js";
+import { AuthError } from "./errors.js";
+
+const account = privateKeyToAccount(generatePrivateKey());
+
+async function signIn(auth: SiweAuth, domain = "localhost:8080", nonce = auth.issueNonce(), chainId = 84532) {
+  const message = createSiweMessage({
+    address: account.address,
+    chainId,
+    domain,
+    nonce,
+    uri: `http://${domain}`,
+    version: "1",
+  });
+  const signature = await account.signMessage({ message });
+  return { message, signature };
+}
+
+describe("SiweAuth", () => {
+  it("opens a session for a correctly signed message", async () => {
+    const auth = new SiweAuth();
+    const { message, signature } = await signIn(auth);
+    const session = await auth.verify(message, signature, "localhost:8080");
+
+    assert.strictEqual(session.address, account.address);
+    assert.strictEqual(auth.session(session.token)?.address, account.address);
+    auth.revoke(session.token);
+    assert.strictEqual(auth.session(session.token), undefined);
+  });
+
+  it("accepts each nonce only once", async () => {
+    const auth = new SiweAuth();
+    const { message, signature } = await signIn(auth);
+    await auth.verify(message, signature, "localhost:8080");
+    await assert.rejects(auth.verify(message, signature, "localhost:8080"), AuthError);
+  });
+
+  it("rejects nonces it never issued and messages for another domain", async () => {
+    const auth = new SiweAuth();
+    const forged = await signIn(auth, "localhost:8080", "notissued123");
+    await assert.rejects(auth.verify(forged.message, forged.signature, "localhost:8080"), /nonce/);
+
+    const phished = await signIn(auth, "evil.example");
+    await assert.rejects(auth.verify(phished.message, phished.signature, "localhost:8080"), /not valid/);
+  });
+
+  it("rejects messages signed for another chain", async () => {
+    const auth = new SiweAuth({ chainId: 84532 });
+    const mainnet = await signIn(auth, "localhost:8080", auth.issueNonce(), 1);
+    await assert.rejects(auth.verify(mainnet.message, mainnet.signature, "localhost:8080"), /for chain 1, expected 84532/);
+
+    const { message, signature } = await signIn(auth);
+    assert.strictEqual((await auth.verify(message, signature, "localhost:8080")).chainId, 84532);
+  });
+
+  it("rejects a signature from a different key", async () => {
+    const auth = new SiweAuth();
+    const { message } = await signIn(auth);
+    const other = privateKeyToAccount(generatePrivateKey());
+    const signature = await other.signMessage({ message });
+    await assert.rejects(auth.verify(message, signature, "localhost:8080"), /does not match/);
+  });
+
+  it("expires sessions after their TTL", async () => {
+    const auth = new SiweAuth({ sessionTtlMs: 1 });
+    const { message, signature } = await signIn(auth);
+    const session = await auth.verify(message, signature, "localhost:8080");
+    await new Promise((r) => setTimeout(r, 5));
+    assert.strictEqual(auth.session(session.token), undefined);
+  });
+});
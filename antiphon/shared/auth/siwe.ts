@@ -0,0 +1,110 @@
+import { randomBytes } from "crypto";
+import { getAddress, verifyMessage, type Hex, type PublicClient } from "viem";
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import { AuthError } from "./errors.js";
+
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+export interface Session {
+  token: string;
+  /** Checksummed address that signed the SIWE message */
+  address: string;
+  chainId: number;
+  expiresAt: string;
+}
+
+export interface SiweAuthOptions {
+  sessionTtlMs?: number;
+  /** Chain the coordinator pays on; messages signed for any other chain are rejected */
+  chainId?: number;
+  /**
+   * When set, signatures are checked on-chain as well (EIP-1271 / ERC-6492),
+   * so smart-contract wallets can sign in. Without it only EOAs verify.
+   */
+  publicClient?: Pick<PublicClient, "verifyMessage">;
+}
+
+/**
+ * Sign-In-With-Ethereum for the coordinator API: single-use nonces, message
+ * verification, and opaque bearer tokens kept in memory (a restart signs
+ * everyone out).
+ */
+export class SiweAuth {
+  private nonces = new Map<string, number>();
+  private sessions = new Map<string, Session>();
+  private readonly sessionTtlMs: number;
+
+  constructor(private options: SiweAuthOptions = {}) {
+    this.sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  }
+
+  issueNonce(): string {
+    this.prune();
+    const nonce = generateSiweNonce();
+    this.nonces.set(nonce, Date.now() + NONCE_TTL_MS);
+    return nonce;
+  }
+
+  /** Verify a signed SIWE message for `domain` and open a session for its address. */
+  async verify(message: string, signature: Hex, domain: string): Promise<Session> {
+    const parsed = parseSiweMessage(message);
+    if (!parsed.nonce || !parsed.address || !parsed.chainId) {
+      throw new AuthError("Malformed SIWE message");
+    }
+
+    // Consume the nonce up front: a message is good for one attempt only
+    const nonceExpiry = this.nonces.get(parsed.nonce);
+    this.nonces.delete(parsed.nonce);
+    if (!nonceExpiry || nonceExpiry < Date.now()) {
+      throw new AuthError("Unknown or expired nonce — request a new one");
+    }
+
+    if (!validateSiweMessage({ message: parsed, domain, nonce: parsed.nonce })) {
+      throw new AuthError(`SIWE message is not valid for ${domain} right now`);
+    }
+    const { chainId } = this.options;
+    if (chainId !== undefined && parsed.chainId !== chainId) {
+      throw new AuthError(`SIWE message is for chain ${parsed.chainId}, expected ${chainId}`);
+    }
+
+    const { publicClient } = this.options;
+    const valid = publicClient
+      ? await publicClient.verifyMessage({ address: parsed.address, message, signature })
+      : await verifyMessage({ address: parsed.address, message, signature });
+    if (!valid) throw new AuthError("Signature does not match the SIWE message address");
+
+    const session: Session = {
+      token: randomBytes(32).toString("base64url"),
+      address: getAddress(parsed.address),
+      chainId: parsed.chainId,
+      expiresAt: new Date(Date.now() + this.sessionTtlMs).toISOString(),
+    };
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  /** The live session for `token`, if any. */
+  session(token: string): Session | undefined {
+    const session = this.sessions.get(token);
+    if (session && Date.parse(session.expiresAt) <= Date.now()) {
+      this.sessions.delete(token);
+      return undefined;
+    }
+    return session;
+  }
+
+  revoke(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [nonce, expiry] of this.nonces) {
+      if (expiry < now) this.nonces.delete(nonce);
+    }
+    for (const [token, session] of this.sessions) {
+      if (Date.parse(session.expiresAt) <= now) this.sessions.delete(token);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { CHAINS, explorerTxUrl, x402Network } from "./chains.js";
+import { WalletService } from "./wallet.js";
+
+describe("chains", () => {
+  it("derives the x402 network id from the chain id", () => {
+    assert.strictEqual(x402Network(CHAINS["base-sepolia"].chain.id), "eip155:84532");
+    assert.strictEqual(x402Network(CHAINS.base.chain.id), "eip155:8453");
+    assert.strictEqual(x402Network(CHAINS.anvil.chain.id), "eip155:31337");
+  });
+
+  it("builds explorer links only where the chain has an explorer", () => {
+    assert.strictEqual(explorerTxUrl(CHAINS.base.explorerUrl, "0xabc"), "https://basescan.org/tx/0xabc");
+    assert.strictEqual(explorerTxUrl(CHAINS.anvil.explorerUrl, "0xabc"), undefined);
+  });
+
+  it("creates WalletService clients on the selected chain", () => {
+    const service = new WalletService(CHAINS.anvil.defaultRpcUrl, CHAINS.anvil.chain);
+    assert.strictEqual(service.createPublicClient().chain?.id, 31337);
+  });
+});
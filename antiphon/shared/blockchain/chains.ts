@@ -0,0 +1,58 @@
+import type { Address, Chain } from "viem";
+import { anvil, base, baseSepolia } from "viem/chains";
+import { BASE_SEPOLIA_USDC_ADDRESS, DEFAULT_RPC_URL } from "./config.js";
+
+export const CHAIN_NAMES = ["base", "base-sepolia", "anvil"] as const;
+export type ChainName = (typeof CHAIN_NAMES)[number];
+
+/** Everything chain-specific the coordinator needs; config may override the defaults. */
+export interface ChainProfile {
+  name: ChainName;
+  chain: Chain;
+  defaultRpcUrl: string;
+  /** USDC, the x402 payment asset; absent where it has to be configured (Anvil) */
+  usdcAddress?: Address;
+  explorerUrl?: string;
+  /** Known ERC-8004 deployments */
+  registries?: { identity: Address; reputation: Address };
+}
+
+export const CHAINS: Record<ChainName, ChainProfile> = {
+  base: {
+    name: "base",
+    chain: base,
+    defaultRpcUrl: "https://mainnet.base.org",
+    usdcAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    explorerUrl: "https://basescan.org",
+  },
+  "base-sepolia": {
+    name: "base-sepolia",
+    chain: baseSepolia,
+    defaultRpcUrl: DEFAULT_RPC_URL,
+    usdcAddress: BASE_SEPOLIA_USDC_ADDRESS,
+    explorerUrl: "https://sepolia.basescan.org",
+    registries: {
+      identity: "0x1352abA587fFbbC398d7ecAEA31e2948D3aFE4Fb",
+      reputation: "0x3FdD300147940a35F32AdF6De36b3358DA682B5c",
+    },
+  },
+  anvil: {
+    name: "anvil",
+    chain: anvil,
+    defaultRpcUrl: "http://127.0.0.1:8545",
+  },
+};
+
+export function getChainProfile(name: ChainName): ChainProfile {
+  return CHAINS[name];
+}
+
+/** CAIP-2 network id x402 v2 uses for a chain, e.g. `eip155:84532`. */
+export function x402Network(chainId: number): `eip155:${number}` {
+  return `eip155:${chainId}`;
+}
+
+/** Explorer link for a transaction, if the chain has an explorer. */
+export function explorerTxUrl(explorerUrl: string | undefined, hash: string): string | undefined {
+  return explorerUrl ? `${explorerUrl.replace(/\/+$/, "")}/tx/${hash}` : undefined;
+}
@@ -1,5 +1,6 @@
 export const BASE_SEPOLIA_CHAIN_ID = 84532;
 
-export function getRpcUrl(): string {
-  return process.env.BASE_RPC_URL ?? "https://sepolia.base.org";
-}
+export const DEFAULT_RPC_URL = "https://sepolia.base.org";
+
+/** Circle's USDC on Base Sepolia — the x402 payment asset */
+export const BASE_SEPOLIA_USDC_ADDRESS = "0x036CbD53842c5426634e7929541eC2318f3dCF7e" as const;
@@ -1,2 +1,4 @@
 export { WalletService } from "./wallet.js";
-export { getRpcUrl, BASE_SEPOLIA_CHAIN_ID } from "./config.js";
+export { DEFAULT_RPC_URL, BASE_SEPOLIA_CHAIN_ID, BASE_SEPOLIA_USDC_ADDRESS } from "./config.js";
+export { CHAINS, CHAIN_NAMES, getChainProfile, x402Network, explorerTxUrl } from "./chains.js";
+export type { ChainName, ChainProfile } from "./chains.js";
@@ -3,28 +3,61 @@ import {
   createWalletClient,
   http,
   type Address,
+  type Chain,
   type Hex,
   type PublicClient,
+  type Transport,
   type WalletClient,
 } from "viem";
 import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
 import { baseSepolia } from "viem/chains";
-import { getRpcUrl } from "./config.js";
+import { DEFAULT_RPC_URL } from "./config.js";
+import { metrics } from "../metrics/index.js";
+import { tracer } from "../tracing/index.js";
 
 const RPC_TIMEOUT_MS = 15_000;
 const MAX_RETRIES = 2;
 
+/**
+ * Counts every JSON-RPC call (after retries) and its failures by method, and
+ * traces each one as a client span under the active task span.
+ */
+function instrumented(transport: Transport): Transport {
+  return (params) => {
+    const instance = transport(params);
+    const request: typeof instance.request = (args, options) => {
+      metrics.rpcRequests.inc({ method: args.method });
+      return tracer.withSpan(
+        `rpc ${args.method}`,
+        { kind: "client", attributes: { "rpc.system": "jsonrpc", "rpc.method": args.method } },
+        async () => {
+          try {
+            return await instance.request(args, options);
+          } catch (err) {
+            metrics.rpcErrors.inc({ method: args.method });
+            throw err;
+          }
+        }
+      );
+    };
+    return { ...instance, request };
+  };
+}
+
 function transportWithRetry(rpcUrl: string) {
-  return http(rpcUrl, { timeout: RPC_TIMEOUT_MS, retryCount: MAX_RETRIES });
+  return instrumented(http(rpcUrl, { timeout: RPC_TIMEOUT_MS, retryCount: MAX_RETRIES }));
 }
 
 export class WalletService {
-  constructor(private rpcUrl: string = getRpcUrl()) {}
+  constructor(
+    private rpcUrl: string = DEFAULT_RPC_URL,
+    private chain: Chain = baseSepolia
+  ) {}
 
   createWalletClient(privateKey: string): WalletClient {
     const account = privateKeyToAccount(privateKey as Hex);
     return createWalletClient({
-      chain: baseSepolia,
+      chain: this.chain,
       transport: transportWithRetry(this.rpcUrl),
       account,
     });
@@ -32,7 +65,7 @@ export class WalletService {
 
   createPublicClient(): PublicClient {
     return createPublicClient({
-      chain: baseSepolia,
+      chain: this.chain,
       transport: transportWithRetry(this.rpcUrl),
     }) as PublicClient;
   }
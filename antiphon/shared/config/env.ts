@@ -0,0 +1,56 @@
+/**
+ * Environment variables and the config field each one sets. Lists are
+ * comma-separated; empty values count as unset unless `allowEmpty`. The same
+ * table names the variable in validation errors.
+ */
+export const ENV_BINDINGS: ReadonlyArray<{ env: string; path: string; list?: true; allowEmpty?: true }> = [
+  { env: "ANTIPHON_DEV", path: "dev.enabled" },
+  { env: "DEV_STACK_PORT", path: "dev.port" },
+  { env: "TASK_API_PORT", path: "server.port" },
+  { env: "CORS_ORIGINS", path: "server.corsOrigins", list: true },
+  { env: "UPLOAD_MAX_BYTES", path: "server.uploadMaxBytes" },
+  { env: "CHAIN", path: "chain.name" },
+  { env: "BASE_RPC_URL", path: "chain.rpcUrl" },
+  { env: "USDC_ADDRESS", path: "chain.usdcAddress" },
+  { env: "EXPLORER_URL", path: "chain.explorerUrl" },
+  { env: "AGENT_A_PRIVATE_KEY", path: "agent.privateKey" },
+  { env: "ERC8004_IDENTITY_REGISTRY", path: "erc8004.identityRegistry" },
+  { env: "ERC8004_REPUTATION_REGISTRY", path: "erc8004.reputationRegistry" },
+  { env: "X402_FACILITATOR_URL", path: "x402.facilitatorUrl" },
+  { env: "STORAGE_BACKEND", path: "storage.backend" },
+  { env: "STORAGE_PATH", path: "storage.path" },
+  { env: "STORACHA_AGENT_PRIVATE_KEY", path: "storacha.agentPrivateKey" },
+  { env: "STORACHA_AGENT_DELEGATION", path: "storacha.delegation" },
+  { env: "IPFS_GATEWAY_URL", path: "ipfs.gatewayUrl" },
+  { env: "IPFS_FALLBACK_GATEWAYS", path: "ipfs.fallbackGateways", list: true, allowEmpty: true },
+  { env: "IPFS_TIMEOUT_MS", path: "ipfs.timeoutMs" },
+  { env: "IPFS_RACE", path: "ipfs.race" },
+  { env: "AUTH_REQUIRED", path: "auth.required" },
+  { env: "AUTH_SESSION_TTL_MS", path: "auth.sessionTtlMs" },
+  { env: "AUTH_ADMIN_ADDRESSES", path: "auth.adminAddresses", list: true },
+  { env: "TASK_CONCURRENCY", path: "limits.taskConcurrency" },
+  { env: "PROVIDER_CONCURRENCY", path: "limits.providerConcurrency" },
+  { env: "TASK_QUOTA_ACTIVE", path: "limits.taskQuotaActive" },
+  { env: "TASK_QUOTA_DAILY", path: "limits.taskQuotaDaily" },
+  { env: "TASK_STREAM_RETENTION_MS", path: "limits.streamRetentionMs" },
+  { env: "IDEMPOTENCY_TTL_MS", path: "limits.idempotencyTtlMs" },
+  { env: "AGENT_CARD_CACHE_ENTRIES", path: "limits.agentCardCacheEntries" },
+  { env: "SELECTION_STRATEGY", path: "selection.strategy" },
+  { env: "SELECTION_PRIOR_MEAN", path: "selection.priorMean" },
+  { env: "SELECTION_PRIOR_WEIGHT", path: "selection.priorWeight" },
+  { env: "SELECTION_MIN_REPUTATION", path: "selection.minReputation" },
+  { env: "SELECTION_WEIGHT_REPUTATION", path: "selection.weights.reputation" },
+  { env: "SELECTION_WEIGHT_PRICE", path: "selection.weights.price" },
+  { env: "SELECTION_WEIGHT_LATENCY", path: "selection.weights.latency" },
+  { env: "WEBHOOK_SECRET", path: "webhooks.secret" },
+  { env: "WEBHOOK_MAX_ATTEMPTS", path: "webhooks.maxAttempts" },
+  { env: "WEBHOOK_ALLOWED_HOSTS", path: "webhooks.allowedHosts", list: true },
+  { env: "HEALTH_TIMEOUT_MS", path: "health.timeoutMs" },
+  { env: "HEALTH_CACHE_MS", path: "health.cacheMs" },
+  { env: "TASK_STORE_PATH", path: "paths.taskStore" },
+  { env: "IDEMPOTENCY_STORE_PATH", path: "paths.idempotencyStore" },
+  { env: "PAYMENT_LEDGER_PATH", path: "paths.paymentLedger" },
+  { env: "SPENDING_POLICY_PATH", path: "paths.spendingPolicy" },
+  { env: "AGENT_CARD_CACHE_PATH", path: "paths.agentCardCache" },
+  { env: "TRACE_EXPORT_PATH", path: "paths.traceExport", allowEmpty: true },
+];
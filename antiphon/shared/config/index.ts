@@ -0,0 +1,5 @@
+export { configSchema } from "./schema.js";
+export type { AntiphonConfig } from "./schema.js";
+export { loadConfig, ConfigError, DEFAULT_CONFIG_PATH } from "./load.js";
+export type { LoadConfigOptions } from "./load.js";
+export { ENV_BINDINGS } from "./env.js";
@@ -0,0 +1,163 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ConfigError, loadConfig } from "./load.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+const KEY = `0x${"11".repeat(32)}`;
+const IDENTITY = `0x${"aa".repeat(20)}`;
+const REPUTATION = `0x${"bb".repeat(20)}`;
+
+const validEnv = {
+  BASE_RPC_URL: "https://sepolia.base.org",
+  AGENT_A_PRIVATE_KEY: KEY,
+  ERC8004_IDENTITY_REGISTRY: IDENTITY,
+  ERC8004_REPUTATION_REGISTRY: REPUTATION,
+  X402_FACILITATOR_URL: "https://x402.org/facilitator",
+};
+
+async function configFile(contents: unknown = {}): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-config-"));
+  tempDirs.push(dir);
+  const file = path.join(dir, "antiphon.config.json");
+  await writeFile(file, JSON.stringify(contents));
+  return file;
+}
+
+describe("loadConfig", () => {
+  it("builds a typed config from the environment with defaults", async () => {
+    const config = await loadConfig({
+      env: {
+        ...validEnv,
+        TASK_CONCURRENCY: "8",
+        AUTH_REQUIRED: "false",
+        CORS_ORIGINS: "https://a.example, https://b.example",
+        WEBHOOK_SECRET: "",
+      },
+      configPath: await configFile(),
+    });
+    assert.strictEqual(config.limits.taskConcurrency, 8);
+    assert.strictEqual(config.limits.providerConcurrency, 2);
+    assert.strictEqual(config.auth.required, false);
+    assert.deepStrictEqual(config.server.corsOrigins, ["https://a.example", "https://b.example"]);
+    assert.strictEqual(config.webhooks.secret, undefined);
+    assert.strictEqual(config.storacha, undefined);
+    assert.strictEqual(config.ipfs.gatewayUrl, "https://w3s.link");
+    assert.deepStrictEqual(config.ipfs.gateways, ["https://w3s.link", "https://ipfs.io", "https://dweb.link"]);
+    assert.strictEqual(config.server.port, 3001);
+  });
+
+  it("merges antiphon.config.json under environment overrides", async () => {
+    const file = await configFile({
+      chain: { rpcUrl: "https://file.example" },
+      agent: { privateKey: KEY },
+      erc8004: { identityRegistry: IDENTITY, reputationRegistry: REPUTATION },
+      x402: { facilitatorUrl: "https://x402.org/facilitator" },
+      server: { port: 4000 },
+    });
+    const config = await loadConfig({
+      env: { BASE_RPC_URL: "https://env.example", IPFS_FALLBACK_GATEWAYS: "" },
+      configPath: file,
+    });
+    assert.strictEqual(config.chain.rpcUrl, "https://env.example");
+    assert.strictEqual(config.server.port, 4000);
+    assert.deepStrictEqual(config.ipfs.gateways, ["https://w3s.link"]);
+  });
+
+  it("reports every invalid field with its environment variable", async () => {
+    await assert.rejects(
+      loadConfig({
+        env: { ...validEnv, AGENT_A_PRIVATE_KEY: "0x1234", ERC8004_IDENTITY_REGISTRY: "0xnope", TASK_QUOTA_DAILY: "lots" },
+        configPath: await configFile(),
+      }),
+      (err: unknown) => {
+        assert.ok(err instanceof ConfigError);
+        assert.deepStrictEqual(
+          err.issues.map((i) => i.split(":")[0]),
+          [
+            "agent.privateKey (AGENT_A_PRIVATE_KEY)",
+            "erc8004.identityRegistry (ERC8004_IDENTITY_REGISTRY)",
+            "limits.taskQuotaDaily (TASK_QUOTA_DAILY)",
+          ]
+        );
+        return true;
+      }
+    );
+  });
+
+  it("fills chain-specific values from the selected chain", async () => {
+    const config = await loadConfig({
+      env: { AGENT_A_PRIVATE_KEY: KEY, X402_FACILITATOR_URL: "https://x402.org/facilitator" },
+      configPath: await configFile(),
+    });
+    assert.strictEqual(config.chain.name, "base-sepolia");
+    assert.strictEqual(config.chain.id, 84532);
+    assert.strictEqual(config.chain.x402Network, "eip155:84532");
+    assert.strictEqual(config.chain.rpcUrl, "https://sepolia.base.org");
+    assert.strictEqual(config.chain.usdcAddress, "0x036CbD53842c5426634e7929541eC2318f3dCF7e");
+    assert.strictEqual(config.erc8004.identityRegistry, "0x1352abA587fFbbC398d7ecAEA31e2948D3aFE4Fb");
+  });
+
+  it("requires registries and USDC on chains without defaults", async () => {
+    const env = { AGENT_A_PRIVATE_KEY: KEY, X402_FACILITATOR_URL: "https://x402.org/facilitator", CHAIN: "anvil" };
+    await assert.rejects(loadConfig({ env, configPath: await configFile() }), (err: unknown) => {
+      assert.ok(err instanceof ConfigError);
+      assert.deepStrictEqual(
+        err.issues.map((i) => i.split(":")[0]),
+        [
+          "chain.usdcAddress (USDC_ADDRESS)",
+          "erc8004.identityRegistry (ERC8004_IDENTITY_REGISTRY)",
+          "erc8004.reputationRegistry (ERC8004_REPUTATION_REGISTRY)",
+        ]
+      );
+      return true;
+    });
+
+    const config = await loadConfig({
+      env: { ...env, ...validEnv, BASE_RPC_URL: "http://127.0.0.1:8545", USDC_ADDRESS: IDENTITY },
+      configPath: await configFile(),
+    });
+    assert.strictEqual(config.chain.id, 31337);
+    assert.strictEqual(config.chain.x402Network, "eip155:31337");
+    assert.strictEqual(config.chain.explorerUrl, undefined);
+  });
+
+  it("requires both Storacha credentials once either is set", async () => {
+    await assert.rejects(
+      loadConfig({ env: { ...validEnv, STORACHA_AGENT_PRIVATE_KEY: "MgCa..." }, configPath: await configFile() }),
+      /storacha\.delegation \(STORACHA_AGENT_DELEGATION\)/
+    );
+  });
+
+  it("points every network-facing setting at the dev stack in dev mode", async () => {
+    const config = await loadConfig({
+      env: { ...validEnv, ANTIPHON_DEV: "true", DEV_STACK_PORT: "9545", STORACHA_AGENT_PRIVATE_KEY: "MgCa..." },
+      configPath: await configFile(),
+    });
+    assert.strictEqual(config.dev.enabled, true);
+    assert.strictEqual(config.chain.name, "anvil");
+    assert.strictEqual(config.chain.rpcUrl, "http://127.0.0.1:9545");
+    assert.strictEqual(config.x402.facilitatorUrl, "http://127.0.0.1:9545/facilitator");
+    assert.strictEqual(config.ipfs.gatewayUrl, "http://127.0.0.1:9545");
+    assert.deepStrictEqual(config.ipfs.gateways, ["http://127.0.0.1:9545"]);
+    assert.strictEqual(config.erc8004.identityRegistry, "0x5FbDB2315678afecb367f032d93F642f64180aa3");
+    assert.strictEqual(config.storacha, undefined);
+    assert.strictEqual(config.storage.backend, "memory");
+    assert.strictEqual(config.agent.privateKey, KEY);
+
+    const offline = await loadConfig({ env: { ANTIPHON_DEV: "true" }, configPath: await configFile() });
+    assert.strictEqual(offline.dev.port, 8545);
+    assert.match(offline.agent.privateKey, /^0xac0974be/);
+
+    const onDisk = await loadConfig({ env: { ANTIPHON_DEV: "true", STORAGE_BACKEND: "fs" }, configPath: await configFile() });
+    assert.strictEqual(onDisk.storage.backend, "fs");
+  });
+
+  it("rejects a config file that is not a JSON object", async () => {
+    await assert.rejects(loadConfig({ env: validEnv, configPath: await configFile([1, 2]) }), ConfigError);
+  });
+});
@@ -0,0 +1,104 @@
+import { readFile } from "fs/promises";
+import { configSchema, type AntiphonConfig } from "./schema.js";
+import { ENV_BINDINGS } from "./env.js";
+import { DEFAULT_DEV_STACK_PORT, DEV_AGENT_A_PRIVATE_KEY, DEV_CONTRACTS, devStackUrls } from "../dev/index.js";
+
+export const DEFAULT_CONFIG_PATH = "antiphon.config.json";
+
+/** Startup configuration is missing or invalid; `issues` has one line per field. */
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type RawConfig = Record<string, unknown>;
+
+function setPath(target: RawConfig, path: string, value: unknown): void {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    const next = node[key];
+    if (typeof next !== "object" || next === null || Array.isArray(next)) node[key] = {};
+    node = node[key] as RawConfig;
+  }
+  node[last] = value;
+}
+
+/**
+ * Dev mode points everything network-facing at the local dev stack, whatever
+ * the file or environment say, and falls back to a well-known AgentA key.
+ */
+function applyDevMode(raw: RawConfig): void {
+  const dev = (raw.dev ?? {}) as { enabled?: unknown; port?: unknown };
+  if (dev.enabled !== true && dev.enabled !== "true") return;
+  const port = Number(dev.port ?? DEFAULT_DEV_STACK_PORT);
+  const urls = devStackUrls(Number.isInteger(port) ? port : DEFAULT_DEV_STACK_PORT);
+
+  raw.chain = { name: "anvil", rpcUrl: urls.rpcUrl, usdcAddress: DEV_CONTRACTS.usdc };
+  raw.erc8004 = { identityRegistry: DEV_CONTRACTS.identityRegistry, reputationRegistry: DEV_CONTRACTS.reputationRegistry };
+  setPath(raw, "x402.facilitatorUrl", urls.facilitatorUrl);
+  setPath(raw, "ipfs.gatewayUrl", urls.gatewayUrl);
+  setPath(raw, "ipfs.fallbackGateways", []);
+  delete raw.storacha;
+  // Storacha is the one backend that needs the network; "fs" stays if asked for
+  const storage = (raw.storage ?? {}) as { backend?: unknown };
+  if (storage.backend === undefined || storage.backend === "storacha") setPath(raw, "storage.backend", "memory");
+  const agent = (raw.agent ?? {}) as { privateKey?: unknown };
+  if (agent.privateKey === undefined) setPath(raw, "agent.privateKey", DEV_AGENT_A_PRIVATE_KEY);
+}
+
+async function readConfigFile(path: string, required: boolean): Promise<RawConfig> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT" && !required) return {};
+    throw new ConfigError([`${path}: ${(err as Error).message}`]);
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("top level must be an object");
+    }
+    return parsed as RawConfig;
+  } catch (err) {
+    throw new ConfigError([`${path}: ${(err as Error).message}`]);
+  }
+}
+
+export interface LoadConfigOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Defaults to ANTIPHON_CONFIG, else antiphon.config.json if present */
+  configPath?: string;
+}
+
+/**
+ * Reads antiphon.config.json, overlays environment variables (env wins), then
+ * the dev stack's endpoints in dev mode, and validates the result. Throws ConfigError listing every invalid field.
+ */
+export async function loadConfig({ env = process.env, configPath }: LoadConfigOptions = {}): Promise<AntiphonConfig> {
+  const explicitPath = configPath ?? env.ANTIPHON_CONFIG;
+  const raw = await readConfigFile(explicitPath ?? DEFAULT_CONFIG_PATH, explicitPath !== undefined);
+
+  for (const { env: name, path, list, allowEmpty } of ENV_BINDINGS) {
+    const value = env[name]?.trim();
+    if (value === undefined || (value === "" && !allowEmpty)) continue;
+    setPath(raw, path, list ? value.split(",").map((v) => v.trim()).filter(Boolean) : value);
+  }
+
+  applyDevMode(raw);
+
+  const result = configSchema.safeParse(raw);
+  if (result.success) return result.data;
+
+  throw new ConfigError(
+    result.error.issues.map((issue) => {
+      const path = issue.path.join(".");
+      const binding = ENV_BINDINGS.find((b) => path === b.path || path.startsWith(`${b.path}.`));
+      return `${path || "(root)"}${binding ? ` (${binding.env})` : ""}: ${issue.message}`;
+    })
+  );
+}
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { CHAIN_NAMES, getChainProfile, x402Network } from "../blockchain/index.js";
+import { DEFAULT_DEV_STACK_PORT } from "../dev/index.js";
+import { STORAGE_BACKENDS } from "../storage/index.js";
+import { DEFAULT_SELECTION_POLICY, SELECTION_STRATEGIES } from "../agents/index.js";
+
+const privateKey = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{64}$/, "must be a 0x-prefixed 32-byte hex private key");
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "must be a 0x-prefixed 20-byte address");
+const httpUrl = z.url({ protocol: /^https?$/, error: "must be an http(s) URL" });
+const positiveInt = z.coerce.number().int().positive();
+const rating = z.coerce.number().min(0).max(5);
+const weight = z.coerce.number().nonnegative();
+/** JSON booleans, or "true"/"false" from the environment */
+const flag = z.union([z.boolean(), z.enum(["true", "false"]).transform((v) => v === "true")]);
+
+const rawConfigSchema = z.object({
+  /** Offline stand-ins for the chain, facilitator, storage and AgentB (see shared/dev) */
+  dev: z
+    .object({
+      enabled: flag.default(false),
+      port: z.coerce.number().int().min(1).max(65535).default(DEFAULT_DEV_STACK_PORT),
+    })
+    .prefault({}),
+  server: z
+    .object({
+      port: z.coerce.number().int().min(1).max(65535).default(3001),
+      /** Browser origins allowed to call the API; "*" allows any */
+      corsOrigins: z.array(z.string().min(1)).default(["http://localhost:8080", "http://localhost:5173"]),
+      uploadMaxBytes: positiveInt.default(50 * 1024 * 1024),
+    })
+    .prefault({}),
+  /** Omitted fields fall back to the chain's profile in shared/blockchain/chains.ts */
+  chain: z
+    .object({
+      name: z.enum(CHAIN_NAMES).default("base-sepolia"),
+      rpcUrl: httpUrl.optional(),
+      usdcAddress: address.optional(),
+      explorerUrl: httpUrl.optional(),
+    })
+    .prefault({}),
+  /** AgentA's wallet: discovers, pays and posts reputation */
+  agent: z.object({ privateKey }),
+  erc8004: z
+    .object({
+      identityRegistry: address.optional(),
+      reputationRegistry: address.optional(),
+    })
+    .prefault({}),
+  x402: z.object({ facilitatorUrl: httpUrl }),
+  /** Where analysis CSVs are uploaded; "fs" and "memory" keep them on this machine */
+  storage: z
+    .object({
+      backend: z.enum(STORAGE_BACKENDS).default("storacha"),
+      /** Root directory of the "fs" backend */
+      path: z.string().min(1).default("data/blobs"),
+    })
+    .prefault({}),
+  /** Credentials of the "storacha" storage backend */
+  storacha: z
+    .object({
+      agentPrivateKey: z.string().min(1),
+      delegation: z.string().min(1),
+    })
+    .optional(),
+  ipfs: z
+    .object({
+      /** Preferred gateway; AgentB is pointed at it for inputCID datasets */
+      gatewayUrl: httpUrl.default("https://w3s.link"),
+      /** Tried after gatewayUrl, in order, when fetching agent cards and results */
+      fallbackGateways: z.array(httpUrl).default(["https://ipfs.io", "https://dweb.link"]),
+      /** Per-gateway request timeout */
+      timeoutMs: positiveInt.default(10_000),
+      /** Gateways asked at once */
+      race: positiveInt.default(2),
+    })
+    .prefault({}),
+  auth: z
+    .object({
+      required: flag.default(true),
+      sessionTtlMs: positiveInt.default(24 * 60 * 60 * 1000),
+      /** May read every task and the payment ledger */
+      adminAddresses: z.array(address).default([]),
+    })
+    .prefault({}),
+  limits: z
+    .object({
+      taskConcurrency: positiveInt.default(4),
+      providerConcurrency: positiveInt.default(2),
+      taskQuotaActive: positiveInt.default(2),
+      taskQuotaDaily: positiveInt.default(50),
+      /** How long a finished task's event buffer stays in memory for reconnects */
+      streamRetentionMs: positiveInt.default(5 * 60 * 1000),
+      /** How long a client may retry POST /api/task with the same Idempotency-Key */
+      idempotencyTtlMs: positiveInt.default(24 * 60 * 60 * 1000),
+      /** Validated agent cards kept in memory, by CID */
+      agentCardCacheEntries: positiveInt.default(256),
+    })
+    .prefault({}),
+  /** How discovery ranks providers; a task's `strategy` overrides `strategy` (shared/agents/selection.ts) */
+  selection: z
+    .object({
+      strategy: z.enum(SELECTION_STRATEGIES).default(DEFAULT_SELECTION_POLICY.strategy),
+      priorMean: rating.default(DEFAULT_SELECTION_POLICY.priorMean),
+      priorWeight: weight.default(DEFAULT_SELECTION_POLICY.priorWeight),
+      minReputation: rating.default(DEFAULT_SELECTION_POLICY.minReputation),
+      weights: z
+        .object({
+          reputation: weight.default(DEFAULT_SELECTION_POLICY.weights.reputation),
+          price: weight.default(DEFAULT_SELECTION_POLICY.weights.price),
+          latency: weight.default(DEFAULT_SELECTION_POLICY.weights.latency),
+        })
+        .prefault({}),
+    })
+    .prefault({}),
+  webhooks: z
+    .object({
+      /** Signs callbackUrl deliveries; without it, tasks can't register a callback */
+      secret: z.string().min(16, "must be at least 16 characters").optional(),
+      maxAttempts: positiveInt.default(6),
+      /** callbackUrl hosts exempt from the public-address check (internal receivers) */
+      allowedHosts: z.array(z.string().min(1)).default([]),
+    })
+    .prefault({}),
+  health: z
+    .object({
+      timeoutMs: positiveInt.default(5000),
+      cacheMs: z.coerce.number().int().nonnegative().default(10_000),
+    })
+    .prefault({}),
+  paths: z
+    .object({
+      taskStore: z.string().min(1).default("data/tasks.json"),
+      idempotencyStore: z.string().min(1).default("data/idempotency.json"),
+      paymentLedger: z.string().min(1).default("data/payments.json"),
+      spendingPolicy: z.string().min(1).default("spending-policy.json"),
+      agentCardCache: z.string().min(1).default("data/agent-cards"),
+      /** Empty string turns the trace file exporter off */
+      traceExport: z.string().default("data/traces.jsonl"),
+    })
+    .prefault({}),
+});
+
+/**
+ * Validated config with chain defaults resolved: every chain-specific value
+ * (RPC, USDC, registries, explorer, x402 network id) comes from `chain.name`
+ * unless set explicitly.
+ */
+export const configSchema = rawConfigSchema
+  .superRefine((config, ctx) => {
+    const profile = getChainProfile(config.chain.name);
+    const missing = (path: string[], what: string) =>
+      ctx.addIssue({ code: "custom", path, message: `required on ${profile.name} (${what} has no default there)` });
+    if (!config.chain.usdcAddress && !profile.usdcAddress) missing(["chain", "usdcAddress"], "USDC");
+    if (!config.erc8004.identityRegistry && !profile.registries) missing(["erc8004", "identityRegistry"], "ERC-8004");
+    if (!config.erc8004.reputationRegistry && !profile.registries) missing(["erc8004", "reputationRegistry"], "ERC-8004");
+  })
+  .transform((config) => {
+    const profile = getChainProfile(config.chain.name);
+    const explorerUrl = config.chain.explorerUrl ?? profile.explorerUrl;
+    return {
+      ...config,
+      chain: {
+        name: config.chain.name,
+        id: profile.chain.id,
+        rpcUrl: config.chain.rpcUrl ?? profile.defaultRpcUrl,
+        usdcAddress: (config.chain.usdcAddress ?? profile.usdcAddress)!,
+        ...(explorerUrl && { explorerUrl }),
+        x402Network: x402Network(profile.chain.id),
+      },
+      erc8004: {
+        identityRegistry: (config.erc8004.identityRegistry ?? profile.registries?.identity)!,
+        reputationRegistry: (config.erc8004.reputationRegistry ?? profile.registries?.reputation)!,
+      },
+      ipfs: {
+        ...config.ipfs,
+        /** gatewayUrl first, then the fallbacks — the order retrieval tries them in */
+        gateways: [...new Set([config.ipfs.gatewayUrl, ...config.ipfs.fallbackGateways])],
+      },
+    };
+  });
+
+export type AntiphonConfig = z.output<typeof configSchema>;
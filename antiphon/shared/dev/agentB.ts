@@ -0,0 +1,174 @@
+import express from "express";
+import Papa from "papaparse";
+import type { Address } from "viem";
+import { paymentMiddleware } from "@x402/express";
+import { x402ResourceServer, type FacilitatorClient } from "@x402/core/server";
+import type { Network } from "@x402/core/types";
+import { ExactEvmScheme } from "@x402/evm/exact/server";
+import { InvalidCidError } from "../ipfs/index.js";
+import { ObjectNotFoundError, type StorageProvider, type StoredObject } from "../storage/index.js";
+import { AGENT_CARD_VERSION, type AgentCard } from "../agents/index.js";
+import { USDC_NAME, USDC_VERSION } from "./usdc.js";
+
+/** What the mock AgentB charges per call, in atomic USDC (same as the real AgentB's defaults). */
+export const MOCK_AGENT_B_PRICES = { analyze: 10_000n, upload: 1_000n, retrieve: 100n } as const;
+
+export const MOCK_AGENT_B_CAPABILITIES = ["csv-analysis", "statistics", "data-transformation", "file-storage"];
+
+export interface MockAgentBOptions {
+  /** Where uploads, inputs and analysis reports live */
+  storage: StorageProvider;
+  facilitator: FacilitatorClient;
+  network: Network;
+  usdcAddress: Address;
+  /** AgentB's wallet: x402 payTo and its ERC-8004 identity */
+  payTo: Address;
+  maxUploadBytes?: number;
+}
+
+interface ColumnStats {
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+/** The agent card AgentB publishes on IPFS; `baseUrl` is where mockAgentBRouter is mounted. */
+export function mockAgentCard(baseUrl: string, wallet: Address, network: Network): AgentCard {
+  return {
+    schemaVersion: AGENT_CARD_VERSION,
+    name: "AgentB (dev mock)",
+    description: "In-process stand-in for AgentB: CSV statistics, file storage and retrieval on the dev stack's storage",
+    version: "0.0.0-dev",
+    wallet,
+    networks: [network],
+    endpoints: {
+      "csv-analysis": `${baseUrl}/analyze`,
+      "file-storage": `${baseUrl}/upload`,
+      "file-retrieval": `${baseUrl}/retrieve`,
+    },
+    pricing: {
+      "csv-analysis": MOCK_AGENT_B_PRICES.analyze.toString(),
+      "file-storage": MOCK_AGENT_B_PRICES.upload.toString(),
+      "file-retrieval": MOCK_AGENT_B_PRICES.retrieve.toString(),
+    },
+    limits: { maxUploadBytes: 50 * 1024 * 1024 },
+  };
+}
+
+/** Same statistics the real AgentB computes (server/agentB-server.js). */
+export function analyzeCsv(csv: string) {
+  const parsed = Papa.parse<Record<string, unknown>>(csv, { header: true, dynamicTyping: true, skipEmptyLines: true });
+  const rows = parsed.data;
+  const columns = parsed.meta.fields ?? [];
+  const numericalStats: Record<string, ColumnStats> = {};
+  const insights: string[] = [];
+
+  for (const column of columns) {
+    const values = rows
+      .map((row) => row[column])
+      .filter((v): v is number => typeof v === "number" && !Number.isNaN(v))
+      .sort((a, b) => a - b);
+    if (values.length === 0) continue;
+
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const stdDev = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+    const min = values[0]!;
+    const max = values[values.length - 1]!;
+    const middle = Math.floor(values.length / 2);
+    const median = values.length % 2 === 1 ? values[middle]! : (values[middle - 1]! + values[middle]!) / 2;
+    numericalStats[column] = {
+      mean: Number(mean.toFixed(2)),
+      median: Number(median.toFixed(2)),
+      stdDev: Number(stdDev.toFixed(2)),
+      min,
+      max,
+    };
+    if (stdDev > mean * 0.5) insights.push(`High variance detected in ${column} (σ=${stdDev.toFixed(2)})`);
+    if (max > mean + 2 * stdDev) insights.push(`Potential outliers detected in ${column}`);
+  }
+
+  return {
+    summary:
+      `Analyzed ${rows.length} rows across ${columns.length} columns. ` +
+      `Found ${Object.keys(numericalStats).length} numerical columns.`,
+    statistics: { rowCount: rows.length, columnCount: columns.length, columns, numericalStats },
+    insights,
+  };
+}
+
+/**
+ * AgentB's three paid routes behind the real x402 Express middleware, settled
+ * through `facilitator`: POST /analyze, POST /upload (multipart `file`) and
+ * GET /retrieve?cid=. Data lives in `storage`.
+ */
+export function mockAgentBRouter(options: MockAgentBOptions): express.Router {
+  const { storage, facilitator, network, usdcAddress, payTo } = options;
+  const accepts = (amount: bigint) => ({
+    scheme: "exact",
+    network,
+    payTo,
+    price: { amount: amount.toString(), asset: usdcAddress, extra: { name: USDC_NAME, version: USDC_VERSION } },
+    maxTimeoutSeconds: 300,
+  });
+  const find = (cid: string): Promise<StoredObject | undefined> =>
+    storage.retrieve(cid).catch((err: unknown) => {
+      if (err instanceof ObjectNotFoundError || err instanceof InvalidCidError) return undefined;
+      throw err;
+    });
+  const resourceServer = new x402ResourceServer(facilitator).register(network, new ExactEvmScheme());
+
+  const router = express.Router();
+  router.use(express.json());
+  router.use(express.raw({ type: "multipart/form-data", limit: options.maxUploadBytes ?? 50 * 1024 * 1024 }));
+  router.use(
+    paymentMiddleware(
+      {
+        "POST /analyze": { accepts: accepts(MOCK_AGENT_B_PRICES.analyze), description: "CSV statistics", mimeType: "application/json" },
+        "POST /upload": { accepts: accepts(MOCK_AGENT_B_PRICES.upload), description: "Store a file", mimeType: "application/json" },
+        "GET /retrieve": { accepts: accepts(MOCK_AGENT_B_PRICES.retrieve), description: "Fetch a file by CID" },
+      },
+      resourceServer
+    )
+  );
+
+  router.post("/analyze", async (req, res) => {
+    const { inputCID } = (req.body ?? {}) as { inputCID?: string };
+    const input = inputCID ? await find(inputCID) : undefined;
+    if (!input) {
+      res.status(404).json({ status: "error", error: `inputCID ${inputCID ?? "(missing)"} not in ${storage.name}` });
+      return;
+    }
+    const analysis = analyzeCsv(new TextDecoder().decode(input.bytes));
+    const report = new Blob([JSON.stringify(analysis, null, 2)], { type: "application/json" });
+    const resultCID = await storage.upload(report);
+    res.json({ status: "success", message: "Analysis complete", resultCID, ...analysis });
+  });
+
+  router.post("/upload", async (req, res) => {
+    // Parse the multipart body with the Fetch API rather than another dependency
+    const form = await new Response(Uint8Array.from(req.body as Buffer), {
+      headers: { "content-type": req.get("content-type") ?? "" },
+    }).formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File)) {
+      res.status(400).json({ success: false, error: "multipart field `file` is required" });
+      return;
+    }
+    const cid = await storage.upload(file);
+    res.json({ success: true, data: { cid, filename: file.name, size: file.size } });
+  });
+
+  router.get("/retrieve", async (req, res) => {
+    const cid = req.query.cid as string | undefined;
+    const blob = cid ? await find(cid) : undefined;
+    if (!cid || !blob) {
+      res.status(404).json({ error: `${cid ?? "(missing cid)"} not in ${storage.name}` });
+      return;
+    }
+    res.set({ "Content-Type": blob.contentType, "X-CID": cid }).send(Buffer.from(blob.bytes));
+  });
+
+  return router;
+}
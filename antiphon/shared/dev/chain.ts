@@ -0,0 +1,333 @@
+import {
+  decodeFunctionData,
+  encodeFunctionResult,
+  getAddress,
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  stringToHex,
+  toHex,
+  zeroAddress,
+  zeroHash,
+  type Address,
+  type Hex,
+  type TransactionSerialized,
+} from "viem";
+import { ContractRevert, type DevContract } from "./contract.js";
+
+/** Anvil's chain id, so the `anvil` chain profile applies to the dev chain */
+export const DEV_CHAIN_ID = 31337;
+
+const BASE_FEE = 1_000_000_000n;
+const GAS_PER_TX = 100_000n;
+const BLOCK_GAS_LIMIT = 30_000_000n;
+const ZERO_BLOOM: Hex = `0x${"0".repeat(512)}`;
+// Placeholder bytecode so eth_getCode reports a deployed contract
+const CONTRACT_CODE: Hex = "0xfe";
+
+/** JSON-RPC error returned to the client (`code` 3 is a revert, -32601 an unknown method). */
+export class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: Hex
+  ) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+interface DevBlock {
+  number: bigint;
+  hash: Hex;
+  parentHash: Hex;
+  timestamp: bigint;
+  transactions: Hex[];
+}
+
+interface DevTransaction {
+  hash: Hex;
+  from: Address;
+  to: Address | null;
+  input: Hex;
+  nonce: number;
+  value: bigint;
+  blockNumber: bigint;
+  blockHash: Hex;
+  success: boolean;
+}
+
+export interface TransactionRequest {
+  from: Address;
+  to: Address;
+  data?: Hex;
+  value?: bigint;
+}
+
+interface CallParams {
+  from?: Address;
+  to?: Address | null;
+  data?: Hex;
+  input?: Hex;
+}
+
+const now = () => BigInt(Math.floor(Date.now() / 1000));
+
+/**
+ * A single-node, in-memory EVM stand-in for offline development. Contracts are
+ * TypeScript objects dispatched by ABI (see DevContract), every transaction is
+ * mined into its own block immediately, and gas is priced but never charged.
+ * `request` speaks enough of the Ethereum JSON-RPC API for viem's public and
+ * wallet clients: reads, local-account transactions and receipts.
+ */
+export class DevChain {
+  private contracts = new Map<Address, DevContract>();
+  private balances = new Map<Address, bigint>();
+  private nonces = new Map<Address, number>();
+  private blocks: DevBlock[] = [{ number: 0n, hash: blockHash(0n), parentHash: zeroHash, timestamp: now(), transactions: [] }];
+  private transactions = new Map<Hex, DevTransaction>();
+
+  constructor(readonly chainId: number = DEV_CHAIN_ID) {}
+
+  deploy(address: Address, contract: DevContract): void {
+    this.contracts.set(getAddress(address), contract);
+  }
+
+  /** Credit native ETH to `address`. */
+  fund(address: Address, wei: bigint): void {
+    const account = getAddress(address);
+    this.balances.set(account, (this.balances.get(account) ?? 0n) + wei);
+  }
+
+  get blockNumber(): bigint {
+    return this.latest.number;
+  }
+
+  /**
+   * Mine a transaction from `from` without a signature — the facilitator
+   * relays EIP-3009 transfers this way. Reverted calls are mined with status 0.
+   */
+  async transact(tx: TransactionRequest): Promise<{ hash: Hex; success: boolean }> {
+    const from = getAddress(tx.from);
+    const nonce = this.nonces.get(from) ?? 0;
+    const hash = keccak256(stringToHex(`${this.chainId}:${from}:${nonce}`));
+    const success = await this.mine(hash, { ...tx, from }, nonce);
+    return { hash, success };
+  }
+
+  /** Run a read-only call; throws RpcError(3) with the revert data if the contract refuses. */
+  async call({ from = zeroAddress, to, data, input }: CallParams): Promise<Hex> {
+    if (!to) throw new RpcError(3, "execution reverted: contract creation is not supported on the dev chain");
+    const contract = this.contracts.get(getAddress(to));
+    if (!contract) return "0x";
+    return this.execute(contract, getAddress(from), data ?? input ?? "0x", false);
+  }
+
+  async request({ method, params = [] }: { method: string; params?: unknown[] }): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return toHex(this.chainId);
+      case "net_version":
+        return String(this.chainId);
+      case "web3_clientVersion":
+        return "antiphon-dev-chain";
+      case "eth_blockNumber":
+        return toHex(this.blockNumber);
+      case "eth_gasPrice":
+        return toHex(BASE_FEE);
+      case "eth_maxPriorityFeePerGas":
+        return toHex(0n);
+      case "eth_getBalance":
+        return toHex(this.balances.get(getAddress(params[0] as Address)) ?? 0n);
+      case "eth_getCode":
+        return this.contracts.has(getAddress(params[0] as Address)) ? CONTRACT_CODE : "0x";
+      case "eth_getTransactionCount":
+        return toHex(this.nonces.get(getAddress(params[0] as Address)) ?? 0);
+      case "eth_getBlockByNumber": {
+        const block = this.blockByTag(params[0] as string);
+        return block ? formatBlock(block, !!params[1], this.transactions) : null;
+      }
+      case "eth_getBlockByHash": {
+        const block = this.blocks.find((b) => b.hash === params[0]);
+        return block ? formatBlock(block, !!params[1], this.transactions) : null;
+      }
+      case "eth_call":
+        return this.call(params[0] as CallParams);
+      case "eth_estimateGas":
+        await this.call(params[0] as CallParams);
+        return toHex(GAS_PER_TX);
+      case "eth_sendRawTransaction":
+        return this.sendRawTransaction(params[0] as TransactionSerialized);
+      case "eth_getTransactionByHash": {
+        const tx = this.transactions.get(params[0] as Hex);
+        return tx ? formatTransaction(tx, this.chainId) : null;
+      }
+      case "eth_getTransactionReceipt": {
+        const tx = this.transactions.get(params[0] as Hex);
+        return tx ? formatReceipt(tx) : null;
+      }
+      default:
+        throw new RpcError(-32601, `${method} is not supported by the dev chain`);
+    }
+  }
+
+  private get latest(): DevBlock {
+    return this.blocks[this.blocks.length - 1]!;
+  }
+
+  private blockByTag(tag: string): DevBlock | undefined {
+    if (tag === "earliest") return this.blocks[0];
+    if (tag.startsWith("0x")) return this.blocks[Number(BigInt(tag))];
+    return this.latest;
+  }
+
+  private async sendRawTransaction(raw: TransactionSerialized): Promise<Hex> {
+    const tx = parseTransaction(raw);
+    if (tx.chainId !== undefined && tx.chainId !== this.chainId) {
+      throw new RpcError(-32000, `invalid chain id ${tx.chainId}, expected ${this.chainId}`);
+    }
+    const from = await recoverTransactionAddress({ serializedTransaction: raw });
+    const expected = this.nonces.get(from) ?? 0;
+    if (tx.nonce !== expected) throw new RpcError(-32000, `nonce ${tx.nonce} does not match ${expected}`);
+    if (!tx.to) throw new RpcError(-32000, "contract creation is not supported on the dev chain");
+
+    const request: TransactionRequest = { from, to: tx.to };
+    if (tx.data) request.data = tx.data;
+    if (tx.value) request.value = tx.value;
+    const hash = keccak256(raw);
+    await this.mine(hash, request, expected);
+    return hash;
+  }
+
+  /** Execute `tx` in a new block; false if it reverted. */
+  private async mine(hash: Hex, tx: TransactionRequest, nonce: number): Promise<boolean> {
+    const to = getAddress(tx.to);
+    const value = tx.value ?? 0n;
+    const timestamp = now() > this.latest.timestamp ? now() : this.latest.timestamp + 1n;
+
+    let success = true;
+    try {
+      const balance = this.balances.get(tx.from) ?? 0n;
+      if (balance < value) throw new RpcError(-32000, "insufficient funds for transfer");
+      const contract = this.contracts.get(to);
+      if (contract) await this.execute(contract, tx.from, tx.data ?? "0x", true, timestamp);
+      this.balances.set(tx.from, balance - value);
+      this.fund(to, value);
+    } catch (err) {
+      if (!(err instanceof RpcError)) throw err;
+      success = false;
+    }
+
+    const number = this.blockNumber + 1n;
+    const block: DevBlock = { number, hash: blockHash(number), parentHash: this.latest.hash, timestamp, transactions: [hash] };
+    this.blocks.push(block);
+    this.nonces.set(tx.from, nonce + 1);
+    this.transactions.set(hash, {
+      hash,
+      from: tx.from,
+      to,
+      input: tx.data ?? "0x",
+      nonce,
+      value,
+      blockNumber: number,
+      blockHash: block.hash,
+      success,
+    });
+    return success;
+  }
+
+  private async execute(
+    contract: DevContract,
+    sender: Address,
+    data: Hex,
+    commit: boolean,
+    timestamp = this.latest.timestamp
+  ): Promise<Hex> {
+    let decoded: { functionName: string; args?: readonly unknown[] | undefined };
+    try {
+      decoded = decodeFunctionData({ abi: contract.abi, data });
+    } catch {
+      throw new RpcError(3, "execution reverted: unknown function selector");
+    }
+    try {
+      const { functionName, args = [] } = decoded;
+      const result = await contract.invoke(functionName, args, { sender, timestamp, commit });
+      return encodeFunctionResult({ abi: contract.abi, functionName, result } as Parameters<typeof encodeFunctionResult>[0]);
+    } catch (err) {
+      if (err instanceof ContractRevert) throw new RpcError(3, `execution reverted: ${err.message}`, err.data);
+      throw err;
+    }
+  }
+}
+
+function blockHash(number: bigint): Hex {
+  return keccak256(stringToHex(`antiphon-dev-block:${number}`));
+}
+
+function formatBlock(block: DevBlock, full: boolean, transactions: Map<Hex, DevTransaction>) {
+  const gasUsed = GAS_PER_TX * BigInt(block.transactions.length);
+  return {
+    number: toHex(block.number),
+    hash: block.hash,
+    parentHash: block.parentHash,
+    timestamp: toHex(block.timestamp),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    totalDifficulty: "0x0",
+    gasLimit: toHex(BLOCK_GAS_LIMIT),
+    gasUsed: toHex(gasUsed),
+    baseFeePerGas: toHex(BASE_FEE),
+    miner: zeroAddress,
+    extraData: "0x",
+    logsBloom: ZERO_BLOOM,
+    mixHash: zeroHash,
+    sha3Uncles: zeroHash,
+    stateRoot: zeroHash,
+    receiptsRoot: zeroHash,
+    transactionsRoot: zeroHash,
+    size: "0x0",
+    uncles: [],
+    transactions: full
+      ? block.transactions.map((hash) => formatTransaction(transactions.get(hash)!, undefined))
+      : block.transactions,
+  };
+}
+
+function formatTransaction(tx: DevTransaction, chainId: number | undefined) {
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    input: tx.input,
+    nonce: toHex(tx.nonce),
+    value: toHex(tx.value),
+    gas: toHex(GAS_PER_TX),
+    gasPrice: toHex(BASE_FEE),
+    maxFeePerGas: toHex(BASE_FEE),
+    maxPriorityFeePerGas: "0x0",
+    type: "0x2",
+    blockHash: tx.blockHash,
+    blockNumber: toHex(tx.blockNumber),
+    transactionIndex: "0x0",
+    ...(chainId !== undefined && { chainId: toHex(chainId) }),
+  };
+}
+
+function formatReceipt(tx: DevTransaction) {
+  return {
+    transactionHash: tx.hash,
+    transactionIndex: "0x0",
+    blockHash: tx.blockHash,
+    blockNumber: toHex(tx.blockNumber),
+    from: tx.from,
+    to: tx.to,
+    cumulativeGasUsed: toHex(GAS_PER_TX),
+    gasUsed: toHex(GAS_PER_TX),
+    effectiveGasPrice: toHex(BASE_FEE),
+    contractAddress: null,
+    logs: [],
+    logsBloom: ZERO_BLOOM,
+    status: tx.success ? "0x1" : "0x0",
+    type: "0x2",
+  };
+}
@@ -0,0 +1,30 @@
+import { encodeErrorResult, type Abi, type Address, type Hex } from "viem";
+
+/** A dev contract refused the call; becomes an `execution reverted` JSON-RPC error carrying `data`. */
+export class ContractRevert extends Error {
+  readonly data: Hex;
+
+  constructor(abi: Abi, errorName: string, args: readonly unknown[] = []) {
+    super(`${errorName}(${args.map(String).join(", ")})`);
+    this.name = "ContractRevert";
+    this.data = encodeErrorResult({ abi, errorName, args });
+  }
+}
+
+export interface CallContext {
+  /** msg.sender */
+  sender: Address;
+  /** block.timestamp, in seconds */
+  timestamp: bigint;
+  /** false for eth_call / eth_estimateGas: run every check, change nothing */
+  commit: boolean;
+}
+
+/**
+ * In-process stand-in for a deployed contract. The dev chain decodes calldata
+ * against `abi`, calls `invoke` and ABI-encodes whatever it returns.
+ */
+export interface DevContract {
+  readonly abi: Abi;
+  invoke(functionName: string, args: readonly unknown[], ctx: CallContext): unknown;
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { toHex, type Address } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import type { PaymentPayload, PaymentRequirements } from "@x402/core/types";
+import { DevChain } from "./chain.js";
+import { DevUsdc, transferWithAuthorizationTypes } from "./usdc.js";
+import { LocalFacilitator } from "./facilitator.js";
+
+const USDC: Address = "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0";
+const PAY_TO: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const RELAYER: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+function setup() {
+  const chain = new DevChain();
+  const usdc = new DevUsdc(USDC, chain.chainId);
+  chain.deploy(USDC, usdc);
+  const payer = privateKeyToAccount(generatePrivateKey());
+  usdc.mint(payer.address, 5_000n);
+  const facilitator = new LocalFacilitator(chain, usdc, RELAYER);
+  const requirements: PaymentRequirements = {
+    scheme: "exact",
+    network: facilitator.network,
+    asset: USDC,
+    amount: "1000",
+    payTo: PAY_TO,
+    maxTimeoutSeconds: 300,
+    extra: { name: "USD Coin", version: "2" },
+  };
+
+  /** An x402 "exact" payload signing `value` over to `to`. */
+  const pay = async ({ to = PAY_TO, value = 1000n, signer = payer } = {}): Promise<PaymentPayload> => {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const authorization = {
+      from: payer.address,
+      to,
+      value,
+      validAfter: now - 60n,
+      validBefore: now + 300n,
+      nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    };
+    const signature = await signer.signTypedData({
+      domain: usdc.domain,
+      types: transferWithAuthorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      message: authorization,
+    });
+    return {
+      x402Version: 2,
+      resource: { url: "http://127.0.0.1/agent-b/upload", description: "Store a file", mimeType: "application/json" },
+      accepted: requirements,
+      payload: {
+        authorization: {
+          ...authorization,
+          value: value.toString(),
+          validAfter: authorization.validAfter.toString(),
+          validBefore: authorization.validBefore.toString(),
+        },
+        signature,
+      },
+    };
+  };
+
+  return { chain, usdc, payer, facilitator, requirements, pay };
+}
+
+describe("LocalFacilitator", () => {
+  it("verifies and settles an EIP-3009 authorization on the dev chain", async () => {
+    const { chain, usdc, payer, facilitator, requirements, pay } = setup();
+    const payment = await pay();
+
+    assert.deepStrictEqual(await facilitator.verify(payment, requirements), { isValid: true, payer: payer.address });
+    const settled = await facilitator.settle(payment, requirements);
+    assert.strictEqual(settled.success, true);
+    assert.strictEqual(settled.network, "eip155:31337");
+    assert.strictEqual(usdc.balanceOf(payer.address), 4_000n);
+    assert.strictEqual(usdc.balanceOf(PAY_TO), 1_000n);
+
+    const receipt = (await chain.request({ method: "eth_getTransactionReceipt", params: [settled.transaction] })) as {
+      status: string;
+      from: string;
+    };
+    assert.strictEqual(receipt.status, "0x1");
+    assert.strictEqual(receipt.from, RELAYER);
+  });
+
+  it("refuses to settle the same authorization twice", async () => {
+    const { facilitator, requirements, pay } = setup();
+    const payment = await pay();
+    await facilitator.settle(payment, requirements);
+
+    const replay = await facilitator.settle(payment, requirements);
+    assert.strictEqual(replay.success, false);
+    assert.strictEqual(replay.errorReason, "invalid_exact_evm_payload_authorization_nonce_used");
+  });
+
+  it("rejects payments that don't match the requirements", async () => {
+    const { facilitator, requirements, pay } = setup();
+    const reason = async (payment: PaymentPayload) => (await facilitator.verify(payment, requirements)).invalidReason;
+
+    assert.strictEqual(await reason(await pay({ to: RELAYER })), "invalid_exact_evm_payload_recipient_mismatch");
+    assert.strictEqual(await reason(await pay({ value: 999n })), "invalid_exact_evm_payload_authorization_value");
+    assert.strictEqual(await reason(await pay({ value: 10_000n })), "insufficient_funds");
+    const forged = await pay({ signer: privateKeyToAccount(generatePrivateKey()) });
+    assert.strictEqual(await reason(forged), "invalid_exact_evm_payload_signature");
+    assert.strictEqual(
+      (await facilitator.verify(await pay(), { ...requirements, network: "eip155:84532" })).invalidReason,
+      "invalid_network"
+    );
+  });
+});
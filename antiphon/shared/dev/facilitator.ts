@@ -0,0 +1,197 @@
+import express from "express";
+import {
+  encodeFunctionData,
+  getAddress,
+  isAddress,
+  isHex,
+  parseSignature,
+  verifyTypedData,
+  type Address,
+  type Hex,
+} from "viem";
+import type { FacilitatorClient } from "@x402/core/server";
+import type {
+  Network,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedResponse,
+  VerifyResponse,
+} from "@x402/core/types";
+import type { DevChain } from "./chain.js";
+import { transferWithAuthorizationTypes, usdcAbi, type DevUsdc } from "./usdc.js";
+
+interface Authorization {
+  from: Address;
+  to: Address;
+  value: bigint;
+  validAfter: bigint;
+  validBefore: bigint;
+  nonce: Hex;
+}
+
+type Verdict =
+  | { authorization: Authorization; signature: Hex }
+  | { invalidReason: string; invalidMessage: string; payer?: Address };
+
+/** EIP-3009 payload of the x402 "exact" EVM scheme, or undefined if malformed. */
+function readPayload(payload: Record<string, unknown>): { authorization: Authorization; signature: Hex } | undefined {
+  const { authorization: auth, signature } = payload as { authorization?: Record<string, unknown>; signature?: unknown };
+  if (!auth || !isHex(signature)) return undefined;
+  const { from, to, value, validAfter, validBefore, nonce } = auth;
+  if (typeof from !== "string" || !isAddress(from) || typeof to !== "string" || !isAddress(to)) return undefined;
+  if (!isHex(nonce) || nonce.length !== 66) return undefined;
+  try {
+    return {
+      authorization: {
+        from: getAddress(from),
+        to: getAddress(to),
+        value: BigInt(value as string),
+        validAfter: BigInt(validAfter as string),
+        validBefore: BigInt(validBefore as string),
+        nonce,
+      },
+      signature,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * x402 facilitator for the dev chain: verifies "exact" EIP-3009 payments
+ * (signature, recipient, amount, validity window, nonce, balance) and settles
+ * them by relaying `transferWithAuthorization` to the dev USDC contract.
+ * Usable in-process as a FacilitatorClient or over HTTP via facilitatorRouter.
+ */
+export class LocalFacilitator implements FacilitatorClient {
+  readonly network: Network;
+
+  constructor(
+    private readonly chain: DevChain,
+    private readonly usdc: DevUsdc,
+    /** Account the settlement transactions are sent from */
+    readonly relayer: Address
+  ) {
+    this.network = `eip155:${chain.chainId}`;
+  }
+
+  async getSupported(): Promise<SupportedResponse> {
+    return {
+      kinds: [{ x402Version: 2, scheme: "exact", network: this.network }],
+      extensions: [],
+      signers: { "eip155:*": [this.relayer] },
+    };
+  }
+
+  async verify(paymentPayload: PaymentPayload, paymentRequirements: PaymentRequirements): Promise<VerifyResponse> {
+    const verdict = await this.check(paymentPayload, paymentRequirements);
+    if ("invalidReason" in verdict) {
+      const { invalidReason, invalidMessage, payer } = verdict;
+      return { isValid: false, invalidReason, invalidMessage, ...(payer && { payer }) };
+    }
+    return { isValid: true, payer: verdict.authorization.from };
+  }
+
+  async settle(paymentPayload: PaymentPayload, paymentRequirements: PaymentRequirements): Promise<SettleResponse> {
+    const verdict = await this.check(paymentPayload, paymentRequirements);
+    if ("invalidReason" in verdict) {
+      const { invalidReason, invalidMessage, payer } = verdict;
+      return {
+        success: false,
+        errorReason: invalidReason,
+        errorMessage: invalidMessage,
+        transaction: "",
+        network: this.network,
+        ...(payer && { payer }),
+      };
+    }
+
+    const { authorization: a, signature } = verdict;
+    const { r, s, v, yParity } = parseSignature(signature);
+    const data = encodeFunctionData({
+      abi: usdcAbi,
+      functionName: "transferWithAuthorization",
+      args: [a.from, a.to, a.value, a.validAfter, a.validBefore, a.nonce, Number(v ?? BigInt(27 + yParity)), r, s],
+    });
+    // A concurrent settle of the same authorization reverts on-chain
+    const { hash, success } = await this.chain.transact({ from: this.relayer, to: this.usdc.address, data });
+    return {
+      success,
+      ...(!success && { errorReason: "transaction_failed", errorMessage: "transferWithAuthorization reverted" }),
+      payer: a.from,
+      transaction: hash,
+      network: this.network,
+    };
+  }
+
+  private async check(paymentPayload: PaymentPayload, requirements: PaymentRequirements): Promise<Verdict> {
+    const invalid = (invalidReason: string, invalidMessage: string, payer?: Address): Verdict =>
+      payer ? { invalidReason, invalidMessage, payer } : { invalidReason, invalidMessage };
+
+    if (requirements.scheme !== "exact") return invalid("unsupported_scheme", `scheme ${requirements.scheme}`);
+    if (requirements.network !== this.network) {
+      return invalid("invalid_network", `${requirements.network}, this facilitator settles on ${this.network}`);
+    }
+    if (!isAddress(requirements.asset) || getAddress(requirements.asset) !== this.usdc.address) {
+      return invalid("invalid_exact_evm_payload_asset", `unknown asset ${requirements.asset}`);
+    }
+
+    const parsed = readPayload(paymentPayload.payload);
+    if (!parsed) return invalid("invalid_payload", "expected an EIP-3009 authorization and signature");
+    const { authorization: a, signature } = parsed;
+    const payer = a.from;
+
+    if (!isAddress(requirements.payTo) || a.to !== getAddress(requirements.payTo)) {
+      return invalid("invalid_exact_evm_payload_recipient_mismatch", `authorization pays ${a.to}`, payer);
+    }
+    if (a.value < BigInt(requirements.amount)) {
+      return invalid("invalid_exact_evm_payload_authorization_value", `${a.value} < ${requirements.amount}`, payer);
+    }
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (now < a.validAfter) return invalid("invalid_exact_evm_payload_authorization_valid_after", "not yet valid", payer);
+    if (now >= a.validBefore) return invalid("invalid_exact_evm_payload_authorization_valid_before", "expired", payer);
+
+    const signed = await verifyTypedData({
+      address: a.from,
+      domain: this.usdc.domain,
+      types: transferWithAuthorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      message: a,
+      signature,
+    });
+    if (!signed) return invalid("invalid_exact_evm_payload_signature", "signature does not match authorization.from", payer);
+    if (this.usdc.isAuthorizationUsed(a.from, a.nonce)) {
+      return invalid("invalid_exact_evm_payload_authorization_nonce_used", `nonce ${a.nonce} already used`, payer);
+    }
+    if (this.usdc.balanceOf(a.from) < a.value) return invalid("insufficient_funds", "USDC balance too low", payer);
+
+    return parsed;
+  }
+}
+
+/** The facilitator HTTP API (`GET /supported`, `POST /verify`, `POST /settle`) for external resource servers. */
+export function facilitatorRouter(facilitator: FacilitatorClient): express.Router {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get("/supported", async (_req, res) => {
+    res.json(await facilitator.getSupported());
+  });
+
+  for (const action of ["verify", "settle"] as const) {
+    router.post(`/${action}`, async (req, res) => {
+      const { paymentPayload, paymentRequirements } = (req.body ?? {}) as {
+        paymentPayload?: PaymentPayload;
+        paymentRequirements?: PaymentRequirements;
+      };
+      if (!paymentPayload?.payload || !paymentRequirements) {
+        res.status(400).json({ error: "paymentPayload and paymentRequirements are required" });
+        return;
+      }
+      res.json(await facilitator[action](paymentPayload, paymentRequirements));
+    });
+  }
+
+  return router;
+}
@@ -0,0 +1,45 @@
+import express from "express";
+import { InvalidCidError } from "../ipfs/index.js";
+import { ObjectNotFoundError, type StorageProvider } from "../storage/index.js";
+
+/**
+ * Path-style gateway (`GET|HEAD /ipfs/:cid[/path]`) over a storage provider,
+ * with single-range support. Stands in for the w3s.link gateway in dev mode.
+ */
+export function gatewayRouter(store: StorageProvider): express.Router {
+  const router = express.Router();
+
+  router.get(/^\/ipfs\/(.+)$/, async (req, res, next) => {
+    const cid = (req.params as Record<string, string>)[0]!;
+    let blob;
+    try {
+      blob = await store.retrieve(cid);
+    } catch (err) {
+      if (!(err instanceof ObjectNotFoundError || err instanceof InvalidCidError)) return next(err);
+      res.status(err instanceof InvalidCidError ? 400 : 404).json({ error: err.message });
+      return;
+    }
+    res.set({
+      "Content-Type": blob.contentType,
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "public, max-age=29030400, immutable",
+      Etag: `"${blob.cid}"`,
+    });
+
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.get("range") ?? "");
+    if (range) {
+      const start = Number(range[1]);
+      const end = Math.min(range[2] ? Number(range[2]) : blob.bytes.length - 1, blob.bytes.length - 1);
+      if (start > end) {
+        res.status(416).set("Content-Range", `bytes */${blob.bytes.length}`).end();
+        return;
+      }
+      res.status(206).set("Content-Range", `bytes ${start}-${end}/${blob.bytes.length}`);
+      res.send(Buffer.from(blob.bytes.subarray(start, end + 1)));
+      return;
+    }
+    res.send(Buffer.from(blob.bytes));
+  });
+
+  return router;
+}
@@ -0,0 +1,24 @@
+export {
+  startDevStack,
+  devStackUrls,
+  devStackCheck,
+  DEFAULT_DEV_STACK_PORT,
+  DEV_AGENT_A_PRIVATE_KEY,
+  DEV_CONTRACTS,
+} from "./stack.js";
+export type { DevStack, DevStackOptions } from "./stack.js";
+export { DevChain, RpcError, DEV_CHAIN_ID } from "./chain.js";
+export type { TransactionRequest } from "./chain.js";
+export { ContractRevert } from "./contract.js";
+export type { DevContract, CallContext } from "./contract.js";
+export {
+  DevIdentityRegistry,
+  DevReputationRegistry,
+  identityRegistryAbi,
+  reputationRegistryAbi,
+} from "./registry.js";
+export { DevUsdc, usdcAbi, transferWithAuthorizationTypes, USDC_NAME, USDC_VERSION } from "./usdc.js";
+export { gatewayRouter } from "./gateway.js";
+export { LocalFacilitator, facilitatorRouter } from "./facilitator.js";
+export { mockAgentBRouter, mockAgentCard, analyzeCsv, MOCK_AGENT_B_PRICES } from "./agentB.js";
+export type { MockAgentBOptions } from "./agentB.js";
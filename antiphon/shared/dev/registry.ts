@@ -0,0 +1,217 @@
+import { getAddress, parseAbi, type Address } from "viem";
+import { ContractRevert, type CallContext, type DevContract } from "./contract.js";
+
+/** AgentIdentityRegistry's external surface (contracts/rachax402, plugins/ABI/AgentIdentityABI.js). */
+export const identityRegistryAbi = parseAbi([
+  "error AgentAlreadyRegistered(address agent)",
+  "error AgentNotRegistered(address agent)",
+  "error InvalidCID()",
+  "error EmptyCapabilityTags()",
+  "function registerAgent(string agentCardCID, string[] capabilityTags)",
+  "function updateAgentCard(string newCID, string[] newCapabilityTags)",
+  "function discoverAgents(string[] capabilityTags, uint256 offset, uint256 limit) view returns (address[] agents, uint256 total)",
+  "function getAgentCard(address agent) view returns (string)",
+  "function getAgentCapabilities(address agent) view returns (string[])",
+  "function isAgentRegistered(address agent) view returns (bool)",
+  "function getAgentsByCapability(string capability) view returns (address[])",
+  "function getRegisteredAgentsCount() view returns (uint256)",
+  "function getAllRegisteredAgents() view returns (address[])",
+  "function agentHasCapability(address agent, string capability) view returns (bool)",
+]);
+
+/** AgentReputationRegistry's external surface (plugins/ABI/AgentReputationABI.js). */
+export const reputationRegistryAbi = parseAbi([
+  "struct Rating { uint8 rating; string comment; string proofCID; uint256 timestamp; address rater; }",
+  "error InvalidRating(uint8 rating)",
+  "error InvalidTargetAgent()",
+  "error CannotRateSelf()",
+  "error RateLimitExceeded(address rater, address targetAgent, uint256 nextAllowedTime)",
+  "error InvalidLimit()",
+  "function MAX_RATING() view returns (uint8)",
+  "function MIN_RATING() view returns (uint8)",
+  "function RATE_LIMIT_PERIOD() view returns (uint256)",
+  "function SCORE_MULTIPLIER() view returns (uint256)",
+  "function postReputation(address targetAgent, uint8 rating, string comment, string proofCID)",
+  "function getReputationScore(address agent) view returns (uint256 score, uint256 totalRatings)",
+  "function getRecentRatings(address agent, uint256 limit) view returns (Rating[])",
+  "function getAllRatings(address agent) view returns (Rating[])",
+  "function getRatingsCount(address agent) view returns (uint256)",
+  "function canRate(address rater, address targetAgent) view returns (bool, uint256 nextAllowedTime)",
+  "function hasBeenRated(address agent) view returns (bool)",
+]);
+
+interface AgentEntry {
+  agentCardCID: string;
+  capabilities: string[];
+}
+
+/** In-memory AgentIdentityRegistry with the deployed contract's rules and revert errors. */
+export class DevIdentityRegistry implements DevContract {
+  readonly abi = identityRegistryAbi;
+  // Insertion order is registration order, as in s_registeredAgents
+  private agents = new Map<Address, AgentEntry>();
+  private byCapability = new Map<string, Address[]>();
+
+  invoke(functionName: string, args: readonly unknown[], { sender, commit }: CallContext): unknown {
+    switch (functionName) {
+      case "registerAgent": {
+        const [cid, capabilities] = args as [string, string[]];
+        if (this.agents.has(sender)) throw this.revert("AgentAlreadyRegistered", [sender]);
+        if (!cid) throw this.revert("InvalidCID");
+        if (commit) {
+          this.agents.set(sender, { agentCardCID: cid, capabilities: [] });
+          this.addCapabilities(sender, capabilities);
+        }
+        return;
+      }
+      case "updateAgentCard": {
+        const [cid, capabilities] = args as [string, string[]];
+        const agent = this.agent(sender);
+        if (!cid) throw this.revert("InvalidCID");
+        if (commit) {
+          this.removeCapabilities(sender, agent);
+          agent.agentCardCID = cid;
+          this.addCapabilities(sender, capabilities);
+        }
+        return;
+      }
+      case "discoverAgents": {
+        const [tags, offset, limit] = args as [string[], bigint, bigint];
+        if (tags.length === 0) throw this.revert("EmptyCapabilityTags");
+        const matches = [...new Set(tags.flatMap((tag) => this.byCapability.get(tag) ?? []))];
+        const start = Number(offset);
+        const page = limit === 0n ? matches.slice(start) : matches.slice(start, start + Number(limit));
+        return [page, BigInt(matches.length)];
+      }
+      case "getAgentCard":
+        return this.agent(args[0] as Address).agentCardCID;
+      case "getAgentCapabilities":
+        return [...this.agent(args[0] as Address).capabilities];
+      case "isAgentRegistered":
+        return this.agents.has(getAddress(args[0] as Address));
+      case "getAgentsByCapability":
+        return [...(this.byCapability.get(args[0] as string) ?? [])];
+      case "getRegisteredAgentsCount":
+        return BigInt(this.agents.size);
+      case "getAllRegisteredAgents":
+        return [...this.agents.keys()];
+      case "agentHasCapability": {
+        const [address, capability] = args as [Address, string];
+        return this.agents.get(getAddress(address))?.capabilities.includes(capability) ?? false;
+      }
+      default:
+        throw new Error(`AgentIdentityRegistry has no function ${functionName}`);
+    }
+  }
+
+  private agent(address: Address): AgentEntry {
+    const agent = this.agents.get(getAddress(address));
+    if (!agent) throw this.revert("AgentNotRegistered", [getAddress(address)]);
+    return agent;
+  }
+
+  private addCapabilities(address: Address, capabilities: string[]): void {
+    const agent = this.agents.get(address)!;
+    for (const capability of capabilities) {
+      if (!capability || agent.capabilities.includes(capability)) continue;
+      agent.capabilities.push(capability);
+      this.byCapability.set(capability, [...(this.byCapability.get(capability) ?? []), address]);
+    }
+  }
+
+  private removeCapabilities(address: Address, agent: AgentEntry): void {
+    for (const capability of agent.capabilities) {
+      this.byCapability.set(capability, (this.byCapability.get(capability) ?? []).filter((a) => a !== address));
+    }
+    agent.capabilities = [];
+  }
+
+  private revert(errorName: string, args: readonly unknown[] = []) {
+    return new ContractRevert(this.abi, errorName, args);
+  }
+}
+
+interface Rating {
+  rating: number;
+  comment: string;
+  proofCID: string;
+  timestamp: bigint;
+  rater: Address;
+}
+
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+const SCORE_MULTIPLIER = 100n;
+const RATE_LIMIT_PERIOD = 24n * 60n * 60n;
+
+/** In-memory AgentReputationRegistry: 1–5 ratings, one per rater and agent per day. */
+export class DevReputationRegistry implements DevContract {
+  readonly abi = reputationRegistryAbi;
+  private ratings = new Map<Address, Rating[]>();
+  // rater → target → timestamp of the last rating
+  private lastRating = new Map<string, bigint>();
+
+  invoke(functionName: string, args: readonly unknown[], { sender, timestamp, commit }: CallContext): unknown {
+    switch (functionName) {
+      case "MAX_RATING":
+        return MAX_RATING;
+      case "MIN_RATING":
+        return MIN_RATING;
+      case "RATE_LIMIT_PERIOD":
+        return RATE_LIMIT_PERIOD;
+      case "SCORE_MULTIPLIER":
+        return SCORE_MULTIPLIER;
+      case "postReputation": {
+        const [target, rating, comment, proofCID] = args as [Address, number, string, string];
+        const agent = getAddress(target);
+        if (BigInt(agent) === 0n) throw this.revert("InvalidTargetAgent");
+        if (agent === sender) throw this.revert("CannotRateSelf");
+        if (rating < MIN_RATING || rating > MAX_RATING) throw this.revert("InvalidRating", [rating]);
+        const next = this.nextAllowedTime(sender, agent);
+        if (next !== undefined && timestamp < next) throw this.revert("RateLimitExceeded", [sender, agent, next]);
+        if (commit) {
+          this.lastRating.set(`${sender}:${agent}`, timestamp);
+          this.ratings.set(agent, [...this.ratingsOf(agent), { rating, comment, proofCID, timestamp, rater: sender }]);
+        }
+        return;
+      }
+      case "getReputationScore": {
+        const ratings = this.ratingsOf(args[0] as Address);
+        if (ratings.length === 0) return [0n, 0n];
+        const total = ratings.reduce((sum, r) => sum + BigInt(r.rating) * SCORE_MULTIPLIER, 0n);
+        return [total / BigInt(ratings.length), BigInt(ratings.length)];
+      }
+      case "getRecentRatings": {
+        const [agent, limit] = args as [Address, bigint];
+        if (limit === 0n) throw this.revert("InvalidLimit");
+        return [...this.ratingsOf(agent)].reverse().slice(0, Number(limit));
+      }
+      case "getAllRatings":
+        return this.ratingsOf(args[0] as Address);
+      case "getRatingsCount":
+        return BigInt(this.ratingsOf(args[0] as Address).length);
+      case "canRate": {
+        const [rater, target] = args as [Address, Address];
+        const next = this.nextAllowedTime(getAddress(rater), getAddress(target));
+        return next !== undefined && timestamp < next ? [false, next] : [true, 0n];
+      }
+      case "hasBeenRated":
+        return this.ratingsOf(args[0] as Address).length > 0;
+      default:
+        throw new Error(`AgentReputationRegistry has no function ${functionName}`);
+    }
+  }
+
+  private ratingsOf(agent: Address): Rating[] {
+    return this.ratings.get(getAddress(agent)) ?? [];
+  }
+
+  private nextAllowedTime(rater: Address, target: Address): bigint | undefined {
+    const last = this.lastRating.get(`${rater}:${target}`);
+    return last === undefined ? undefined : last + RATE_LIMIT_PERIOD;
+  }
+
+  private revert(errorName: string, args: readonly unknown[] = []) {
+    return new ContractRevert(this.abi, errorName, args);
+  }
+}
@@ -0,0 +1,95 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert";
+import { BaseError, ContractFunctionRevertedError, createPublicClient, createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { anvil } from "viem/chains";
+import { wrapFetchWithPayment, x402Client } from "@x402/fetch";
+import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import { toClientEvmSigner } from "@x402/evm";
+import { DEV_AGENT_A_PRIVATE_KEY, DEV_CONTRACTS, startDevStack, type DevStack } from "./stack.js";
+import { identityRegistryAbi, reputationRegistryAbi } from "./registry.js";
+import { MOCK_AGENT_B_PRICES, analyzeCsv } from "./agentB.js";
+import { parseAgentCard } from "../agents/index.js";
+
+const agentA = privateKeyToAccount(DEV_AGENT_A_PRIVATE_KEY);
+
+describe("dev stack", () => {
+  let stack: DevStack;
+  let publicClient: ReturnType<typeof createPublicClient>;
+
+  before(async () => {
+    stack = await startDevStack({ port: 0, fund: [agentA.address] });
+    publicClient = createPublicClient({ chain: anvil, transport: http(stack.url) });
+  });
+  after(() => stack.close());
+
+  it("registers the mock AgentB and serves its card from the gateway", async () => {
+    const read = { address: DEV_CONTRACTS.identityRegistry, abi: identityRegistryAbi } as const;
+    const [agents, total] = await publicClient.readContract({
+      ...read,
+      functionName: "discoverAgents",
+      args: [["csv-analysis"], 0n, 10n],
+    });
+    assert.deepStrictEqual([agents, total], [[stack.agentB], 1n]);
+    const cid = await publicClient.readContract({ ...read, functionName: "getAgentCard", args: [stack.agentB] });
+
+    const res = await fetch(`${stack.url}/ipfs/${cid}`);
+    const card = parseAgentCard(await res.json(), { legacyNetwork: stack.facilitator.network });
+    assert.strictEqual(card.endpoints["csv-analysis"], `${stack.url}/agent-b/analyze`);
+    assert.strictEqual(card.wallet, stack.agentB);
+  });
+
+  it("mines signed transactions and surfaces contract reverts", async () => {
+    const wallet = createWalletClient({ account: agentA, chain: anvil, transport: http(stack.url) });
+    const rate = { address: DEV_CONTRACTS.reputationRegistry, abi: reputationRegistryAbi, functionName: "postReputation" } as const;
+
+    const hash = await wallet.writeContract({ ...rate, args: [stack.agentB, 5, "great", ""] });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    assert.strictEqual(receipt.status, "success");
+    const score = await publicClient.readContract({
+      address: DEV_CONTRACTS.reputationRegistry,
+      abi: reputationRegistryAbi,
+      functionName: "getReputationScore",
+      args: [stack.agentB],
+    });
+    assert.strictEqual(score[0], 500n);
+
+    await assert.rejects(
+      publicClient.simulateContract({ ...rate, account: agentA, args: [stack.agentB, 4, "again", ""] }),
+      (err: unknown) => {
+        const revert = err instanceof BaseError && err.walk((e) => e instanceof ContractFunctionRevertedError);
+        assert.ok(revert instanceof ContractFunctionRevertedError);
+        assert.strictEqual(revert.data?.errorName, "RateLimitExceeded");
+        return true;
+      }
+    );
+  });
+
+  it("settles x402 payments to the mock AgentB in dev USDC", async () => {
+    const client = new x402Client();
+    registerExactEvmScheme(client, { signer: toClientEvmSigner(agentA, publicClient), networks: ["eip155:31337"] });
+    const paidFetch = wrapFetchWithPayment(fetch, client);
+    const before = stack.usdc.balanceOf(agentA.address);
+
+    const form = new FormData();
+    form.append("file", new File(["a,b\n1,2\n"], "data.csv", { type: "text/csv" }));
+    const upload = await paidFetch(`${stack.url}/agent-b/upload`, { method: "POST", body: form });
+    assert.strictEqual(upload.status, 200);
+    const { data } = (await upload.json()) as { data: { cid: string } };
+
+    const retrieved = await paidFetch(`${stack.url}/agent-b/retrieve?cid=${data.cid}`);
+    assert.strictEqual(await retrieved.text(), "a,b\n1,2\n");
+
+    const spent = MOCK_AGENT_B_PRICES.upload + MOCK_AGENT_B_PRICES.retrieve;
+    assert.strictEqual(stack.usdc.balanceOf(agentA.address), before - spent);
+    assert.strictEqual(stack.usdc.balanceOf(stack.agentB), spent);
+  });
+});
+
+describe("analyzeCsv", () => {
+  it("takes the median of even-length columns as the mean of the middle two", () => {
+    const { numericalStats } = analyzeCsv("a,b\n1,5\n3,1\n,2\n").statistics;
+    assert.strictEqual(numericalStats.a!.median, 2);
+    assert.strictEqual(numericalStats.b!.median, 2);
+  });
+});
@@ -0,0 +1,156 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { encodeFunctionData, parseEther, parseUnits, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { HealthCheck } from "../health/index.js";
+import { DevChain, RpcError } from "./chain.js";
+import { DevIdentityRegistry, DevReputationRegistry, identityRegistryAbi } from "./registry.js";
+import { DevUsdc, USDC_DECIMALS } from "./usdc.js";
+import { MemoryStorage, type StorageProvider } from "../storage/index.js";
+import { gatewayRouter } from "./gateway.js";
+import { LocalFacilitator, facilitatorRouter } from "./facilitator.js";
+import { MOCK_AGENT_B_CAPABILITIES, mockAgentBRouter, mockAgentCard } from "./agentB.js";
+
+export const DEFAULT_DEV_STACK_PORT = 8545;
+
+/** Anvil's well-known account #0 — AgentA's wallet in dev mode unless one is configured */
+export const DEV_AGENT_A_PRIVATE_KEY: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+// Anvil accounts #1 (AgentB) and #2 (facilitator relayer)
+const DEV_AGENT_B_PRIVATE_KEY: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const DEV_RELAYER: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+/** Where the dev contracts live: the first CREATE addresses of Anvil account #0 */
+export const DEV_CONTRACTS = {
+  identityRegistry: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  reputationRegistry: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+  usdc: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
+} as const satisfies Record<string, Address>;
+
+const STARTING_ETH = parseEther("100");
+const STARTING_USDC = parseUnits("1000", USDC_DECIMALS);
+
+/** URLs the coordinator config points at when the dev stack listens on `port`. */
+export function devStackUrls(port: number, host = "127.0.0.1") {
+  const url = `http://${host}:${port}`;
+  return { url, rpcUrl: url, gatewayUrl: url, facilitatorUrl: `${url}/facilitator`, agentBUrl: `${url}/agent-b` };
+}
+
+export interface DevStackOptions {
+  port?: number;
+  host?: string;
+  /** Accounts given 100 ETH and 1000 USDC — AgentA's wallet */
+  fund?: Address[];
+  /** Backs the gateway and the mock AgentB; an in-memory store by default */
+  storage?: StorageProvider;
+}
+
+export interface DevStack {
+  url: string;
+  chain: DevChain;
+  usdc: DevUsdc;
+  identityRegistry: DevIdentityRegistry;
+  reputationRegistry: DevReputationRegistry;
+  storage: StorageProvider;
+  facilitator: LocalFacilitator;
+  /** The mock AgentB's wallet, registered for its capabilities at startup */
+  agentB: Address;
+  close(): Promise<void>;
+}
+
+/** JSON-RPC over HTTP (single and batch requests) in front of a DevChain. */
+function rpcHandler(chain: DevChain): express.RequestHandler {
+  const answer = async (call: { id?: unknown; method?: string; params?: unknown[] }) => {
+    const id = call.id ?? null;
+    try {
+      if (typeof call.method !== "string") throw new RpcError(-32600, "invalid request");
+      return { jsonrpc: "2.0", id, result: await chain.request({ method: call.method, params: call.params ?? [] }) };
+    } catch (err) {
+      const { code, message, data } = err instanceof RpcError ? err : new RpcError(-32603, (err as Error).message);
+      return { jsonrpc: "2.0", id, error: { code, message, ...(data && { data }) } };
+    }
+  };
+  return async (req, res) => {
+    const body = req.body as unknown;
+    res.json(Array.isArray(body) ? await Promise.all(body.map(answer)) : await answer(body as { method?: string }));
+  };
+}
+
+/**
+ * Start the offline stand-ins for everything the pipeline talks to, on one
+ * HTTP port: the dev chain's JSON-RPC at `/` (ERC-8004 registries and USDC
+ * deployed at DEV_CONTRACTS), an IPFS gateway at `/ipfs/:cid`, the x402
+ * facilitator at `/facilitator` and a mock AgentB at `/agent-b` — already
+ * registered on the identity registry, with its agent card in `storage`.
+ */
+export async function startDevStack(options: DevStackOptions = {}): Promise<DevStack> {
+  const { port = DEFAULT_DEV_STACK_PORT, host = "127.0.0.1", fund = [] } = options;
+
+  const chain = new DevChain();
+  const usdc = new DevUsdc(DEV_CONTRACTS.usdc, chain.chainId);
+  const identityRegistry = new DevIdentityRegistry();
+  const reputationRegistry = new DevReputationRegistry();
+  chain.deploy(DEV_CONTRACTS.usdc, usdc);
+  chain.deploy(DEV_CONTRACTS.identityRegistry, identityRegistry);
+  chain.deploy(DEV_CONTRACTS.reputationRegistry, reputationRegistry);
+
+  const agentB = privateKeyToAccount(DEV_AGENT_B_PRIVATE_KEY).address;
+  for (const account of [...fund, agentB, DEV_RELAYER]) chain.fund(account, STARTING_ETH);
+  for (const account of fund) usdc.mint(account, STARTING_USDC);
+
+  const storage = options.storage ?? new MemoryStorage();
+  const facilitator = new LocalFacilitator(chain, usdc, DEV_RELAYER);
+
+  const app = express();
+  app.post("/", express.json({ limit: "5mb" }), rpcHandler(chain));
+  app.use(gatewayRouter(storage));
+  app.use("/facilitator", facilitatorRouter(facilitator));
+  app.use(
+    "/agent-b",
+    mockAgentBRouter({ storage, facilitator, network: facilitator.network, usdcAddress: usdc.address, payTo: agentB })
+  );
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listening = app.listen(port, host, () => resolve(listening));
+    listening.once("error", (err: NodeJS.ErrnoException) =>
+      reject(err.code === "EADDRINUSE" ? new Error(`Dev stack port ${port} is in use — set DEV_STACK_PORT`) : err)
+    );
+  });
+  // Port 0 picks a free port; the agent card has to name the real one
+  const urls = devStackUrls((server.address() as AddressInfo).port, host);
+
+  // AgentB publishes its card and registers, exactly as register-services does on a real chain
+  const card = new Blob([JSON.stringify(mockAgentCard(urls.agentBUrl, agentB, facilitator.network))], { type: "application/json" });
+  const cardCID = await storage.upload(card);
+  await chain.transact({
+    from: agentB,
+    to: DEV_CONTRACTS.identityRegistry,
+    data: encodeFunctionData({
+      abi: identityRegistryAbi,
+      functionName: "registerAgent",
+      args: [cardCID, MOCK_AGENT_B_CAPABILITIES],
+    }),
+  });
+
+  return {
+    url: urls.url,
+    chain,
+    usdc,
+    identityRegistry,
+    reputationRegistry,
+    storage,
+    facilitator,
+    agentB,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+/** The dev chain, reported next to the storage probe in dev mode. */
+export function devStackCheck(stack: DevStack): HealthCheck {
+  return {
+    name: "devStack",
+    async run() {
+      return { details: { url: stack.url, blockNumber: stack.chain.blockNumber.toString() } };
+    },
+  };
+}
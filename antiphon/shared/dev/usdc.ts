@@ -0,0 +1,123 @@
+import { getAddress, parseAbi, recoverTypedDataAddress, type Address, type Hex } from "viem";
+import { ContractRevert, type CallContext, type DevContract } from "./contract.js";
+
+export const USDC_NAME = "USD Coin";
+/** EIP-712 domain version of FiatTokenV2, which x402 payment requirements advertise */
+export const USDC_VERSION = "2";
+export const USDC_DECIMALS = 6;
+
+/** The ERC-20 and EIP-3009 parts of FiatTokenV2 that x402 and the health probes use. */
+export const usdcAbi = parseAbi([
+  "error Error(string message)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function version() view returns (string)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function transfer(address to, uint256 value) returns (bool)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+]);
+
+export const transferWithAuthorizationTypes = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+/** In-memory USDC: balances, transfers and EIP-3009 transferWithAuthorization with FiatTokenV2's checks. */
+export class DevUsdc implements DevContract {
+  readonly abi = usdcAbi;
+  private balances = new Map<Address, bigint>();
+  private usedAuthorizations = new Set<string>();
+  private supply = 0n;
+
+  constructor(
+    readonly address: Address,
+    private readonly chainId: number
+  ) {}
+
+  /** EIP-712 domain transfer authorizations are signed against */
+  get domain() {
+    return { name: USDC_NAME, version: USDC_VERSION, chainId: this.chainId, verifyingContract: this.address };
+  }
+
+  /** Seed a balance; not part of the ABI. */
+  mint(to: Address, amount: bigint): void {
+    const account = getAddress(to);
+    this.balances.set(account, this.balanceOf(account) + amount);
+    this.supply += amount;
+  }
+
+  balanceOf(account: Address): bigint {
+    return this.balances.get(getAddress(account)) ?? 0n;
+  }
+
+  isAuthorizationUsed(authorizer: Address, nonce: Hex): boolean {
+    return this.usedAuthorizations.has(`${getAddress(authorizer)}:${nonce.toLowerCase()}`);
+  }
+
+  async invoke(functionName: string, args: readonly unknown[], ctx: CallContext): Promise<unknown> {
+    switch (functionName) {
+      case "name":
+        return USDC_NAME;
+      case "symbol":
+        return "USDC";
+      case "decimals":
+        return USDC_DECIMALS;
+      case "version":
+        return USDC_VERSION;
+      case "totalSupply":
+        return this.supply;
+      case "balanceOf":
+        return this.balanceOf(args[0] as Address);
+      case "authorizationState": {
+        const [authorizer, nonce] = args as [Address, Hex];
+        return this.isAuthorizationUsed(authorizer, nonce);
+      }
+      case "transfer": {
+        const [to, value] = args as [Address, bigint];
+        this.move(ctx.sender, to, value, ctx.commit);
+        return true;
+      }
+      case "transferWithAuthorization": {
+        const [from, to, value, validAfter, validBefore, nonce, v, r, s] =
+          args as [Address, Address, bigint, bigint, bigint, Hex, number, Hex, Hex];
+        const signer = await recoverTypedDataAddress({
+          domain: this.domain,
+          types: transferWithAuthorizationTypes,
+          primaryType: "TransferWithAuthorization",
+          message: { from, to, value, validAfter, validBefore, nonce },
+          signature: { r, s, v: BigInt(v) },
+        });
+        if (ctx.timestamp <= validAfter) throw this.revert("FiatTokenV2: authorization is not yet valid");
+        if (ctx.timestamp >= validBefore) throw this.revert("FiatTokenV2: authorization is expired");
+        if (this.isAuthorizationUsed(from, nonce)) throw this.revert("FiatTokenV2: authorization is used or canceled");
+        if (signer !== getAddress(from)) throw this.revert("FiatTokenV2: invalid signature");
+        this.move(from, to, value, ctx.commit);
+        if (ctx.commit) this.usedAuthorizations.add(`${getAddress(from)}:${nonce.toLowerCase()}`);
+        return;
+      }
+      default:
+        throw new Error(`USDC has no function ${functionName}`);
+    }
+  }
+
+  private move(from: Address, to: Address, value: bigint, commit: boolean): void {
+    const balance = this.balanceOf(from);
+    if (balance < value) throw this.revert("ERC20: transfer amount exceeds balance");
+    if (!commit) return;
+    this.balances.set(getAddress(from), balance - value);
+    this.balances.set(getAddress(to), this.balanceOf(to) + value);
+  }
+
+  private revert(reason: string) {
+    return new ContractRevert(this.abi, "Error", [reason]);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import type { AgentCard } from "../agents/index.js";
+import { HealthMonitor, runHealthChecks, type HealthCheck } from "./checks.js";
+import { contractCodeCheck, providersCheck, rpcCheck } from "./probes.js";
+
+const ok = (name: string, critical = false): HealthCheck => ({ name, critical, run: async () => ({}) });
+const down = (name: string, critical = false): HealthCheck => ({
+  name,
+  critical,
+  run: async () => {
+    throw new Error(`${name} unreachable`);
+  },
+});
+
+describe("runHealthChecks", () => {
+  it("reports ok, degraded or down from component results", async () => {
+    assert.strictEqual((await runHealthChecks([ok("rpc", true), ok("storacha")])).status, "ok");
+    assert.strictEqual((await runHealthChecks([ok("rpc", true), down("storacha")])).status, "degraded");
+
+    const report = await runHealthChecks([down("rpc", true), ok("storacha")]);
+    assert.strictEqual(report.status, "down");
+    assert.strictEqual(report.components[0]?.error, "rpc unreachable");
+    assert.ok(report.components.every((c) => c.latencyMs >= 0));
+  });
+
+  it("marks a check that exceeds the timeout down and aborts it", async () => {
+    let aborted = false;
+    const slow: HealthCheck = {
+      name: "slow",
+      run: (signal) =>
+        new Promise(() => {
+          signal.addEventListener("abort", () => (aborted = true));
+        }),
+    };
+    const report = await runHealthChecks([slow], { timeoutMs: 20 });
+    assert.strictEqual(report.components[0]?.status, "down");
+    assert.match(report.components[0]?.error ?? "", /timed out/);
+    assert.ok(aborted);
+  });
+});
+
+describe("HealthMonitor", () => {
+  it("reuses a report within cacheMs", async () => {
+    let runs = 0;
+    const counted: HealthCheck = { name: "counted", run: async () => (runs++, {}) };
+    const monitor = new HealthMonitor([counted], { cacheMs: 60_000 });
+    await Promise.all([monitor.report(), monitor.report()]);
+    await monitor.report();
+    assert.strictEqual(runs, 1);
+  });
+});
+
+describe("probes", () => {
+  it("rpcCheck fails on the wrong chain", async () => {
+    const client = { getChainId: async () => 1, getBlockNumber: async () => 100n };
+    const result = await rpcCheck(client, 84532).run(new AbortController().signal);
+    assert.strictEqual(result.status, "down");
+    assert.deepStrictEqual(result.details, { chainId: 1, expectedChainId: 84532, blockNumber: "100" });
+  });
+
+  it("contractCodeCheck needs deployed code", async () => {
+    const signal = new AbortController().signal;
+    const empty = { getCode: async () => undefined };
+    const deployed = { getCode: async () => "0x6080" as const };
+    const address = "0x0000000000000000000000000000000000000001";
+    assert.strictEqual((await contractCodeCheck("identityRegistry", empty, address).run(signal)).status, "down");
+    assert.deepStrictEqual(await contractCodeCheck("identityRegistry", deployed, address).run(signal), {
+      details: { address, codeBytes: 2 },
+    });
+    assert.strictEqual((await contractCodeCheck("identityRegistry", deployed, "").run(signal)).status, "down");
+  });
+
+  it("providersCheck probes the card endpoint for its own capability", async () => {
+    // Any status short of a 5xx counts as reachable, like an x402 challenge
+    const server = createServer((req, res) => res.writeHead(req.url === "/retrieve" ? 402 : 500).end());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const card = { endpoints: { "file-storage": `${base}/upload`, "file-retrieval": `${base}/retrieve` } } as unknown as AgentCard;
+    const provider = { address: "0x0000000000000000000000000000000000000001", agentCardCID: "bafycard" };
+    try {
+      const check = providersCheck("file-retrieval", async () => [provider], async () => card);
+      const result = await check.run(new AbortController().signal);
+      assert.strictEqual(check.name, "providers:file-retrieval");
+      assert.strictEqual(result.status, undefined);
+      assert.deepStrictEqual(
+        (result.details?.providers as { endpoint: string; status: number }[]).map((p) => [p.endpoint, p.status]),
+        [[`${base}/retrieve`, 402]]
+      );
+
+      const missing = providersCheck("csv-analysis", async () => [provider], async () => card);
+      const missingResult = await missing.run(new AbortController().signal);
+      assert.strictEqual(missingResult.status, "down");
+      assert.match(JSON.stringify(missingResult.details), /agent card has no csv-analysis endpoint/);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,110 @@
+export type HealthStatus = "ok" | "degraded" | "down";
+
+/** Outcome of one probe; status defaults to ok when the probe resolves. */
+export interface CheckResult {
+  status?: HealthStatus;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface HealthCheck {
+  name: string;
+  /** A critical component being down takes the whole service down */
+  critical?: boolean;
+  run(signal: AbortSignal): Promise<CheckResult>;
+}
+
+export interface ComponentHealth {
+  name: string;
+  status: HealthStatus;
+  critical: boolean;
+  latencyMs: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  components: ComponentHealth[];
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/** down if a critical component is down, degraded if anything else is off, else ok. */
+export function overallStatus(components: ComponentHealth[]): HealthStatus {
+  if (components.some((c) => c.critical && c.status === "down")) return "down";
+  if (components.some((c) => c.status !== "ok")) return "degraded";
+  return "ok";
+}
+
+async function runCheck(check: HealthCheck, timeoutMs: number): Promise<ComponentHealth> {
+  const controller = new AbortController();
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  const component: ComponentHealth = { name: check.name, status: "ok", critical: !!check.critical, latencyMs: 0 };
+  try {
+    const result = await Promise.race([check.run(controller.signal), timeout]);
+    component.status = result.status ?? "ok";
+    if (result.details) component.details = result.details;
+    if (result.error) component.error = result.error;
+  } catch (err) {
+    component.status = "down";
+    component.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    clearTimeout(timer);
+  }
+  component.latencyMs = Date.now() - started;
+  return component;
+}
+
+/** Runs every check in parallel, each bounded by `timeoutMs`. */
+export async function runHealthChecks(
+  checks: HealthCheck[],
+  { timeoutMs = DEFAULT_TIMEOUT_MS }: { timeoutMs?: number } = {}
+): Promise<HealthReport> {
+  const components = await Promise.all(checks.map((c) => runCheck(c, timeoutMs)));
+  return { status: overallStatus(components), checkedAt: new Date().toISOString(), components };
+}
+
+export interface HealthMonitorOptions {
+  /** Per-check timeout */
+  timeoutMs?: number;
+  /** Reuse a report this long so frequent polling doesn't hammer RPC and providers */
+  cacheMs?: number;
+}
+
+/** Serves cached health reports; concurrent callers share one in-flight run. */
+export class HealthMonitor {
+  private last: { report: HealthReport; at: number } | null = null;
+  private inFlight: Promise<HealthReport> | null = null;
+
+  constructor(
+    private checks: HealthCheck[],
+    private options: HealthMonitorOptions = {}
+  ) {}
+
+  report(): Promise<HealthReport> {
+    const cacheMs = this.options.cacheMs ?? 0;
+    if (this.last && Date.now() - this.last.at < cacheMs) return Promise.resolve(this.last.report);
+    if (!this.inFlight) {
+      const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      this.inFlight = runHealthChecks(this.checks, { timeoutMs })
+        .then((report) => {
+          this.last = { report, at: Date.now() };
+          return report;
+        })
+        .finally(() => {
+          this.inFlight = null;
+        });
+    }
+    return this.inFlight;
+  }
+}
@@ -0,0 +1,11 @@
+export { runHealthChecks, overallStatus, HealthMonitor } from "./checks.js";
+export type {
+  HealthStatus,
+  HealthCheck,
+  CheckResult,
+  ComponentHealth,
+  HealthReport,
+  HealthMonitorOptions,
+} from "./checks.js";
+export { rpcCheck, contractCodeCheck, storageCheck, walletCheck, providersCheck } from "./probes.js";
+export type { RegisteredProvider, AgentCardLoader } from "./probes.js";
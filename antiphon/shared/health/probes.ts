@@ -0,0 +1,145 @@
+import { erc20Abi, formatEther, formatUnits, type Address, type PublicClient } from "viem";
+import type { AgentCard } from "../agents/index.js";
+import type { StorageProvider } from "../storage/index.js";
+import type { CheckResult, HealthCheck } from "./checks.js";
+
+const MAX_PROVIDERS_PROBED = 10;
+
+/** RPC answers and is on the expected chain. */
+export function rpcCheck(
+  client: Pick<PublicClient, "getChainId" | "getBlockNumber">,
+  expectedChainId: number
+): HealthCheck {
+  return {
+    name: "rpc",
+    critical: true,
+    async run() {
+      const [chainId, blockNumber] = await Promise.all([client.getChainId(), client.getBlockNumber()]);
+      const details = { chainId, expectedChainId, blockNumber: blockNumber.toString() };
+      if (chainId !== expectedChainId) {
+        return { status: "down", details, error: `RPC is on chain ${chainId}, expected ${expectedChainId}` };
+      }
+      return { details };
+    },
+  };
+}
+
+/** A registry address is configured and has contract code deployed. */
+export function contractCodeCheck(
+  name: string,
+  client: Pick<PublicClient, "getCode">,
+  address: string | undefined,
+  critical = false
+): HealthCheck {
+  return {
+    name,
+    critical,
+    async run() {
+      if (!address) return { status: "down", error: "address not configured" };
+      const code = await client.getCode({ address: address as Address });
+      const codeBytes = code && code !== "0x" ? (code.length - 2) / 2 : 0;
+      if (codeBytes === 0) return { status: "down", details: { address }, error: "no contract code at address" };
+      return { details: { address, codeBytes } };
+    },
+  };
+}
+
+/** The configured storage backend is up; details are whatever it describes about itself. */
+export function storageCheck(storage: Pick<StorageProvider, "describe"> | null): HealthCheck {
+  return {
+    name: "storage",
+    async run() {
+      if (!storage) return { status: "down", error: "storage backend not initialised" };
+      return { details: await storage.describe() };
+    },
+  };
+}
+
+/** AgentA has gas for reputation posts and USDC for x402 payments. */
+export function walletCheck(
+  client: Pick<PublicClient, "getBalance" | "readContract">,
+  address: Address | undefined,
+  usdcAddress: Address
+): HealthCheck {
+  return {
+    name: "wallet",
+    async run() {
+      if (!address) return { status: "down", error: "AGENT_A_PRIVATE_KEY not set" };
+      const [eth, usdc] = await Promise.all([
+        client.getBalance({ address }),
+        client.readContract({ address: usdcAddress, abi: erc20Abi, functionName: "balanceOf", args: [address] }),
+      ]);
+      const details = { address, eth: formatEther(eth), usdc: formatUnits(usdc, 6) };
+      const empty = [eth === 0n && "ETH", usdc === 0n && "USDC"].filter(Boolean);
+      if (empty.length) return { status: "degraded", details, error: `no ${empty.join(" or ")} balance` };
+      return { details };
+    },
+  };
+}
+
+export interface RegisteredProvider {
+  address: string;
+  agentCardCID: string;
+}
+
+/** Fetches and validates an agent card by CID; throws for unusable cards. */
+export type AgentCardLoader = (cid: string, signal: AbortSignal) => Promise<AgentCard>;
+
+interface ProviderProbe {
+  address: string;
+  endpoint?: string;
+  reachable: boolean;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+async function probeProvider(
+  provider: RegisteredProvider,
+  capability: string,
+  signal: AbortSignal,
+  loadCard: AgentCardLoader
+): Promise<ProviderProbe> {
+  const started = Date.now();
+  const probe: ProviderProbe = { address: provider.address, reachable: false, latencyMs: 0 };
+  try {
+    const card = await loadCard(provider.agentCardCID, signal);
+    const endpoint = card.endpoints[capability];
+    if (!endpoint) throw new Error(`agent card has no ${capability} endpoint`);
+    probe.endpoint = endpoint;
+
+    // Any answer short of a 5xx (402, 404, 405…) means the server is up
+    const response = await fetch(endpoint, { method: "GET", signal });
+    await response.body?.cancel();
+    probe.status = response.status;
+    probe.reachable = response.status < 500;
+  } catch (err) {
+    probe.error = err instanceof Error ? err.message : String(err);
+  }
+  probe.latencyMs = Date.now() - started;
+  return probe;
+}
+
+/** Providers registered on-chain for `capability` resolve to reachable endpoints. */
+export function providersCheck(
+  capability: string,
+  listProviders: (capability: string) => Promise<RegisteredProvider[]>,
+  loadCard: AgentCardLoader
+): HealthCheck {
+  return {
+    name: `providers:${capability}`,
+    async run(signal): Promise<CheckResult> {
+      const registered = await listProviders(capability);
+      if (registered.length === 0) return { status: "down", error: "no providers registered on-chain" };
+
+      const providers = await Promise.all(
+        registered.slice(0, MAX_PROVIDERS_PROBED).map((p) => probeProvider(p, capability, signal, loadCard))
+      );
+      const reachable = providers.filter((p) => p.reachable).length;
+      const details = { registered: registered.length, reachable, providers };
+      if (reachable === 0) return { status: "down", details, error: "no registered provider is reachable" };
+      if (reachable < providers.length) return { status: "degraded", details };
+      return { details };
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { InvalidCidError, parseCid } from "./cid.js";
+
+describe("parseCid", () => {
+  it("accepts CIDv0 and CIDv1 strings", () => {
+    assert.strictEqual(parseCid("QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG").version, 0);
+    assert.strictEqual(
+      parseCid(" bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi ").version,
+      1
+    );
+  });
+
+  it("rejects malformed input with InvalidCidError", () => {
+    assert.throws(() => parseCid(""), InvalidCidError);
+    assert.throws(() => parseCid("bafy-not-a-cid"), InvalidCidError);
+    assert.throws(() => parseCid("0x1234"), InvalidCidError);
+    assert.throws(() => parseCid(123), /must be a string/);
+    assert.throws(() => parseCid({ "/": "bafy" }), InvalidCidError);
+  });
+});
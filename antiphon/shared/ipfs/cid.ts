@@ -0,0 +1,46 @@
+import { CID } from "multiformats/cid";
+import { equals } from "multiformats/bytes";
+import { identity } from "multiformats/hashes/identity";
+import { sha256, sha512 } from "multiformats/hashes/sha2";
+
+export class InvalidCidError extends Error {
+  constructor(readonly input: string, reason: string) {
+    super(`Invalid CID "${input}": ${reason}`);
+    this.name = "InvalidCidError";
+  }
+}
+
+/** Bytes a gateway returned don't hash to the CID they were requested by. */
+export class CidMismatchError extends Error {
+  constructor(readonly cid: string, reason: string) {
+    super(`Content for ${cid} failed verification: ${reason}`);
+    this.name = "CidMismatchError";
+  }
+}
+
+/** Parse a CIDv0 (`Qm…`) or CIDv1 string; throws InvalidCidError otherwise, non-strings included. */
+export function parseCid(input: unknown): CID {
+  if (typeof input !== "string") throw new InvalidCidError(String(input), "must be a string");
+  const trimmed = input.trim();
+  if (!trimmed) throw new InvalidCidError(input, "empty");
+  try {
+    return CID.parse(trimmed);
+  } catch (err) {
+    throw new InvalidCidError(input, (err as Error).message);
+  }
+}
+
+const HASHERS = new Map<number, typeof sha256 | typeof sha512>([sha256, sha512].map((hasher) => [hasher.code, hasher]));
+
+/** Check that `block` is exactly the block `cid` names; throws CidMismatchError otherwise. */
+export async function verifyBlock(cid: CID, block: Uint8Array): Promise<void> {
+  const { code, digest } = cid.multihash;
+  if (code === identity.code) {
+    if (!equals(digest, block)) throw new CidMismatchError(cid.toString(), "identity digest differs from the bytes");
+    return;
+  }
+  const hasher = HASHERS.get(code);
+  if (!hasher) throw new CidMismatchError(cid.toString(), `unsupported hash function 0x${code.toString(16)}`);
+  const actual = await hasher.digest(block);
+  if (!equals(actual.digest, digest)) throw new CidMismatchError(cid.toString(), `${hasher.name} digest differs`);
+}
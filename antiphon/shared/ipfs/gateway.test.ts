@@ -0,0 +1,45 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { probeGateway } from "./gateway.js";
+
+describe("probeGateway", () => {
+  let server: Server;
+  let gateway: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/ipfs/present") {
+        res.writeHead(200, { "content-type": "text/csv", "content-length": "42" });
+        res.end();
+      } else if (req.url === "/ipfs/nohead") {
+        if (req.method === "HEAD") res.writeHead(405).end();
+        else res.writeHead(206, { "content-type": "text/csv" }).end("a");
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    gateway = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("reports a reachable CID with its content type and size", async () => {
+    const result = await probeGateway("present", { gateway });
+    assert.deepStrictEqual(result, { reachable: true, status: 200, contentType: "text/csv", contentLength: 42 });
+  });
+
+  it("falls back to a ranged GET when HEAD is refused", async () => {
+    const result = await probeGateway("nohead", { gateway });
+    assert.strictEqual(result.reachable, true);
+    assert.strictEqual(result.status, 206);
+  });
+
+  it("reports a missing CID as unreachable", async () => {
+    const result = await probeGateway("missing", { gateway });
+    assert.strictEqual(result.reachable, false);
+    assert.strictEqual(result.status, 404);
+  });
+});
@@ -0,0 +1,49 @@
+export const DEFAULT_GATEWAY = "https://w3s.link";
+const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+/** Path-style gateway URL for `cid`. */
+export function gatewayUrl(cid: string, gateway: string = DEFAULT_GATEWAY): string {
+  return `${gateway.replace(/\/+$/, "")}/ipfs/${cid}`;
+}
+
+export interface ProbeOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  gateway?: string;
+}
+
+export interface ProbeResult {
+  reachable: boolean;
+  status?: number;
+  contentType?: string;
+  contentLength?: number;
+  error?: string;
+}
+
+/**
+ * Check that the gateway can serve `cid` without downloading it: a HEAD
+ * request, falling back to a one-byte ranged GET for gateways that refuse HEAD.
+ * A caller abort propagates; a timeout or network failure is reported as unreachable.
+ */
+export async function probeGateway(cid: string, options: ProbeOptions = {}): Promise<ProbeResult> {
+  const url = gatewayUrl(cid, options.gateway);
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  try {
+    let res = await fetch(url, { method: "HEAD", signal });
+    if (res.status === 405 || res.status === 501) {
+      res = await fetch(url, { headers: { Range: "bytes=0-0" }, signal });
+      await res.body?.cancel();
+    }
+    const result: ProbeResult = { reachable: res.ok, status: res.status };
+    const contentType = res.headers.get("content-type");
+    const contentLength = res.headers.get("content-length");
+    if (contentType) result.contentType = contentType;
+    if (contentLength && res.status !== 206) result.contentLength = Number(contentLength);
+    return result;
+  } catch (err) {
+    if (options.signal?.aborted) throw err;
+    return { reachable: false, error: timeout.aborted ? "timed out" : (err as Error).message };
+  }
+}
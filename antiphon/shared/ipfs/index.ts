@@ -0,0 +1,5 @@
+export { parseCid, verifyBlock, InvalidCidError, CidMismatchError } from "./cid.js";
+export { probeGateway, gatewayUrl, DEFAULT_GATEWAY } from "./gateway.js";
+export type { ProbeOptions, ProbeResult } from "./gateway.js";
+export { GatewayRetriever, GatewayRetrievalError } from "./retrieve.js";
+export type { RetrieverOptions, RetrievedContent, GatewayFailure } from "./retrieve.js";
@@ -0,0 +1,152 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+import { InvalidCidError } from "./cid.js";
+import { GatewayRetrievalError, GatewayRetriever } from "./retrieve.js";
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+/** Just enough protobuf to build dag-pb fixtures. */
+function varint(n: number): number[] {
+  const out: number[] = [];
+  for (; n >= 0x80; n = Math.floor(n / 128)) out.push((n & 0x7f) | 0x80);
+  out.push(n);
+  return out;
+}
+const bytesField = (field: number, bytes: Uint8Array) => [...varint(field * 8 + 2), ...varint(bytes.length), ...bytes];
+
+function dagPb(type: number, data: Uint8Array | undefined, links: Array<{ cid: CID; name?: string }> = []): Uint8Array {
+  const unixfs = new Uint8Array([...varint(1 * 8), ...varint(type), ...(data ? bytesField(2, data) : [])]);
+  return new Uint8Array([
+    ...links.flatMap(({ cid, name }) =>
+      bytesField(2, new Uint8Array([...bytesField(1, cid.bytes), ...(name ? bytesField(2, utf8(name)) : [])]))
+    ),
+    ...bytesField(1, unixfs),
+  ]);
+}
+
+describe("GatewayRetriever", () => {
+  const blocks = new Map<string, Uint8Array>();
+  const servers: Server[] = [];
+
+  async function put(block: Uint8Array, code: number = raw.code, version: 0 | 1 = 1): Promise<CID> {
+    const digest = await sha256.digest(block);
+    const cid = version === 0 ? CID.createV0(digest) : CID.create(1, code, digest);
+    blocks.set(cid.toString(), block);
+    return cid;
+  }
+
+  /** A gateway that serves `blocks`, optionally lying or stalling. */
+  async function gateway(behaviour: "honest" | "tampering" | "stalling" | "missing") {
+    const server = createServer((req, res) => {
+      const cid = /^\/ipfs\/([^/?]+)/.exec(req.url ?? "")?.[1] ?? "";
+      if (behaviour === "stalling") return;
+      const block = blocks.get(cid);
+      if (!block || behaviour === "missing") return void res.writeHead(404).end();
+      res.writeHead(200, { "content-type": "application/vnd.ipld.raw" });
+      res.end(behaviour === "tampering" ? Buffer.from("tampered") : Buffer.from(block));
+    });
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  let honest: string;
+  let tampering: string;
+  let stalling: string;
+  let missing: string;
+
+  before(async () => {
+    [honest, tampering, stalling, missing] = await Promise.all([
+      gateway("honest"),
+      gateway("tampering"),
+      gateway("stalling"),
+      gateway("missing"),
+    ]);
+  });
+
+  after(async () => {
+    for (const server of servers) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("returns raw blocks that hash to the CID", async () => {
+    const cid = await put(utf8('{"name":"AgentB"}'));
+    const retriever = new GatewayRetriever({ gateways: [honest] });
+
+    const content = await retriever.retrieve(cid.toString());
+    assert.strictEqual(text(content.bytes), '{"name":"AgentB"}');
+    assert.strictEqual(content.gateway, honest);
+    assert.deepStrictEqual(await retriever.json(cid.toString()), { name: "AgentB" });
+  });
+
+  it("skips gateways that serve the wrong bytes or time out", async () => {
+    const cid = await put(utf8("a,b\n1,2\n"));
+    const retriever = new GatewayRetriever({ gateways: [tampering, stalling, honest], timeoutMs: 200, race: 1 });
+
+    const content = await retriever.retrieve(cid.toString());
+    assert.strictEqual(text(content.bytes), "a,b\n1,2\n");
+    assert.strictEqual(content.gateway, honest);
+  });
+
+  it("races gateways and takes the first verified answer", async () => {
+    const cid = await put(utf8("raced"));
+    const retriever = new GatewayRetriever({ gateways: [stalling, honest], timeoutMs: 5_000, race: 2 });
+
+    const started = Date.now();
+    const content = await retriever.retrieve(cid.toString());
+    assert.strictEqual(content.gateway, honest);
+    assert.ok(Date.now() - started < 5_000);
+  });
+
+  it("reassembles and verifies chunked UnixFS files and resolves directory paths", async () => {
+    const first = await put(utf8("a,b\n"));
+    const second = await put(utf8("1,2\n"));
+    const file = await put(dagPb(2, undefined, [{ cid: first }, { cid: second }]), 0x70);
+    const small = await put(dagPb(2, utf8("inline")), 0x70, 0);
+    const dir = await put(dagPb(1, undefined, [{ cid: file, name: "data.csv" }, { cid: small, name: "note.txt" }]), 0x70);
+    const retriever = new GatewayRetriever({ gateways: [honest] });
+
+    assert.strictEqual(text((await retriever.retrieve(file.toString())).bytes), "a,b\n1,2\n");
+    assert.match(small.toString(), /^Qm/);
+    assert.strictEqual(text((await retriever.retrieve(small.toString())).bytes), "inline");
+    assert.strictEqual(text((await retriever.retrieve(`${dir}/data.csv`)).bytes), "a,b\n1,2\n");
+    await assert.rejects(retriever.retrieve(dir.toString()), /is a UnixFS directory, not a file/);
+    await assert.rejects(
+      retriever.retrieve(`${dir}/missing.csv`),
+      (err: unknown) => err instanceof GatewayRetrievalError && err.notFound
+    );
+  });
+
+  it("reports every gateway's failure when none can serve the CID", async () => {
+    const cid = await put(utf8("unlucky"));
+    const retriever = new GatewayRetriever({ gateways: [tampering, missing], race: 2 });
+
+    await assert.rejects(retriever.retrieve(cid.toString()), (err: unknown) => {
+      assert.ok(err instanceof GatewayRetrievalError);
+      assert.deepStrictEqual(err.failures.map((f) => f.gateway).sort(), [missing, tampering].sort());
+      assert.match(err.message, /sha2-256 digest differs/);
+      assert.strictEqual(err.notFound, false);
+      return true;
+    });
+    await assert.rejects(retriever.retrieve("not-a-cid"), InvalidCidError);
+  });
+
+  it("stops when the caller aborts", async () => {
+    const cid = await put(utf8("slow"));
+    const retriever = new GatewayRetriever({ gateways: [stalling] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(retriever.retrieve(cid.toString(), { signal: controller.signal }), (err: unknown) => {
+      return !(err instanceof GatewayRetrievalError);
+    });
+  });
+});
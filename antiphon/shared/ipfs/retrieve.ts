@@ -0,0 +1,198 @@
+import type { CID } from "multiformats/cid";
+import { tracer } from "../tracing/index.js";
+import { parseCid, verifyBlock } from "./cid.js";
+import { gatewayUrl } from "./gateway.js";
+import { decodePbNode, decodeUnixFs, UNIXFS_TYPE, type PbLink } from "./unixfs.js";
+
+const DAG_PB_CODE = 0x70;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RACE = 2;
+
+export interface RetrieverOptions {
+  /** Gateway roots in order of preference, e.g. `https://w3s.link` */
+  gateways: string[];
+  /** Per-gateway request timeout */
+  timeoutMs?: number;
+  /** Gateways asked at once; the next one in the list starts as soon as one fails */
+  race?: number;
+}
+
+export interface RetrievedContent {
+  cid: string;
+  bytes: Uint8Array;
+  /** Gateway that served the root block */
+  gateway: string;
+}
+
+export interface GatewayFailure {
+  gateway: string;
+  error: string;
+  /** HTTP status, when the gateway answered */
+  status?: number;
+}
+
+/** No gateway returned verifiable content for `cid`; `failures` has one entry per gateway tried. */
+export class GatewayRetrievalError extends Error {
+  constructor(
+    readonly cid: string,
+    readonly failures: GatewayFailure[]
+  ) {
+    super(
+      `No IPFS gateway served verifiable content for ${cid}` +
+        (failures.length ? `: ${failures.map((f) => `${f.gateway} → ${f.error}`).join("; ")}` : " (no gateways configured)")
+    );
+    this.name = "GatewayRetrievalError";
+  }
+
+  /** Every gateway tried answered 404 (or the path names no directory entry). */
+  get notFound(): boolean {
+    return this.failures.length > 0 && this.failures.every((f) => f.status === 404);
+  }
+}
+
+/** A gateway answered with a non-2xx status. */
+class GatewayHttpError extends Error {
+  constructor(readonly status: number) {
+    super(`HTTP ${status}`);
+  }
+}
+
+/**
+ * Fetches content by CID from an ordered list of IPFS gateways and only
+ * returns bytes that hash to the CID. Blocks are requested in the trustless
+ * gateway format (`?format=raw`) and verified one by one; dag-pb roots are
+ * walked as UnixFS files, so CIDv0 and chunked uploads verify as well as raw
+ * CIDs, and `<dirCID>/<path>` is resolved through verified UnixFS directories.
+ * A gateway that times out, errors or serves the wrong bytes is skipped.
+ */
+export class GatewayRetriever {
+  constructor(private options: RetrieverOptions) {}
+
+  get gateways(): readonly string[] {
+    return this.options.gateways;
+  }
+
+  /** The verified file content of `cid` (`<cid>[/<path>]`); throws InvalidCidError or GatewayRetrievalError. */
+  async retrieve(cid: string, { signal }: { signal?: AbortSignal } = {}): Promise<RetrievedContent> {
+    const [rootCid = "", ...path] = cid.split("/");
+    let target = parseCid(rootCid);
+    return tracer.withSpan("ipfs.retrieve", { kind: "client", attributes: { "ipfs.cid": cid } }, async (span) => {
+      let block = await this.fetchBlock(target, signal);
+      span.setAttribute("ipfs.gateway", block.gateway);
+      for (const name of path.filter(Boolean)) {
+        const entry = this.directory(target, block.bytes).find((link) => link.name === name);
+        if (!entry) throw new GatewayRetrievalError(cid, [{ gateway: block.gateway, error: `no entry "${name}"`, status: 404 }]);
+        target = entry.cid;
+        block = await this.fetchBlock(target, signal);
+      }
+      const parts = await this.content(target, block.bytes, signal);
+      const bytes = parts.length === 1 ? parts[0]! : concat(parts);
+      span.setAttribute("ipfs.bytes", bytes.length);
+      return { cid, bytes, gateway: block.gateway };
+    });
+  }
+
+  /** `retrieve`, parsed as JSON. */
+  async json<T = unknown>(cid: string, options: { signal?: AbortSignal } = {}): Promise<T> {
+    const { bytes } = await this.retrieve(cid, options);
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  }
+
+  /** Entries of a verified UnixFS directory block (HAMT-sharded directories aren't supported). */
+  private directory(cid: CID, block: Uint8Array): PbLink[] {
+    const node = cid.code === DAG_PB_CODE ? decodePbNode(block) : undefined;
+    if (!node?.data || decodeUnixFs(node.data).type !== UNIXFS_TYPE.directory) {
+      throw new Error(`${cid} is not a UnixFS directory`);
+    }
+    return node.links;
+  }
+
+  /** File bytes under a verified block: the block itself, or a UnixFS file's data and children in order. */
+  private async content(cid: CID, block: Uint8Array, signal: AbortSignal | undefined): Promise<Uint8Array[]> {
+    if (cid.code !== DAG_PB_CODE) return [block];
+    const node = decodePbNode(block);
+    if (!node.data) throw new Error(`${cid} is a dag-pb node without UnixFS data`);
+    const unixfs = decodeUnixFs(node.data);
+    if (unixfs.type !== UNIXFS_TYPE.file && unixfs.type !== UNIXFS_TYPE.raw) {
+      const kind = Object.entries(UNIXFS_TYPE).find(([, code]) => code === unixfs.type)?.[0] ?? `type ${unixfs.type}`;
+      throw new Error(`${cid} is a UnixFS ${kind}, not a file`);
+    }
+
+    const parts = unixfs.data ? [unixfs.data] : [];
+    for (const { cid: child } of node.links) {
+      const { bytes } = await this.fetchBlock(child, signal);
+      parts.push(...(await this.content(child, bytes, signal)));
+    }
+    return parts;
+  }
+
+  /**
+   * One verified block, raced across gateways: up to `race` requests in
+   * flight, the first verified answer wins and the others are aborted.
+   */
+  private fetchBlock(cid: CID, signal: AbortSignal | undefined): Promise<{ bytes: Uint8Array; gateway: string }> {
+    const { gateways, timeoutMs = DEFAULT_TIMEOUT_MS, race = DEFAULT_RACE } = this.options;
+    const losers = new AbortController();
+    const failures: GatewayFailure[] = [];
+    let next = 0;
+    let inFlight = 0;
+    let settled = false;
+
+    return new Promise((resolve, reject) => {
+      const finish = (settle: () => void) => {
+        settled = true;
+        losers.abort();
+        settle();
+      };
+
+      const launch = () => {
+        while (!settled && inFlight < race && next < gateways.length) {
+          const gateway = gateways[next++]!;
+          const timeout = AbortSignal.timeout(timeoutMs);
+          const request = AbortSignal.any([losers.signal, timeout, ...(signal ? [signal] : [])]);
+          inFlight++;
+          this.fetchFrom(gateway, cid, request).then(
+            (bytes) => {
+              if (!settled) finish(() => resolve({ bytes, gateway }));
+            },
+            (err: unknown) => {
+              inFlight--;
+              if (settled) return;
+              if (signal?.aborted) return finish(() => reject(err));
+              const error = timeout.aborted ? `timed out after ${timeoutMs}ms` : (err as Error).message;
+              failures.push(err instanceof GatewayHttpError ? { gateway, error, status: err.status } : { gateway, error });
+              launch();
+            }
+          );
+        }
+        if (!settled && inFlight === 0) finish(() => reject(new GatewayRetrievalError(cid.toString(), failures)));
+      };
+
+      launch();
+    });
+  }
+
+  private async fetchFrom(gateway: string, cid: CID, signal: AbortSignal): Promise<Uint8Array> {
+    const res = await fetch(`${gatewayUrl(cid.toString(), gateway)}?format=raw`, {
+      headers: { Accept: "application/vnd.ipld.raw" },
+      signal,
+    });
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new GatewayHttpError(res.status);
+    }
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    await verifyBlock(cid, bytes);
+    return bytes;
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
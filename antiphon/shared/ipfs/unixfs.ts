@@ -0,0 +1,108 @@
+import { CID } from "multiformats/cid";
+
+export interface PbLink {
+  cid: CID;
+  /** Entry name when the node is a directory */
+  name?: string;
+}
+
+/** dag-pb node: the UnixFS `data` and the child blocks it links to, in order. */
+export interface PbNode {
+  data?: Uint8Array;
+  links: PbLink[];
+}
+
+/** UnixFS node types (unixfs.proto). */
+export const UNIXFS_TYPE = { raw: 0, directory: 1, file: 2, metadata: 3, symlink: 4, hamtShard: 5 } as const;
+
+export interface UnixFsNode {
+  type: number;
+  data?: Uint8Array;
+}
+
+/** Minimal protobuf reader: varints and length-delimited fields, which is all dag-pb and UnixFS use. */
+class ProtoReader {
+  private pos = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  varint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 53; shift += 7) {
+      if (this.done) throw new Error("truncated varint");
+      const byte = this.bytes[this.pos++]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+    throw new Error("varint too long");
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    if (this.pos + length > this.bytes.length) throw new Error("truncated field");
+    const value = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  /** Skip a field this decoder doesn't need. */
+  skip(wireType: number): void {
+    if (wireType === 0) this.varint();
+    else if (wireType === 2) this.bytesField();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`unsupported wire type ${wireType}`);
+  }
+
+  /** Next `[fieldNumber, wireType]`. */
+  tag(): [number, number] {
+    const key = this.varint();
+    return [Math.floor(key / 8), key & 7];
+  }
+}
+
+/** Decode a dag-pb block (PBNode: Links = 2, Data = 1; PBLink: Hash = 1, Name = 2). */
+export function decodePbNode(block: Uint8Array): PbNode {
+  const reader = new ProtoReader(block);
+  const node: PbNode = { links: [] };
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 1 && wireType === 2) {
+      node.data = reader.bytesField();
+    } else if (field === 2 && wireType === 2) {
+      const link = new ProtoReader(reader.bytesField());
+      let hash: Uint8Array | undefined;
+      let name: string | undefined;
+      while (!link.done) {
+        const [linkField, linkWire] = link.tag();
+        if (linkField === 1 && linkWire === 2) hash = link.bytesField();
+        else if (linkField === 2 && linkWire === 2) name = new TextDecoder().decode(link.bytesField());
+        else link.skip(linkWire);
+      }
+      if (!hash) throw new Error("dag-pb link without a hash");
+      node.links.push(name === undefined ? { cid: CID.decode(hash) } : { cid: CID.decode(hash), name });
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return node;
+}
+
+/** Decode the UnixFS message carried in a dag-pb node's data (Type = 1, Data = 2). */
+export function decodeUnixFs(data: Uint8Array): UnixFsNode {
+  const reader = new ProtoReader(data);
+  let type: number | undefined;
+  let content: Uint8Array | undefined;
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 1 && wireType === 0) type = reader.varint();
+    else if (field === 2 && wireType === 2) content = reader.bytesField();
+    else reader.skip(wireType);
+  }
+  if (type === undefined) throw new Error("UnixFS node without a type");
+  return content ? { type, data: content } : { type };
+}
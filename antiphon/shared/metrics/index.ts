@@ -0,0 +1,3 @@
+export { MetricsRegistry, Counter, Gauge, Histogram, PROMETHEUS_CONTENT_TYPE, DEFAULT_BUCKETS } from "./registry.js";
+export { registry, metrics } from "./metrics.js";
+export type { Labels } from "./registry.js";
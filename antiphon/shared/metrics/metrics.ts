@@ -0,0 +1,43 @@
+import { MetricsRegistry } from "./registry.js";
+
+/** Process-wide registry served by the coordinator's GET /metrics. */
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+  tasks: registry.counter({
+    name: "antiphon_tasks_total",
+    help: "Finished tasks by service (analyze, store, retrieve, workflow) and outcome (done, error, cancelled).",
+  }),
+  stepDuration: registry.histogram({
+    name: "antiphon_step_duration_seconds",
+    help: "Pipeline step durations by service (analyze, store, retrieve) and step (discovery, upload, payment, reputation).",
+  }),
+  usdcSpent: registry.counter({
+    name: "antiphon_usdc_spent_total",
+    help: "USDC settled through x402 payments, by capability.",
+  }),
+  providerFailovers: registry.counter({
+    name: "antiphon_provider_failovers_total",
+    help: "Unpaid requests moved to the next ranked provider, by capability.",
+  }),
+  rpcRequests: registry.counter({
+    name: "antiphon_rpc_requests_total",
+    help: "JSON-RPC calls made through WalletService clients, by method.",
+  }),
+  rpcErrors: registry.counter({
+    name: "antiphon_rpc_errors_total",
+    help: "JSON-RPC calls through WalletService clients that failed, by method.",
+  }),
+  sseSubscribers: registry.gauge({
+    name: "antiphon_sse_subscribers",
+    help: "Open task SSE streams.",
+  }),
+  agentCardLookups: registry.counter({
+    name: "antiphon_agent_card_lookups_total",
+    help: "Agent card lookups by where the card came from (memory, disk, ipfs).",
+  }),
+  storageUploadBytes: registry.counter({
+    name: "antiphon_storage_upload_bytes_total",
+    help: "Bytes the coordinator uploaded to its storage backend.",
+  }),
+};
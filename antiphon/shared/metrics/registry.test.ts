@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { MetricsRegistry } from "./registry.js";
+
+describe("MetricsRegistry", () => {
+  it("renders labelled counters and gauges in the text format", () => {
+    const registry = new MetricsRegistry();
+    const tasks = registry.counter({ name: "tasks_total", help: "Tasks." });
+    const open = registry.gauge({ name: "open_streams", help: "Streams." });
+    tasks.inc({ service: "analyze", outcome: "done" });
+    tasks.inc({ outcome: "done", service: "analyze" }, 2);
+    tasks.inc({ service: "store", outcome: "error" });
+    open.inc();
+    open.dec();
+    open.inc();
+
+    assert.strictEqual(
+      registry.render(),
+      [
+        "# HELP tasks_total Tasks.",
+        "# TYPE tasks_total counter",
+        'tasks_total{service="analyze",outcome="done"} 3',
+        'tasks_total{service="store",outcome="error"} 1',
+        "",
+        "# HELP open_streams Streams.",
+        "# TYPE open_streams gauge",
+        "open_streams 1",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const h = registry.histogram({ name: "step_seconds", help: "Steps.", buckets: [1, 5] });
+    h.observe({ step: "payment" }, 0.5);
+    h.observe({ step: "payment" }, 3);
+    h.observe({ step: "payment" }, 10);
+
+    const text = registry.render();
+    assert.match(text, /step_seconds_bucket\{step="payment",le="1"\} 1\n/);
+    assert.match(text, /step_seconds_bucket\{step="payment",le="5"\} 2\n/);
+    assert.match(text, /step_seconds_bucket\{step="payment",le="\+Inf"\} 3\n/);
+    assert.match(text, /step_seconds_sum\{step="payment"\} 13.5\n/);
+    assert.match(text, /step_seconds_count\{step="payment"\} 3\n/);
+  });
+
+  it("escapes label values and rejects duplicate names", () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: "c", help: "C." }).inc({ path: 'a"b\\c' });
+    assert.match(registry.render(), /c\{path="a\\"b\\\\c"\} 1/);
+    assert.throws(() => registry.counter({ name: "c", help: "again" }));
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Minimal Prometheus instrumentation: counters, gauges and histograms with
+ * labels, rendered in the text exposition format (version 0.0.4).
+ */
+
+export type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+interface MetricOptions {
+  name: string;
+  help: string;
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function header(type: string, { name, help }: MetricOptions): string[] {
+  return [`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+  readonly name: string;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private options: MetricOptions) {
+    this.name = options.name;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) throw new Error(`${this.name}: counters only go up`);
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) entry.value += amount;
+    else this.values.set(key, { labels, value: amount });
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = header("counter", this.options);
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  readonly name: string;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private options: MetricOptions) {
+    this.name = options.name;
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.set(labels, this.get(labels) + amount);
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.set(labels, this.get(labels) - amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = header("gauge", this.options);
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramOptions extends MetricOptions {
+  /** Upper bounds, ascending; `+Inf` is added automatically */
+  buckets?: number[];
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly name: string;
+  private buckets: number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(private options: HistogramOptions) {
+    this.name = options.name;
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]! += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /** Starts a timer; calling the returned function observes the elapsed seconds. */
+  startTimer(labels: Labels): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  /** Times `fn`, observing the duration whether it resolves or throws. */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const end = this.startTimer(labels);
+    try {
+      return await fn();
+    } finally {
+      end();
+    }
+  }
+
+  render(): string[] {
+    const lines = header("histogram", this.options);
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(new Counter(options));
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.register(new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(new Histogram(options));
+  }
+
+  /** Every registered metric in the Prometheus text format. */
+  render(): string {
+    return [...this.metrics.values()].map((m) => m.render().join("\n")).join("\n\n") + "\n";
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
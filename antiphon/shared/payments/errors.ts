@@ -0,0 +1,29 @@
+export type PolicyViolationCode =
+  | "TASK_LIMIT"
+  | "CAPABILITY_LIMIT"
+  | "DAILY_LIMIT"
+  | "MONTHLY_LIMIT"
+  | "PAYEE_BLOCKED"
+  | "PAYEE_NOT_ALLOWED";
+
+/** A payment the spending policy refused. Raised before anything is signed. */
+export class PolicyViolation extends Error {
+  constructor(
+    readonly code: PolicyViolationCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "PolicyViolation";
+  }
+}
+
+/** A spending policy file that can't be enforced; `issues` has one line per field. */
+export class InvalidSpendingPolicyError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid spending policy ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "InvalidSpendingPolicyError";
+  }
+}
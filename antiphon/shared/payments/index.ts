@@ -0,0 +1,12 @@
+export { InvalidSpendingPolicyError, PolicyViolation } from "./errors.js";
+export type { PolicyViolationCode } from "./errors.js";
+export { SpendingPolicy, parseSpendingPolicy, spendingPolicySchema } from "./policy.js";
+export type {
+  SpendingPolicyRules,
+  WalletLimits,
+  PaymentIntent,
+  SpendTracker,
+  SpendReservation,
+} from "./policy.js";
+export { PaymentLedger, paymentsToCsv } from "./ledger.js";
+export type { PaymentRecord, PaymentStatus, PaymentFilter, NewPayment } from "./ledger.js";
@@ -0,0 +1,86 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { PaymentLedger, paymentsToCsv, type NewPayment } from "./ledger.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+const PAYER = "0x00000000000000000000000000000000000000aa";
+
+async function tempLedgerPath(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-payments-"));
+  tempDirs.push(dir);
+  return path.join(dir, "payments.json");
+}
+
+function payment(overrides: Partial<NewPayment> = {}): NewPayment {
+  return {
+    taskId: "t1",
+    capability: "csv-analysis",
+    endpoint: "http://localhost:8001/analyze",
+    payer: PAYER,
+    payTo: "0x00000000000000000000000000000000000000bb",
+    amount: "100000",
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    network: "eip155:84532",
+    ...overrides,
+  };
+}
+
+describe("PaymentLedger", () => {
+  it("persists a settled payment and reloads it", async () => {
+    const file = await tempLedgerPath();
+    const ledger = new PaymentLedger(file);
+    const record = ledger.recordSigned(payment());
+    ledger.settle(record.id, "0xabc");
+    await ledger.flush();
+
+    const reloaded = new PaymentLedger(file);
+    await reloaded.load();
+    const stored = reloaded.get(record.id);
+    assert.strictEqual(stored?.status, "settled");
+    assert.strictEqual(stored?.txHash, "0xabc");
+  });
+
+  it("counts signed and settled payments toward spend totals, not failed ones", async () => {
+    const ledger = new PaymentLedger(await tempLedgerPath());
+    ledger.recordSigned(payment());
+    const settled = ledger.recordSigned(payment({ taskId: "t2" }));
+    ledger.settle(settled.id, "0xdef");
+    const failed = ledger.recordSigned(payment({ taskId: "t2" }));
+    ledger.markFailed(failed.id, "insufficient_funds");
+
+    assert.strictEqual(ledger.spentSince(PAYER.toUpperCase().replace("0X", "0x"), new Date(0)), 200_000n);
+    assert.strictEqual(ledger.spentByTask("t2"), 100_000n);
+    assert.strictEqual(ledger.spentSince(PAYER, new Date(Date.now() + 60_000)), 0n);
+    await ledger.flush();
+  });
+
+  it("filters by task, status and payTo", async () => {
+    const ledger = new PaymentLedger(await tempLedgerPath());
+    const a = ledger.recordSigned(payment());
+    ledger.recordSigned(payment({ taskId: "t2", payTo: "0x00000000000000000000000000000000000000cc" }));
+    ledger.settle(a.id, "0x1");
+
+    assert.deepStrictEqual(ledger.list({ taskId: "t1" }).map((p) => p.id), [a.id]);
+    assert.strictEqual(ledger.list({ status: "signed" }).length, 1);
+    assert.strictEqual(ledger.list({ payTo: "0x00000000000000000000000000000000000000CC" }).length, 1);
+    await ledger.flush();
+  });
+});
+
+describe("paymentsToCsv", () => {
+  it("writes a header row and quotes fields that need it", async () => {
+    const ledger = new PaymentLedger(await tempLedgerPath());
+    const record = ledger.recordSigned(payment());
+    ledger.markFailed(record.id, 'HTTP 502: "bad gateway", retry');
+
+    const [header, row] = paymentsToCsv(ledger.list()).split("\r\n");
+    assert.ok(header?.startsWith("id,createdAt,settledAt,taskId"));
+    assert.ok(row?.includes('"HTTP 502: ""bad gateway"", retry"'));
+    await ledger.flush();
+  });
+});
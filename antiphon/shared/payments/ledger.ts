@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { JsonFile } from "../persistence/index.js";
+import type { SpendTracker } from "./policy.js";
+
+const DEFAULT_PAYMENT_LEDGER_PATH = path.join("data", "payments.json");
+
+/** signed → the x402 payload left AgentA; settled/failed → per the PAYMENT-RESPONSE header. */
+export type PaymentStatus = "signed" | "settled" | "failed";
+
+export interface PaymentRecord {
+  id: string;
+  taskId?: string;
+  capability: string;
+  endpoint: string;
+  /** AgentA wallet that signed the payment */
+  payer: string;
+  /** Provider wallet (x402 payTo) */
+  payTo: string;
+  /** Atomic units of `asset` (USDC: 6 decimals) */
+  amount: string;
+  asset: string;
+  network: string;
+  status: PaymentStatus;
+  txHash?: string;
+  error?: string;
+  createdAt: string;
+  settledAt?: string;
+}
+
+export type NewPayment = Omit<PaymentRecord, "id" | "status" | "createdAt" | "settledAt" | "txHash" | "error">;
+
+export interface PaymentFilter {
+  taskId?: string;
+  payTo?: string;
+  capability?: string;
+  network?: string;
+  status?: PaymentStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Append-mostly ledger of every x402 payment AgentA signs, backed by a JSON
+ * file rewritten through shared/persistence JsonFile, like the task store.
+ * Entries are never pruned. Also serves as the spending policy's tracker:
+ * signed and settled payments count toward limits, failed ones don't.
+ */
+export class PaymentLedger implements SpendTracker {
+  private records = new Map<string, PaymentRecord>();
+  private file: JsonFile;
+
+  constructor(private filePath: string = DEFAULT_PAYMENT_LEDGER_PATH) {
+    this.file = new JsonFile(filePath, "PaymentLedger");
+  }
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    for (const record of JSON.parse(raw) as PaymentRecord[]) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  /** Called the moment a payment payload is signed, before the paid retry is sent. */
+  recordSigned(payment: NewPayment): PaymentRecord {
+    const record: PaymentRecord = {
+      ...payment,
+      id: randomUUID(),
+      status: "signed",
+      createdAt: new Date().toISOString(),
+    };
+    this.records.set(record.id, record);
+    this.persist();
+    return record;
+  }
+
+  settle(id: string, txHash: string, network?: string): void {
+    const record = this.records.get(id);
+    if (!record) return;
+    record.status = "settled";
+    record.txHash = txHash;
+    if (network) record.network = network;
+    record.settledAt = new Date().toISOString();
+    this.persist();
+  }
+
+  markFailed(id: string, error: string): void {
+    const record = this.records.get(id);
+    if (!record) return;
+    record.status = "failed";
+    record.error = error;
+    this.persist();
+  }
+
+  get(id: string): PaymentRecord | undefined {
+    return this.records.get(id);
+  }
+
+  /** Newest first. */
+  list(filter: PaymentFilter = {}): PaymentRecord[] {
+    const payTo = filter.payTo?.toLowerCase();
+    const from = filter.from?.toISOString();
+    const to = filter.to?.toISOString();
+    const matches = [...this.records.values()]
+      .filter((p) => !filter.taskId || p.taskId === filter.taskId)
+      .filter((p) => !payTo || p.payTo.toLowerCase() === payTo)
+      .filter((p) => !filter.capability || p.capability === filter.capability)
+      .filter((p) => !filter.network || p.network === filter.network)
+      .filter((p) => !filter.status || p.status === filter.status)
+      .filter((p) => !from || p.createdAt >= from)
+      .filter((p) => !to || p.createdAt < to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return filter.limit === undefined ? matches : matches.slice(0, filter.limit);
+  }
+
+  spentSince(wallet: string, since: Date): bigint {
+    const payer = wallet.toLowerCase();
+    const from = since.toISOString();
+    return this.sum((p) => p.payer.toLowerCase() === payer && p.createdAt >= from);
+  }
+
+  spentByTask(taskId: string): bigint {
+    return this.sum((p) => p.taskId === taskId);
+  }
+
+  /** Resolves once every scheduled write has reached disk. */
+  flush(): Promise<void> {
+    return this.file.flush();
+  }
+
+  private sum(match: (p: PaymentRecord) => boolean): bigint {
+    let total = 0n;
+    for (const p of this.records.values()) {
+      if (p.status !== "failed" && match(p)) total += BigInt(p.amount);
+    }
+    return total;
+  }
+
+  private persist(): void {
+    this.file.write(() => [...this.records.values()]);
+  }
+}
+
+const CSV_COLUMNS: (keyof PaymentRecord)[] = [
+  "id",
+  "createdAt",
+  "settledAt",
+  "taskId",
+  "capability",
+  "endpoint",
+  "payer",
+  "payTo",
+  "amount",
+  "asset",
+  "network",
+  "status",
+  "txHash",
+  "error",
+];
+
+export function paymentsToCsv(records: PaymentRecord[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const record of records) {
+    lines.push(CSV_COLUMNS.map((col) => escape(record[col])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,142 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { readFile } from "fs/promises";
+import { parseSpendingPolicy, SpendingPolicy, type PaymentIntent, type SpendTracker } from "./policy.js";
+import { InvalidSpendingPolicyError, PolicyViolation } from "./errors.js";
+
+const WALLET = "0x00000000000000000000000000000000000000aa";
+const PAYEE = "0x00000000000000000000000000000000000000bb";
+
+function intent(overrides: Partial<PaymentIntent> = {}): PaymentIntent {
+  return {
+    wallet: WALLET,
+    taskId: "t1",
+    capability: "csv-analysis",
+    payTo: PAYEE,
+    amount: 100_000n, // 0.10 USDC
+    at: new Date("2026-03-15T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+/** Tracker over a plain list of already-paid intents. */
+function tracker(paid: PaymentIntent[] = []): SpendTracker {
+  return {
+    spentSince: (wallet, since) =>
+      paid
+        .filter((p) => p.wallet.toLowerCase() === wallet.toLowerCase() && (p.at ?? new Date()) >= since)
+        .reduce((sum, p) => sum + p.amount, 0n),
+    spentByTask: (taskId) =>
+      paid.filter((p) => p.taskId === taskId).reduce((sum, p) => sum + p.amount, 0n),
+  };
+}
+
+function violationCode(fn: () => void): string | undefined {
+  try {
+    fn();
+  } catch (err) {
+    assert.ok(err instanceof PolicyViolation);
+    return err.code;
+  }
+  return undefined;
+}
+
+describe("SpendingPolicy", () => {
+  it("allows payments within every limit", () => {
+    const policy = new SpendingPolicy(
+      { maxPerTask: "1", maxPerCapability: { "csv-analysis": "0.50" }, wallet: { daily: "5" } },
+      tracker()
+    );
+    assert.doesNotThrow(() => policy.check(intent()));
+  });
+
+  it("enforces the per-capability price cap", () => {
+    const policy = new SpendingPolicy({ maxPerCapability: { "csv-analysis": "0.05" } }, tracker());
+    assert.strictEqual(violationCode(() => policy.check(intent())), "CAPABILITY_LIMIT");
+    assert.doesNotThrow(() => policy.check(intent({ capability: "file-storage" })));
+  });
+
+  it("counts earlier payments of the same task toward the per-task cap", () => {
+    const policy = new SpendingPolicy({ maxPerTask: "0.15" }, tracker([intent()]));
+    assert.strictEqual(violationCode(() => policy.check(intent())), "TASK_LIMIT");
+    assert.doesNotThrow(() => policy.check(intent({ taskId: "t2" })));
+  });
+
+  it("resets the daily total at UTC midnight but keeps the monthly one", () => {
+    const policy = new SpendingPolicy(
+      { wallet: { daily: "0.10", monthly: "0.15" } },
+      tracker([intent()])
+    );
+    assert.strictEqual(violationCode(() => policy.check(intent({ taskId: "t2" }))), "DAILY_LIMIT");
+
+    const nextDay = new Date("2026-03-16T00:00:01Z");
+    assert.strictEqual(
+      violationCode(() => policy.check(intent({ taskId: "t2", at: nextDay }))),
+      "MONTHLY_LIMIT"
+    );
+    assert.doesNotThrow(() => policy.check(intent({ taskId: "t2", at: nextDay, amount: 50_000n })));
+  });
+
+  it("applies per-wallet overrides case-insensitively", () => {
+    const policy = new SpendingPolicy(
+      { wallet: { daily: "10" }, wallets: { [WALLET.toUpperCase().replace("0X", "0x")]: { daily: "0.01" } } },
+      tracker()
+    );
+    assert.strictEqual(violationCode(() => policy.check(intent())), "DAILY_LIMIT");
+  });
+
+  it("checks payTo against the block and allow lists", () => {
+    const blocked = new SpendingPolicy({ blockPayTo: [PAYEE.toUpperCase()] }, tracker());
+    assert.strictEqual(violationCode(() => blocked.check(intent())), "PAYEE_BLOCKED");
+
+    const allowList = new SpendingPolicy({ allowPayTo: ["0x00000000000000000000000000000000000000cc"] }, tracker());
+    assert.strictEqual(violationCode(() => allowList.check(intent())), "PAYEE_NOT_ALLOWED");
+  });
+
+  it("holds checked payments against the caps until they are released", async () => {
+    const policy = new SpendingPolicy({ maxPerTask: "0.15", wallet: { daily: "0.25" } }, tracker());
+
+    // Two tasks' payments in flight at once, neither recorded yet
+    const [first, second] = await Promise.allSettled([
+      Promise.resolve().then(() => policy.check(intent({ taskId: "t1" }))),
+      Promise.resolve().then(() => policy.check(intent({ taskId: "t1" }))),
+    ]);
+    assert.strictEqual(first.status, "fulfilled");
+    assert.strictEqual(second.status, "rejected");
+    assert.strictEqual((second as PromiseRejectedResult).reason.code, "TASK_LIMIT");
+
+    const other = policy.check(intent({ taskId: "t2" }));
+    assert.strictEqual(violationCode(() => policy.check(intent({ taskId: "t3" }))), "DAILY_LIMIT");
+
+    // A payment that was never signed gives its amount back
+    other.release();
+    other.release();
+    assert.doesNotThrow(() => policy.check(intent({ taskId: "t3" })));
+  });
+
+  it("rejects malformed amounts when constructed", () => {
+    assert.throws(() => new SpendingPolicy({ maxPerTask: "1,00" }, tracker()), /Invalid amount/);
+  });
+});
+
+describe("parseSpendingPolicy", () => {
+  it("accepts the example policy", async () => {
+    const raw = JSON.parse(await readFile(new URL("../../spending-policy.example.json", import.meta.url), "utf8"));
+    assert.strictEqual(parseSpendingPolicy(raw).maxPerTask, "1.00");
+  });
+
+  it("lists misspelt keys and mistyped amounts", () => {
+    try {
+      parseSpendingPolicy({ maxPerTsk: "1", wallet: { daily: 5 }, blockPayTo: ["0xnope"] }, "policy.json");
+      assert.fail("policy was accepted");
+    } catch (err) {
+      assert.ok(err instanceof InvalidSpendingPolicyError);
+      assert.deepStrictEqual(
+        err.issues.map((issue) => issue.split(":")[0]),
+        ["wallet.daily", "blockPayTo.0", "(root)"]
+      );
+      assert.match(err.message, /^Invalid spending policy policy\.json:/);
+      assert.match(err.issues[2]!, /maxPerTsk/);
+    }
+  });
+});
@@ -0,0 +1,218 @@
+import { readFile } from "fs/promises";
+import { formatUnits, parseUnits } from "viem";
+import { z } from "zod";
+import { InvalidSpendingPolicyError, PolicyViolation } from "./errors.js";
+
+const amount = z.string().regex(/^\d+(\.\d+)?$/, 'must be a decimal amount string, e.g. "0.50"');
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "must be a 0x-prefixed 20-byte address");
+
+const walletLimitsSchema = z.strictObject({
+  daily: amount.optional(),
+  monthly: amount.optional(),
+});
+
+/**
+ * Policy file format (`spending-policy.json`). Amounts are decimal strings in
+ * the payment asset's units (USDC by default, 6 decimals); omitted limits are
+ * not enforced. Unknown keys are rejected so a misspelt limit can't silently
+ * switch itself off.
+ */
+export const spendingPolicySchema = z.strictObject({
+  decimals: z.number().int().min(0).max(36).optional(),
+  /** Total a single task (all of its hops) may pay */
+  maxPerTask: amount.optional(),
+  /** Max price of one payment, keyed by ERC-8004 capability (`csv-analysis`, ...) */
+  maxPerCapability: z.record(z.string().min(1), amount).optional(),
+  /** Default daily/monthly totals for every paying wallet */
+  wallet: walletLimitsSchema.optional(),
+  /** Per-wallet overrides, keyed by payer address */
+  wallets: z.record(address, walletLimitsSchema).optional(),
+  /** If non-empty, only these payTo addresses may be paid */
+  allowPayTo: z.array(address).optional(),
+  blockPayTo: z.array(address).optional(),
+});
+
+export type WalletLimits = z.output<typeof walletLimitsSchema>;
+export type SpendingPolicyRules = z.output<typeof spendingPolicySchema>;
+
+/** Validate a parsed policy file. Throws InvalidSpendingPolicyError listing every problem. */
+export function parseSpendingPolicy(raw: unknown, source = "spending policy"): SpendingPolicyRules {
+  const result = spendingPolicySchema.safeParse(raw);
+  if (result.success) return result.data;
+  throw new InvalidSpendingPolicyError(
+    source,
+    result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+  );
+}
+
+/** A payment about to be signed, as seen by the policy. */
+export interface PaymentIntent {
+  /** Paying wallet address */
+  wallet: string;
+  taskId?: string;
+  capability: string;
+  payTo: string;
+  /** Atomic units of the payment asset */
+  amount: bigint;
+  at?: Date;
+}
+
+/** Running totals the policy checks against (the payment ledger in production). */
+export interface SpendTracker {
+  /** Atomic units `wallet` has paid at or after `since` */
+  spentSince(wallet: string, since: Date): bigint;
+  /** Atomic units paid so far on behalf of `taskId` */
+  spentByTask(taskId: string): bigint;
+}
+
+/** An amount `check` let through and holds against the caps until it is released. */
+export interface SpendReservation {
+  /** Stop holding the amount: call once the payment is in the tracker, or was never signed. Idempotent. */
+  release(): void;
+}
+
+/**
+ * Guards autonomous x402 payments: `check` throws a PolicyViolation for any
+ * payment that would break a cap or payee rule. Totals come from the tracker
+ * plus every payment checked but not yet released, so concurrent tasks can't
+ * each pass against the same old total while their payments are being signed.
+ */
+export class SpendingPolicy {
+  private readonly decimals: number;
+  private reserved = new Set<PaymentIntent & { at: Date }>();
+
+  constructor(
+    private rules: SpendingPolicyRules,
+    private tracker: SpendTracker
+  ) {
+    this.decimals = rules.decimals ?? 6;
+    // Parse every amount up front so a typo fails at startup, not mid-payment
+    for (const amount of this.amounts()) this.parse(amount);
+  }
+
+  /** Returns null when no policy file exists (payments are unrestricted). */
+  static async load(filePath: string, tracker: SpendTracker): Promise<SpendingPolicy | null> {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (err) {
+      throw new InvalidSpendingPolicyError(filePath, [(err as Error).message]);
+    }
+    return new SpendingPolicy(parseSpendingPolicy(parsed, filePath), tracker);
+  }
+
+  /**
+   * Throws a PolicyViolation if `intent` breaks a rule; otherwise reserves its
+   * amount in the same synchronous step and returns the reservation.
+   */
+  check(intent: PaymentIntent): SpendReservation {
+    const { rules } = this;
+    const payTo = intent.payTo.toLowerCase();
+    const at = intent.at ?? new Date();
+
+    if (rules.blockPayTo?.some((a) => a.toLowerCase() === payTo)) {
+      throw new PolicyViolation("PAYEE_BLOCKED", `payTo ${intent.payTo} is on the block list`);
+    }
+    if (rules.allowPayTo?.length && !rules.allowPayTo.some((a) => a.toLowerCase() === payTo)) {
+      throw new PolicyViolation("PAYEE_NOT_ALLOWED", `payTo ${intent.payTo} is not on the allow list`);
+    }
+
+    const capabilityCap = rules.maxPerCapability?.[intent.capability];
+    if (capabilityCap !== undefined && intent.amount > this.parse(capabilityCap)) {
+      throw new PolicyViolation(
+        "CAPABILITY_LIMIT",
+        `price ${this.format(intent.amount)} exceeds the ${intent.capability} cap of ${capabilityCap}`
+      );
+    }
+
+    if (rules.maxPerTask !== undefined && intent.taskId) {
+      const total = this.tracker.spentByTask(intent.taskId) + this.reservedBy((r) => r.taskId === intent.taskId) + intent.amount;
+      if (total > this.parse(rules.maxPerTask)) {
+        throw new PolicyViolation(
+          "TASK_LIMIT",
+          `task total would reach ${this.format(total)}, over the per-task cap of ${rules.maxPerTask}`
+        );
+      }
+    }
+
+    const limits = this.walletLimits(intent.wallet);
+    if (limits.daily !== undefined) {
+      const total = this.spentSince(intent.wallet, startOfUtcDay(at)) + intent.amount;
+      if (total > this.parse(limits.daily)) {
+        throw new PolicyViolation(
+          "DAILY_LIMIT",
+          `wallet ${intent.wallet} would spend ${this.format(total)} today, over the daily cap of ${limits.daily}`
+        );
+      }
+    }
+    if (limits.monthly !== undefined) {
+      const total = this.spentSince(intent.wallet, startOfUtcMonth(at)) + intent.amount;
+      if (total > this.parse(limits.monthly)) {
+        throw new PolicyViolation(
+          "MONTHLY_LIMIT",
+          `wallet ${intent.wallet} would spend ${this.format(total)} this month, over the monthly cap of ${limits.monthly}`
+        );
+      }
+    }
+
+    const reservation = { ...intent, at };
+    this.reserved.add(reservation);
+    return { release: () => void this.reserved.delete(reservation) };
+  }
+
+  /** Recorded plus reserved spend of `wallet` at or after `since`. */
+  private spentSince(wallet: string, since: Date): bigint {
+    const key = wallet.toLowerCase();
+    return (
+      this.tracker.spentSince(wallet, since) +
+      this.reservedBy((r) => r.wallet.toLowerCase() === key && r.at >= since)
+    );
+  }
+
+  private reservedBy(match: (reservation: PaymentIntent & { at: Date }) => boolean): bigint {
+    let total = 0n;
+    for (const r of this.reserved) if (match(r)) total += r.amount;
+    return total;
+  }
+
+  private walletLimits(wallet: string): WalletLimits {
+    const key = wallet.toLowerCase();
+    const override = Object.entries(this.rules.wallets ?? {}).find(([addr]) => addr.toLowerCase() === key);
+    return { ...this.rules.wallet, ...override?.[1] };
+  }
+
+  private amounts(): string[] {
+    const { rules } = this;
+    return [
+      rules.maxPerTask,
+      ...Object.values(rules.maxPerCapability ?? {}),
+      ...[rules.wallet ?? {}, ...Object.values(rules.wallets ?? {})].flatMap((l) => [l.daily, l.monthly]),
+    ].filter((a): a is string => a !== undefined);
+  }
+
+  private parse(amount: string): bigint {
+    if (!/^\d+(\.\d+)?$/.test(amount)) {
+      throw new Error(`Invalid amount "${amount}" in spending policy`);
+    }
+    return parseUnits(amount, this.decimals);
+  }
+
+  private format(amount: bigint): string {
+    return formatUnits(amount, this.decimals);
+  }
+}
+
+function startOfUtcDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+function startOfUtcMonth(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
@@ -0,0 +1 @@
+export { JsonFile, writeJsonFile } from "./json.js";
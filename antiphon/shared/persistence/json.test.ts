@@ -0,0 +1,60 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { JsonFile, writeJsonFile } from "./json.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-json-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+describe("writeJsonFile", () => {
+  it("creates parent directories and leaves no tmp files behind", async () => {
+    const dir = await tempDir();
+    const file = path.join(dir, "nested", "state.json");
+    await Promise.all([writeJsonFile(file, { n: 1 }), writeJsonFile(file, { n: 2 })]);
+
+    assert.ok([1, 2].includes(JSON.parse(await readFile(file, "utf8")).n));
+    assert.deepStrictEqual(await readdir(path.dirname(file)), ["state.json"]);
+  });
+});
+
+describe("JsonFile", () => {
+  it("serializes writes and ends on the latest snapshot", async () => {
+    const dir = await tempDir();
+    const json = new JsonFile(path.join(dir, "state.json"), "Test");
+    const items: number[] = [];
+    for (let i = 1; i <= 5; i++) {
+      items.push(i);
+      json.write(() => items);
+    }
+    await json.flush();
+    assert.deepStrictEqual(JSON.parse(await readFile(json.filePath, "utf8")), [1, 2, 3, 4, 5]);
+  });
+
+  it("logs a failed write and keeps accepting new ones", async () => {
+    const dir = await tempDir();
+    const json = new JsonFile(path.join(dir, "state.json"), "Test");
+    const errors: unknown[][] = [];
+    const original = console.error;
+    console.error = (...args: unknown[]) => void errors.push(args);
+    try {
+      json.write(() => {
+        throw new Error("snapshot failed");
+      });
+      json.write(() => ({ ok: true }));
+      await json.flush();
+    } finally {
+      console.error = original;
+    }
+    assert.strictEqual(errors.length, 1);
+    assert.match(String(errors[0]![0]), /\[Test\] .*Failed to persist/);
+    assert.deepStrictEqual(JSON.parse(await readFile(json.filePath, "utf8")), { ok: true });
+  });
+});
@@ -0,0 +1,57 @@
+import { mkdir, open, rename, rm } from "fs/promises";
+import path from "path";
+
+let tmpCounter = 0;
+
+/**
+ * Write `data` to `filePath` as JSON without ever leaving a truncated file:
+ * the bytes go to a tmp file unique to this write, are fsynced, then renamed
+ * over the target. Creates missing parent directories.
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.${++tmpCounter}.tmp`;
+  try {
+    const handle = await open(tmp, "w");
+    try {
+      await handle.writeFile(JSON.stringify(data), "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tmp, filePath);
+  } catch (err) {
+    await rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * A JSON file rewritten in full whenever its owner changes. Writes are
+ * serialized through one promise chain and each takes its snapshot when it
+ * runs, so the file always ends on the latest state. Failures are logged,
+ * not thrown: the in-memory state stays authoritative.
+ */
+export class JsonFile {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /** `owner` prefixes log lines, e.g. "TaskStore" */
+  constructor(
+    readonly filePath: string,
+    private owner: string
+  ) {}
+
+  /** Schedule a rewrite with whatever `snapshot` returns at write time. */
+  write(snapshot: () => unknown): void {
+    this.pendingWrite = this.pendingWrite
+      .then(() => writeJsonFile(this.filePath, snapshot()))
+      .catch((err) => {
+        console.error(`[${this.owner}] ⚠️  Failed to persist ${this.filePath}:`, (err as Error).message);
+      });
+  }
+
+  /** Resolves once every scheduled write has reached disk. */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { finalStep, pipelineForEndpoint, stepFor, type PipelineAction } from "./definitions.js";
+
+const ACTIONS: PipelineAction[] = ["submit", "discover", "prepare", "pay", "deliver", "reputation", "complete"];
+
+describe("pipelineForEndpoint", () => {
+  it("maps each AgentB route to its service", () => {
+    assert.strictEqual(pipelineForEndpoint("/analyze").service, "analyze");
+    assert.strictEqual(pipelineForEndpoint("/upload").service, "store");
+    assert.strictEqual(pipelineForEndpoint("/retrieve").service, "retrieve");
+    assert.throws(() => pipelineForEndpoint("/transcode"), /No pipeline defined for endpoint \/transcode/);
+  });
+});
+
+describe("stepFor", () => {
+  it("walks the analyze steps in order", () => {
+    const analyze = pipelineForEndpoint("/analyze");
+    assert.deepStrictEqual(
+      ACTIONS.map((action) => stepFor(analyze, action)),
+      [1, 2, 2, 3, 4, 5, 6]
+    );
+    assert.strictEqual(finalStep(analyze), 6);
+  });
+
+  it("finishes store and retrieve in one step after payment", () => {
+    for (const endpoint of ["/upload", "/retrieve"]) {
+      const pipeline = pipelineForEndpoint(endpoint);
+      assert.deepStrictEqual(
+        ACTIONS.map((action) => stepFor(pipeline, action)),
+        [1, 2, 2, 3, 4, 4, 4]
+      );
+      assert.strictEqual(finalStep(pipeline), 4);
+    }
+  });
+
+  it("rejects actions a pipeline has no step for", () => {
+    const pipeline = pipelineForEndpoint("/upload");
+    assert.throws(
+      () => stepFor(pipeline, "refund" as PipelineAction),
+      /Pipeline "store" has no step for action "refund"/
+    );
+  });
+});
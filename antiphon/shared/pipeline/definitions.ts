@@ -0,0 +1,108 @@
+/**
+ * Pipeline definitions shared by the AgentA coordinator and the frontend.
+ *
+ * Each service lists its stepper steps in order. The coordinator never emits a
+ * raw step number: it asks for the step that owns an action (`stepFor`), and
+ * the frontend renders the same list, so both sides move together when a
+ * service or step is added here.
+ *
+ * This file is imported by the Vite frontend as well — keep it dependency-free.
+ */
+
+/** Coordinator stages a step can own. Several actions may share one step. */
+export type PipelineAction =
+  | 'submit'     // task accepted / waiting for a pipeline slot
+  | 'discover'   // AGENT_DISCOVER on the ERC-8004 registry
+  | 'prepare'    // stage the input (storage upload, file buffer, CID)
+  | 'pay'        // PAYMENT_REQUEST — x402 challenge, sign, retry
+  | 'deliver'    // AgentB returned a result
+  | 'reputation' // REPUTATION_POST
+  | 'complete';  // final result handed back to the requester
+
+export type ProtocolColor = 'emerald' | 'indigo' | 'orange' | 'violet' | 'green';
+
+export type ServiceId = 'analyze' | 'store' | 'retrieve';
+
+export interface PipelineStep {
+  id: number;
+  label: string;
+  icon: string;
+  protocol: ProtocolColor;
+  desc: string;
+  actions: PipelineAction[];
+}
+
+export interface PipelineDefinition {
+  service: ServiceId;
+  /** AgentB route suffix the service is served from — ties a discovered route back to its pipeline */
+  endpointSuffix: string;
+  steps: PipelineStep[];
+}
+
+const submitted: PipelineStep = {
+  id: 1, label: 'Submitted', icon: '📤', protocol: 'orange', desc: 'Task sent to AgentA', actions: ['submit'],
+};
+const discovery: PipelineStep = {
+  id: 2, label: 'Discovery', icon: '🔍', protocol: 'emerald', desc: 'ERC-8004 on-chain lookup', actions: ['discover', 'prepare'],
+};
+const payment: PipelineStep = {
+  id: 3, label: 'Payment', icon: '💳', protocol: 'indigo', desc: 'AgentA pays via x402', actions: ['pay'],
+};
+
+export const PIPELINES: Record<ServiceId, PipelineDefinition> = {
+  analyze: {
+    service: 'analyze',
+    endpointSuffix: '/analyze',
+    steps: [
+      submitted,
+      discovery,
+      payment,
+      { id: 4, label: 'Processing', icon: '⚙️', protocol: 'violet',  desc: 'AgentB analyzing CSV',   actions: ['deliver'] },
+      { id: 5, label: 'Reputation', icon: '⭐', protocol: 'emerald', desc: 'Rating posted on-chain', actions: ['reputation'] },
+      { id: 6, label: 'Results',    icon: '✅', protocol: 'green',   desc: 'Report ready',           actions: ['complete'] },
+    ],
+  },
+  store: {
+    service: 'store',
+    endpointSuffix: '/upload',
+    steps: [
+      submitted,
+      discovery,
+      payment,
+      { id: 4, label: 'Complete', icon: '✅', protocol: 'green', desc: 'File stored on IPFS', actions: ['deliver', 'reputation', 'complete'] },
+    ],
+  },
+  retrieve: {
+    service: 'retrieve',
+    endpointSuffix: '/retrieve',
+    steps: [
+      submitted,
+      discovery,
+      payment,
+      { id: 4, label: 'Complete', icon: '✅', protocol: 'green', desc: 'File retrieved from IPFS', actions: ['deliver', 'reputation', 'complete'] },
+    ],
+  },
+};
+
+export function getPipeline(service: ServiceId): PipelineDefinition {
+  return PIPELINES[service];
+}
+
+/** Pipeline served from a given AgentB route suffix (`/analyze`, `/upload`, `/retrieve`). */
+export function pipelineForEndpoint(endpointSuffix: string): PipelineDefinition {
+  const match = Object.values(PIPELINES).find((p) => p.endpointSuffix === endpointSuffix);
+  if (!match) throw new Error(`No pipeline defined for endpoint ${endpointSuffix}`);
+  return match;
+}
+
+/** Step id that owns `action` in this pipeline. */
+export function stepFor(pipeline: PipelineDefinition, action: PipelineAction): number {
+  const step = pipeline.steps.find((s) => s.actions.includes(action));
+  if (!step) throw new Error(`Pipeline "${pipeline.service}" has no step for action "${action}"`);
+  return step.id;
+}
+
+/** Id of the last step — reaching it means results are ready to show. */
+export function finalStep(pipeline: PipelineDefinition): number {
+  return pipeline.steps[pipeline.steps.length - 1]?.id ?? 0;
+}
@@ -0,0 +1,37 @@
+export {
+  PIPELINES,
+  getPipeline,
+  pipelineForEndpoint,
+  stepFor,
+  finalStep,
+} from "./definitions.js";
+export type {
+  PipelineAction,
+  PipelineDefinition,
+  PipelineStep,
+  ProtocolColor,
+  ServiceId,
+} from "./definitions.js";
+export { planWorkflow, WorkflowValidationError } from "./workflow.js";
+export type { WorkflowHop, WorkflowStepSpec } from "./workflow.js";
+export { resolveServiceRoute, routeForCapability, serviceIdFor, PAID_CAPABILITIES } from "./routes.js";
+export type { ServiceRoute } from "./routes.js";
+export { runTask, ProviderUnavailableError } from "./run.js";
+export type {
+  TaskDeps,
+  TaskInput,
+  TaskEmit,
+  ServiceRequest,
+  UploadedFile,
+  DiscoveredProvider,
+  StageOptions,
+  DiscoveryOptions,
+  PaymentOptions,
+  PaidRequest,
+  ServiceOutput,
+  ProviderDiscovery,
+  TaskStorage,
+  ServicePayment,
+  ReputationService,
+  DatasetGateway,
+} from "./run.js";
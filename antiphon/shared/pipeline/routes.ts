@@ -0,0 +1,41 @@
+import { pipelineForEndpoint, type ServiceId } from "./definitions.js";
+
+/** Where a service intent is served: the ERC-8004 capability, AgentB route and agent-card price key. */
+export interface ServiceRoute {
+  capability: string;
+  endpointSuffix: string;
+  pricingKey: string;
+}
+
+export function resolveServiceRoute(intent: string): ServiceRoute {
+  const t = intent.toLowerCase();
+
+  if (t.includes("analyz") || t.includes("csv") || t.includes("statistics") || t.includes("data-transform")) {
+    return { capability: "csv-analysis", endpointSuffix: "/analyze", pricingKey: "baseRate" };
+  }
+
+  if (t.includes("retrieve") || t.includes("fetch file") || t.includes("get file") || t.includes("download")) {
+    return { capability: "file-storage", endpointSuffix: "/retrieve", pricingKey: "retrieve" };
+  }
+
+  return { capability: "file-storage", endpointSuffix: "/upload", pricingKey: "upload" };
+}
+
+/** The service a free-text intent resolves to. A fixed set, unlike the intent, so safe as a metric label. */
+export function serviceIdFor(intent: string): ServiceId {
+  return pipelineForEndpoint(resolveServiceRoute(intent).endpointSuffix).service;
+}
+
+/** Capabilities as providers are paid for them (agent card `endpoints` keys) and how each is routed. */
+const PAID_CAPABILITY_ROUTES: Record<string, ServiceRoute> = {
+  "csv-analysis": resolveServiceRoute("analyze"),
+  "file-storage": resolveServiceRoute("store"),
+  "file-retrieval": resolveServiceRoute("retrieve"),
+};
+
+export const PAID_CAPABILITIES = Object.keys(PAID_CAPABILITY_ROUTES);
+
+/** The route for a paid capability, or null when no service uses it. */
+export function routeForCapability(capability: string): ServiceRoute | null {
+  return Object.hasOwn(PAID_CAPABILITY_ROUTES, capability) ? PAID_CAPABILITY_ROUTES[capability]! : null;
+}
@@ -0,0 +1,274 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { metrics } from "../metrics/index.js";
+import { PolicyViolation } from "../payments/index.js";
+import { TaskCancelledError } from "../tasks/index.js";
+import { getPipeline, stepFor } from "./definitions.js";
+import {
+  ProviderUnavailableError,
+  runTask,
+  type DiscoveredProvider,
+  type PaidRequest,
+  type ServiceOutput,
+  type TaskDeps,
+} from "./run.js";
+
+const PROVIDER: DiscoveredProvider = {
+  endpoint: "https://agent-b.example/analyze",
+  wallet: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  capability: "csv-analysis",
+};
+
+const ANALYSIS: ServiceOutput = {
+  kind: "analysis",
+  resultCID: "bafkreiresult",
+  summary: "Analyzed 2 rows across 2 columns.",
+  statistics: { rowCount: 2 },
+  insights: [],
+};
+
+const csv = {
+  buffer: Buffer.from("a,b\n1,2\n3,4\n"),
+  originalname: "data.csv",
+  mimetype: "text/csv",
+};
+
+/** Fakes that succeed; each test overrides the dependency it is about. Calls are recorded in `calls`. */
+function fakeDeps(overrides: Partial<TaskDeps> = {}) {
+  const calls = { uploads: [] as string[], payments: [] as PaidRequest[], ratings: [] as string[] };
+  const deps: TaskDeps = {
+    discovery: {
+      async discover(_service, { log }) {
+        log("Found 1 agent(s).");
+        return [PROVIDER];
+      },
+    },
+    storage: {
+      name: "fake storage",
+      async upload(file) {
+        calls.uploads.push(await file.text());
+        return "bafkreiinput";
+      },
+    },
+    payment: {
+      async request(_provider, request, { onPaymentSigned }) {
+        calls.payments.push(request);
+        onPaymentSigned();
+        return ANALYSIS;
+      },
+    },
+    reputation: {
+      async post(_provider, resultCID) {
+        calls.ratings.push(resultCID);
+        return "0xreputation";
+      },
+    },
+    datasets: {
+      url: (cid) => `https://gateway.example/ipfs/${cid}`,
+      probe: async () => ({ reachable: true, status: 200, contentType: "text/csv" }),
+    },
+    ...overrides,
+  };
+  return { deps, calls };
+}
+
+/** Collects emitted steps as `[stepNum, msg]`. */
+function recorder() {
+  const events: Array<[number, string]> = [];
+  return { events, emit: (stepNum: number, msg: string) => void events.push([stepNum, msg]) };
+}
+
+describe("runTask", () => {
+  it("uploads, pays, rates and returns AgentB's analysis", async () => {
+    const { deps, calls } = fakeDeps();
+    const { events, emit } = recorder();
+    let paid = false;
+
+    const result = await runTask(
+      deps,
+      { service: "analyze", taskId: "t1", file: csv, onPaymentSigned: () => (paid = true) },
+      emit
+    );
+
+    assert.deepStrictEqual(result, {
+      success: true,
+      service: "analyze",
+      reputationTxHash: "0xreputation",
+      resultCID: "bafkreiresult",
+      summary: ANALYSIS.summary,
+      statistics: { rowCount: 2 },
+      insights: [],
+    });
+    assert.deepStrictEqual(calls.uploads, ["a,b\n1,2\n3,4\n"]);
+    assert.deepStrictEqual(calls.payments, [{ kind: "analyze", inputCID: "bafkreiinput" }]);
+    assert.deepStrictEqual(calls.ratings, ["bafkreiresult"]);
+    assert.strictEqual(paid, true);
+
+    const pipeline = getPipeline("analyze");
+    assert.deepStrictEqual(events[1], [stepFor(pipeline, "discover"), "Found 1 agent(s)."]);
+    assert.deepStrictEqual(events[events.length - 1], [stepFor(pipeline, "complete"), "🏆 Pipeline complete — all steps done"]);
+    assert.ok(events.some(([, msg]) => msg.includes("Uploading CSV to fake storage")));
+  });
+
+  it("labels step metrics with the resolved service, not the client's text", async () => {
+    const { deps } = fakeDeps();
+    const service = `please analyze this CSV ${Math.random()}`;
+    await runTask(deps, { service, taskId: "t1b", file: csv }, recorder().emit);
+
+    const series = metrics.stepDuration.render().join("\n");
+    assert.match(series, /service="analyze",step="payment"/);
+    assert.ok(!series.includes(service));
+  });
+
+  it("fails before paying when no provider is registered", async () => {
+    const { deps, calls } = fakeDeps({ discovery: { discover: async () => [] } });
+
+    await assert.rejects(
+      runTask(deps, { service: "analyze", taskId: "t2", file: csv }, recorder().emit),
+      /No provider found on-chain for service: analyze/
+    );
+    assert.deepStrictEqual(calls.uploads, []);
+    assert.deepStrictEqual(calls.payments, []);
+  });
+
+  it("surfaces a failed payment without posting reputation", async () => {
+    const { deps, calls } = fakeDeps({
+      payment: {
+        request: async () => {
+          throw new PolicyViolation("TASK_LIMIT", "0.5 USDC exceeds the 0.1 USDC per-task cap");
+        },
+      },
+    });
+
+    await assert.rejects(
+      runTask(deps, { service: "analyze", taskId: "t3", file: csv }, recorder().emit),
+      (err: unknown) => err instanceof PolicyViolation && err.code === "TASK_LIMIT"
+    );
+    assert.deepStrictEqual(calls.ratings, []);
+  });
+
+  it("fails when AgentB returns no result", async () => {
+    const { deps, calls } = fakeDeps({ payment: { request: async () => null } });
+
+    await assert.rejects(
+      runTask(deps, { service: "retrieve", taskId: "t4", cid: "bafkreiwanted" }, recorder().emit),
+      /AgentB returned no result/
+    );
+    assert.deepStrictEqual(calls.ratings, []);
+  });
+
+  it("still succeeds when the reputation post is rate limited", async () => {
+    const { deps } = fakeDeps({
+      payment: {
+        request: async () => ({ kind: "storage", cid: "bafkreistored", fileName: "data.csv", fileSize: 12 }),
+      },
+      reputation: {
+        async post(_provider, _cid, { log }) {
+          log("⏭️ Reputation skipped — rate limit active. Task still succeeded.");
+          return undefined;
+        },
+      },
+    });
+    const { events, emit } = recorder();
+
+    const result = await runTask(deps, { service: "store", taskId: "t5", file: csv }, emit);
+
+    assert.deepStrictEqual(result, {
+      success: true,
+      service: "store",
+      cid: "bafkreistored",
+      fileName: "data.csv",
+      fileSize: 12,
+    });
+    const reputationStep = stepFor(getPipeline("store"), "reputation");
+    assert.ok(events.some(([step, msg]) => step === reputationStep && msg.startsWith("⏭️ Reputation skipped")));
+  });
+
+  it("stops at the next safe point once cancelled", async () => {
+    const controller = new AbortController();
+    const { deps, calls } = fakeDeps({
+      discovery: {
+        async discover() {
+          controller.abort();
+          return [PROVIDER];
+        },
+      },
+    });
+
+    await assert.rejects(
+      runTask(deps, { service: "analyze", taskId: "t6", file: csv, signal: controller.signal }, recorder().emit),
+      TaskCancelledError
+    );
+    assert.deepStrictEqual(calls.payments, []);
+  });
+
+  describe("failover", () => {
+    const DOWN: DiscoveredProvider = { ...PROVIDER, endpoint: "https://down.example/analyze", wallet: "0xdown" };
+    const ALSO_DOWN: DiscoveredProvider = { ...PROVIDER, endpoint: "https://also-down.example/analyze", wallet: "0xalso" };
+
+    /** Deps over `providers` where payment to any endpoint in `down` fails before signing. */
+    function ranked(providers: DiscoveredProvider[], down: string[], signFirst = false) {
+      const tried: string[] = [];
+      const rated: string[] = [];
+      const { deps } = fakeDeps({
+        discovery: { discover: async () => providers },
+        payment: {
+          async request(provider, _request, { onPaymentSigned }) {
+            tried.push(provider.endpoint);
+            if (signFirst) onPaymentSigned();
+            if (down.includes(provider.endpoint)) throw new ProviderUnavailableError(provider.endpoint, "HTTP 503");
+            return ANALYSIS;
+          },
+        },
+        reputation: {
+          async post(provider) {
+            rated.push(provider.wallet);
+            return undefined;
+          },
+        },
+      });
+      return { deps, tried, rated };
+    }
+
+    it("moves down the ranking and logs each failover as its own step", async () => {
+      const { deps, tried, rated } = ranked([DOWN, ALSO_DOWN, PROVIDER], [DOWN.endpoint, ALSO_DOWN.endpoint]);
+      const failovers: unknown[] = [];
+      let paid = 0;
+
+      const result = await runTask(
+        deps,
+        { service: "analyze", taskId: "f1", inputCID: "bafkreiinput", onPaymentSigned: () => paid++ },
+        (_step, _msg, extra) => void (extra?.failover && failovers.push(extra.failover))
+      );
+
+      assert.strictEqual(result.resultCID, "bafkreiresult");
+      assert.deepStrictEqual(tried, [DOWN.endpoint, ALSO_DOWN.endpoint, PROVIDER.endpoint]);
+      assert.deepStrictEqual(rated, [PROVIDER.wallet]);
+      assert.deepStrictEqual(failovers, [
+        { from: DOWN.endpoint, to: ALSO_DOWN.endpoint, reason: "HTTP 503" },
+        { from: ALSO_DOWN.endpoint, to: PROVIDER.endpoint, reason: "HTTP 503" },
+      ]);
+      assert.strictEqual(paid, 0);
+    });
+
+    it("fails once every provider is unavailable", async () => {
+      const { deps, tried } = ranked([DOWN, ALSO_DOWN], [DOWN.endpoint, ALSO_DOWN.endpoint]);
+
+      await assert.rejects(
+        runTask(deps, { service: "analyze", taskId: "f2", inputCID: "bafkreiinput" }, recorder().emit),
+        /No provider could take the request — https:\/\/also-down.example\/analyze unavailable: HTTP 503\. Nothing was paid/
+      );
+      assert.deepStrictEqual(tried, [DOWN.endpoint, ALSO_DOWN.endpoint]);
+    });
+
+    it("never moves on once a payment has been signed", async () => {
+      const { deps, tried } = ranked([DOWN, PROVIDER], [DOWN.endpoint], true);
+
+      await assert.rejects(
+        runTask(deps, { service: "analyze", taskId: "f3", inputCID: "bafkreiinput" }, recorder().emit),
+        ProviderUnavailableError
+      );
+      assert.deepStrictEqual(tried, [DOWN.endpoint]);
+    });
+  });
+});
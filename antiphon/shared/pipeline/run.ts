@@ -0,0 +1,317 @@
+import type { SelectionStrategy } from "../agents/index.js";
+import type { ProbeResult } from "../ipfs/index.js";
+import type { StorageProvider } from "../storage/index.js";
+import { metrics } from "../metrics/index.js";
+import { tracer } from "../tracing/index.js";
+import { TaskCancelledError, type Release, type StepEvent, type TaskResult } from "../tasks/index.js";
+import { pipelineForEndpoint, stepFor, type PipelineAction } from "./definitions.js";
+import { resolveServiceRoute } from "./routes.js";
+
+/** The parts of a multer upload the pipeline reads. */
+export interface UploadedFile {
+  buffer: Buffer<ArrayBuffer>;
+  originalname: string;
+  mimetype: string;
+}
+
+export interface ServiceRequest {
+  service: string;
+  file?: UploadedFile;
+  /** CID to retrieve */
+  cid?: string;
+  /** Existing CSV on IPFS — analyze skips the storage upload */
+  inputCID?: string;
+  /** How discovery ranks providers; the configured strategy when unset */
+  strategy?: SelectionStrategy;
+}
+
+/** The provider discovery picked, as AgentA calls and pays it. */
+export interface DiscoveredProvider {
+  /** Full AgentB URL for the service, e.g. `https://agent-b.example/analyze` */
+  endpoint: string;
+  /** Receives the x402 payment and the reputation rating */
+  wallet: string;
+  /** Capability the payment is made for (`file-retrieval` for retrieve) */
+  capability: string;
+}
+
+export interface StageOptions {
+  signal: AbortSignal;
+  /** Progress line for the current step */
+  log: (msg: string) => void;
+}
+
+export interface DiscoveryOptions extends StageOptions {
+  strategy?: SelectionStrategy;
+}
+
+export interface PaymentOptions extends StageOptions {
+  taskId: string;
+  /** Called once the x402 payment is signed, before it is sent */
+  onPaymentSigned: () => void;
+}
+
+/** What AgentB is paid to do. */
+export type PaidRequest =
+  | { kind: "analyze"; inputCID: string }
+  | { kind: "store"; file: UploadedFile }
+  | { kind: "retrieve"; cid: string };
+
+/** What AgentB delivered for a PaidRequest. */
+export type ServiceOutput =
+  | {
+      kind: "analysis";
+      resultCID: string;
+      summary: string;
+      statistics: Record<string, unknown>;
+      insights: string[];
+    }
+  | { kind: "storage"; cid: string; fileName: string; fileSize: number }
+  | { kind: "retrieval"; cid: string; contentType: string; data: ArrayBuffer };
+
+export interface ProviderDiscovery {
+  /** Registered providers for `service`, best first; empty when there is none. */
+  discover(service: string, options: DiscoveryOptions): Promise<DiscoveredProvider[]>;
+}
+
+/**
+ * Thrown by ServicePayment when a provider couldn't take the request and
+ * nothing was signed — unreachable, a 5xx before payment, or a 402 challenge
+ * that can't be paid — so the next provider may be tried.
+ */
+export class ProviderUnavailableError extends Error {
+  constructor(readonly endpoint: string, readonly reason: string) {
+    super(`${endpoint} unavailable: ${reason}`);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+/** Free data transport for CSVs that are analysed: whichever storage backend is configured. */
+export type TaskStorage = Pick<StorageProvider, "name" | "upload">;
+
+export interface ServicePayment {
+  /**
+   * Pay `provider` over x402 for `request`. Null when AgentB delivered
+   * nothing; throws PolicyViolation when the spending policy refuses, and
+   * ProviderUnavailableError when the provider failed before anything was signed.
+   */
+  request(provider: DiscoveredProvider, request: PaidRequest, options: PaymentOptions): Promise<ServiceOutput | null>;
+}
+
+export interface ReputationService {
+  /** Rate `provider` on-chain; the tx hash, or undefined when the post was skipped. */
+  post(provider: DiscoveredProvider, resultCID: string, options: StageOptions): Promise<string | undefined>;
+}
+
+/** The IPFS gateway AgentB fetches `inputCID` datasets from. */
+export interface DatasetGateway {
+  url(cid: string): string;
+  probe(cid: string, signal: AbortSignal): Promise<ProbeResult>;
+}
+
+export interface TaskDeps {
+  discovery: ProviderDiscovery;
+  /** Without it only inputCID analysis works */
+  storage: TaskStorage | null;
+  payment: ServicePayment;
+  reputation: ReputationService;
+  datasets: DatasetGateway;
+  /** Caps paid requests in flight per provider endpoint (TaskQueue) */
+  providerSlots?: {
+    acquireProvider(
+      endpoint: string,
+      options: { signal: AbortSignal; onQueued: (position: number) => void }
+    ): Promise<Release>;
+  };
+}
+
+export interface TaskInput extends ServiceRequest {
+  taskId: string;
+  signal?: AbortSignal;
+  /** Fires once an x402 payment has been signed, so cancellation can report it */
+  onPaymentSigned?: () => void;
+}
+
+export type TaskEmit = (stepNum: number, msg: string, extra?: Pick<StepEvent, "queuePosition" | "failover">) => void;
+
+function paidRequest(route: { endpointSuffix: string }, input: TaskInput, inputCID: string | undefined): PaidRequest {
+  if (inputCID) return { kind: "analyze", inputCID };
+  if (route.endpointSuffix === "/upload") return { kind: "store", file: input.file! };
+  return { kind: "retrieve", cid: input.cid! };
+}
+
+/**
+ * One service, end to end: discover → prepare → pay → deliver → reputation →
+ * complete. Progress goes to `emit` with step numbers from the service's
+ * pipeline definition; a fired `input.signal` stops the run at the next safe
+ * point with TaskCancelledError. A provider that fails before a payment is
+ * signed is skipped for the next one discovery ranked; once anything has been
+ * signed the task never moves on, so it is never paid for twice.
+ */
+export async function runTask(deps: TaskDeps, input: TaskInput, emit: TaskEmit): Promise<Omit<TaskResult, "liveLog">> {
+  const { service, file, cid: cidInput, taskId } = input;
+  const signal = input.signal ?? new AbortController().signal;
+  const throwIfCancelled = () => {
+    if (signal.aborted) throw new TaskCancelledError();
+  };
+
+  // Step numbers come from the shared pipeline definition, never literals
+  const route = resolveServiceRoute(service);
+  const pipeline = pipelineForEndpoint(route.endpointSuffix);
+  const step = (action: PipelineAction) => stepFor(pipeline, action);
+
+  let currentStep = step("submit");
+  const report = (stepNum: number, msg: string, extra: Parameters<TaskEmit>[2] = {}) => {
+    currentStep = stepNum;
+    emit(stepNum, msg, extra);
+  };
+  // Dependencies report into whichever step is running
+  const stage: StageOptions = { signal, log: (msg) => report(currentStep, msg) };
+
+  // Each stage is a trace span and a step-duration sample
+  const timed = <T>(name: string, spanName: string, fn: () => Promise<T>) =>
+    tracer.withSpan(spanName, { attributes: { "task.id": taskId, service } }, () =>
+      metrics.stepDuration.time({ service: pipeline.service, step: name }, fn)
+    );
+
+  // ── discover: AGENT_DISCOVER ─────────────────────────────────────────
+  report(step("discover"), `🔍 Querying ERC-8004 registry for "${service}" capability...`);
+  const providers = await timed("discovery", "AGENT_DISCOVER", () =>
+    deps.discovery.discover(service, { ...stage, ...(input.strategy && { strategy: input.strategy }) })
+  );
+  throwIfCancelled();
+
+  if (providers.length === 0) {
+    throw new Error(
+      `No provider found on-chain for service: ${service}. ` +
+        "Ensure AgentB is registered via register-services.js"
+    );
+  }
+
+  // ── prepare: upload / stage payload ──────────────────────────────────
+  let inputCID: string | undefined;
+  if (route.capability === "csv-analysis" && input.inputCID) {
+    // Dataset already on IPFS (workflow hop or caller-supplied CID):
+    // make sure AgentB will be able to fetch it before paying for the run
+    const dataset = input.inputCID;
+    report(step("prepare"), `📎 Using existing dataset — checking ${dataset.slice(0, 20)}... on the IPFS gateway`);
+    const probe = await tracer.withSpan("ipfs.probe", { kind: "client", attributes: { "ipfs.cid": dataset } }, () =>
+      deps.datasets.probe(dataset, signal)
+    );
+    if (!probe.reachable) {
+      throw new Error(
+        `Dataset ${dataset} is not reachable via ${deps.datasets.url(dataset)} ` +
+          `(${probe.error ?? `HTTP ${probe.status}`}) — nothing was paid`
+      );
+    }
+    const size = probe.contentLength !== undefined ? `, ${probe.contentLength} bytes` : "";
+    report(step("prepare"), `✅ Dataset reachable (${probe.contentType ?? "unknown type"}${size}) — inputCID: ${dataset.slice(0, 20)}...`);
+    inputCID = dataset;
+  } else if (route.capability === "csv-analysis") {
+    // CSV analysis: upload to the storage backend for FREE (data transport only)
+    // No x402, no wallet, no user interaction. AgentA's own storage.
+    if (!file) throw new Error("CSV file or inputCID required for analysis");
+    const { storage } = deps;
+    if (!storage) {
+      throw new Error("Storage unavailable — check STORAGE_BACKEND and its credentials, or pass an inputCID");
+    }
+
+    report(step("prepare"), `📤 Uploading CSV to ${storage.name} (free data transport, no payment)...`);
+    const csvFile = new File([file.buffer], file.originalname, { type: file.mimetype });
+    inputCID = await timed("upload", "storage.upload", () => storage.upload(csvFile));
+    metrics.storageUploadBytes.inc({}, file.buffer.byteLength);
+    report(step("prepare"), `✅ CSV staged — inputCID: ${inputCID.slice(0, 20)}...`);
+  } else if (route.endpointSuffix === "/upload") {
+    // File storage: the payment sends the raw buffer as multipart
+    if (!file) throw new Error("File required for storage service");
+    report(step("prepare"), `📦 Preparing file "${file.originalname}" for paid IPFS storage...`);
+  } else {
+    // File retrieval: just pass the CID
+    if (!cidInput) throw new Error("CID required for file retrieval");
+    report(step("prepare"), `🔎 Preparing retrieval request for CID: ${cidInput}...`);
+  }
+
+  // ── pay: PAYMENT_REQUEST — x402 EIP-712 auto-sign + execute ──────────
+  // Walks the ranking until a provider takes the request
+  let signed = false;
+  let provider = providers[0]!;
+  let output: ServiceOutput | null = null;
+  for (let i = 0; ; i++) {
+    throwIfCancelled();
+    provider = providers[i]!;
+    report(step("pay"), `💳 AgentA sending x402 payment → ${provider.endpoint}`);
+    const releaseProviderSlot = await deps.providerSlots?.acquireProvider(provider.endpoint, {
+      signal,
+      onQueued: (position) =>
+        report(step("pay"), `⏳ Waiting for a free slot at ${provider.endpoint} — position ${position}`, {
+          queuePosition: position,
+        }),
+    });
+    try {
+      output = await timed("payment", "PAYMENT_REQUEST", () =>
+        deps.payment.request(provider, paidRequest(route, input, inputCID), {
+          ...stage,
+          taskId,
+          onPaymentSigned: () => {
+            signed = true;
+            input.onPaymentSigned?.();
+          },
+        })
+      );
+      break;
+    } catch (err) {
+      const next = providers[i + 1];
+      if (!(err instanceof ProviderUnavailableError) || signed || signal.aborted) throw err;
+      if (!next) {
+        throw new Error(`No provider could take the request — ${err.message}. Nothing was paid`);
+      }
+      metrics.providerFailovers.inc({ capability: provider.capability });
+      report(step("pay"), `↪️ ${err.message} — nothing was paid, failing over to ${next.endpoint}`, {
+        failover: { from: provider.endpoint, to: next.endpoint, reason: err.reason },
+      });
+    } finally {
+      releaseProviderSlot?.();
+    }
+  }
+  throwIfCancelled();
+
+  if (!output) {
+    throw new Error("Task execution failed — AgentB returned no result. Check AgentB server logs.");
+  }
+
+  // ── deliver: AgentB result received ───────────────────────────────────
+  report(step("deliver"), `✅ Payment confirmed, service delivered by AgentB`);
+
+  // ── reputation: REPUTATION_POST ───────────────────────────────────────
+  report(step("reputation"), `⭐ Posting on-chain reputation for ${provider.wallet}...`);
+  const ratedCID = output.kind === "analysis" ? output.resultCID : output.kind === "storage" ? output.cid : "";
+  const reputationTxHash = await timed("reputation", "REPUTATION_POST", () =>
+    deps.reputation.post(provider, ratedCID, stage)
+  );
+  throwIfCancelled();
+
+  // ── complete ──────────────────────────────────────────────────────────
+  report(step("complete"), `🏆 Pipeline complete — all steps done`);
+
+  const result: Omit<TaskResult, "liveLog"> = { success: true, service };
+  if (reputationTxHash) result.reputationTxHash = reputationTxHash;
+  switch (output.kind) {
+    case "analysis":
+      result.resultCID = output.resultCID;
+      result.summary = output.summary;
+      result.statistics = output.statistics;
+      result.insights = output.insights;
+      break;
+    case "storage":
+      result.cid = output.cid;
+      result.fileName = output.fileName;
+      result.fileSize = output.fileSize;
+      break;
+    case "retrieval":
+      result.retrievedCID = output.cid;
+      result.retrievedContentType = output.contentType;
+      result.retrievedDataBase64 = Buffer.from(output.data).toString("base64");
+      break;
+  }
+  return result;
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { planWorkflow, WorkflowValidationError } from "./workflow.js";
+
+describe("planWorkflow", () => {
+  it("chains an ordered list through each previous step", () => {
+    const hops = planWorkflow(
+      [{ service: "retrieve", cid: "bafycsv" }, { service: "analyze" }, { service: "store" }],
+      false
+    );
+    assert.deepStrictEqual(
+      hops.map((h) => [h.id, h.inputFrom]),
+      [["step-1", undefined], ["step-2", "step-1"], ["step-3", "step-2"]]
+    );
+  });
+
+  it("orders a DAG by its dependencies", () => {
+    const hops = planWorkflow(
+      [
+        { id: "report", service: "store", dependsOn: ["analysis"] },
+        { id: "analysis", service: "analyze", dependsOn: ["fetch"] },
+        { id: "fetch", service: "retrieve", cid: "bafycsv", dependsOn: [] },
+      ],
+      false
+    );
+    assert.deepStrictEqual(hops.map((h) => h.id), ["fetch", "analysis", "report"]);
+  });
+
+  it("rejects cycles, unknown dependencies and missing root inputs", () => {
+    assert.throws(
+      () =>
+        planWorkflow(
+          [
+            { id: "a", service: "analyze", cid: "bafy", dependsOn: ["b"] },
+            { id: "b", service: "store", dependsOn: ["a"] },
+          ],
+          false
+        ),
+      /cycle/
+    );
+    assert.throws(() => planWorkflow([{ service: "analyze", dependsOn: ["nope"] }], true), /unknown step/);
+    assert.throws(() => planWorkflow([{ service: "retrieve" }], true), WorkflowValidationError);
+    assert.throws(() => planWorkflow([{ service: "mine" }], true), /service must be one of/);
+  });
+
+  it("rejects steps that aren't shaped like step specs", () => {
+    assert.throws(() => planWorkflow([null], true), /step 1: .*expected object/);
+    assert.throws(() => planWorkflow([{ service: "analyze", dependsOn: "ab" }], true), /step 1: dependsOn:/);
+    assert.throws(() => planWorkflow([{ service: "analyze", dependsOn: [1] }], true), WorkflowValidationError);
+    assert.throws(() => planWorkflow([{ id: 7, service: "analyze" }], true), /step 1: id:/);
+    assert.throws(() => planWorkflow([{ service: "toString" }], true), /service must be one of/);
+  });
+});
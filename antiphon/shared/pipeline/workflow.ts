@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { PIPELINES, type ServiceId } from "./definitions.js";
+
+/** One hop as submitted to POST /api/workflow. */
+export interface WorkflowStepSpec {
+  /** Unique within the workflow; defaults to `step-<n>` (1-based) */
+  id?: string;
+  service: ServiceId;
+  /** Explicit input for a root hop (retrieve target or an existing CSV CID for analyze) */
+  cid?: string;
+  /**
+   * Hops that must finish first. The first listed dependency feeds its output
+   * CID into this hop. Omitted → the previous hop in the list (ordered chain);
+   * `[]` → a root hop.
+   */
+  dependsOn?: string[];
+}
+
+export interface WorkflowHop {
+  id: string;
+  service: ServiceId;
+  cid?: string;
+  dependsOn: string[];
+  /** Hop whose output becomes this hop's input, if any */
+  inputFrom?: string;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowValidationError";
+  }
+}
+
+const MAX_HOPS = 10;
+
+/** Shape of one submitted step; `service` is checked against PIPELINES separately. */
+const stepSpecSchema = z.object({
+  id: z.string().min(1).optional(),
+  service: z.string().optional(),
+  cid: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+});
+
+/**
+ * Validate a workflow and return its hops in execution (topological) order.
+ * `hasFile` says whether the request carried an upload for root hops to consume.
+ */
+export function planWorkflow(specs: unknown, hasFile: boolean): WorkflowHop[] {
+  if (!Array.isArray(specs) || specs.length === 0) {
+    throw new WorkflowValidationError("steps must be a non-empty array");
+  }
+  if (specs.length > MAX_HOPS) {
+    throw new WorkflowValidationError(`a workflow may have at most ${MAX_HOPS} steps`);
+  }
+
+  const hops: WorkflowHop[] = [];
+  const ids = new Set<string>();
+
+  specs.forEach((raw, i) => {
+    const parsed = stepSpecSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]!;
+      const field = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+      throw new WorkflowValidationError(`step ${i + 1}: ${field}${issue.message}`);
+    }
+    const spec = parsed.data;
+    const id = spec.id ?? `step-${i + 1}`;
+    if (ids.has(id)) throw new WorkflowValidationError(`duplicate step id "${id}"`);
+    ids.add(id);
+
+    if (!spec.service || !Object.hasOwn(PIPELINES, spec.service)) {
+      throw new WorkflowValidationError(
+        `step "${id}": service must be one of ${Object.keys(PIPELINES).join(", ")}`
+      );
+    }
+
+    const previous = hops[i - 1];
+    const dependsOn = spec.dependsOn ?? (previous ? [previous.id] : []);
+    const hop: WorkflowHop = { id, service: spec.service as ServiceId, dependsOn };
+    if (spec.cid) hop.cid = spec.cid;
+    if (dependsOn[0]) hop.inputFrom = dependsOn[0];
+    hops.push(hop);
+  });
+
+  for (const hop of hops) {
+    for (const dep of hop.dependsOn) {
+      if (!ids.has(dep)) throw new WorkflowValidationError(`step "${hop.id}" depends on unknown step "${dep}"`);
+      if (dep === hop.id) throw new WorkflowValidationError(`step "${hop.id}" depends on itself`);
+    }
+    if (!hop.inputFrom) assertRootInput(hop, hasFile);
+  }
+
+  return topologicalOrder(hops);
+}
+
+function assertRootInput(hop: WorkflowHop, hasFile: boolean): void {
+  if (hop.service === "retrieve" && !hop.cid) {
+    throw new WorkflowValidationError(`step "${hop.id}": retrieve needs a cid`);
+  }
+  if (hop.service === "store" && !hasFile) {
+    throw new WorkflowValidationError(`step "${hop.id}": store needs an uploaded file or an upstream step`);
+  }
+  if (hop.service === "analyze" && !hop.cid && !hasFile) {
+    throw new WorkflowValidationError(`step "${hop.id}": analyze needs a cid, an uploaded file or an upstream step`);
+  }
+}
+
+/** Kahn's algorithm, stable with respect to submission order. */
+function topologicalOrder(hops: WorkflowHop[]): WorkflowHop[] {
+  const remaining = new Map(hops.map((h) => [h.id, new Set(h.dependsOn)]));
+  const ordered: WorkflowHop[] = [];
+
+  while (ordered.length < hops.length) {
+    const ready = hops.find((h) => remaining.get(h.id)?.size === 0);
+    if (!ready) {
+      const stuck = [...remaining.keys()].join(", ");
+      throw new WorkflowValidationError(`workflow has a dependency cycle between: ${stuck}`);
+    }
+    ordered.push(ready);
+    remaining.delete(ready.id);
+    for (const deps of remaining.values()) deps.delete(ready.id);
+  }
+  return ordered;
+}
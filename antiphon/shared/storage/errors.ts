@@ -0,0 +1,10 @@
+/** The backend has no object under this CID (or path). */
+export class ObjectNotFoundError extends Error {
+  constructor(
+    readonly cid: string,
+    backend: string
+  ) {
+    super(`${cid} not found in ${backend}`);
+    this.name = "ObjectNotFoundError";
+  }
+}
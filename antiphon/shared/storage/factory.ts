@@ -0,0 +1,34 @@
+import { GatewayRetriever, type RetrieverOptions } from "../ipfs/index.js";
+import { FsStorage } from "./fs.js";
+import { MemoryStorage } from "./memory.js";
+import { StorachaStorage, type StorachaCredentials } from "./storacha.js";
+import type { StorageProvider } from "./types.js";
+
+export const STORAGE_BACKENDS = ["storacha", "fs", "memory"] as const;
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+export interface StorageOptions {
+  backend: StorageBackend;
+  /** Directory of the fs backend */
+  path: string;
+  /** Gateways Storacha content is read back from */
+  retrieval: RetrieverOptions;
+  storacha?: StorachaCredentials | undefined;
+}
+
+/** The configured backend, connected; throws if it can't be used (e.g. Storacha without credentials). */
+export async function createStorage(options: StorageOptions): Promise<StorageProvider> {
+  switch (options.backend) {
+    case "memory":
+      return new MemoryStorage();
+    case "fs":
+      return new FsStorage(options.path);
+    case "storacha":
+      if (!options.storacha) {
+        throw new Error(
+          "Storacha not configured — set STORACHA_AGENT_PRIVATE_KEY and STORACHA_AGENT_DELEGATION, or STORAGE_BACKEND=fs"
+        );
+      }
+      return StorachaStorage.connect(options.storacha, new GatewayRetriever(options.retrieval));
+  }
+}
@@ -0,0 +1,53 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "fs/promises";
+import path from "path";
+import { LocalStorage, type LocalObject } from "./local.js";
+
+const DEFAULT_STORAGE_PATH = path.join("data", "blobs");
+
+/**
+ * Content-addressed store in a local directory: `<cid>` holds the bytes and
+ * `<cid>.json` the content type. Objects are immutable, so a CID that is
+ * already on disk is never rewritten; new ones land via tmp file + rename.
+ */
+export class FsStorage extends LocalStorage {
+  readonly name: string;
+
+  constructor(private root: string = DEFAULT_STORAGE_PATH) {
+    super();
+    this.name = `the local store at ${root}`;
+  }
+
+  protected async read(cid: string): Promise<LocalObject | undefined> {
+    try {
+      const [bytes, meta] = await Promise.all([
+        readFile(path.join(this.root, cid)),
+        readFile(path.join(this.root, `${cid}.json`), "utf8"),
+      ]);
+      return { bytes: new Uint8Array(bytes), contentType: (JSON.parse(meta) as { contentType: string }).contentType };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  protected async write(cid: string, { bytes, contentType }: LocalObject): Promise<void> {
+    if (await this.read(cid)) return;
+    await mkdir(this.root, { recursive: true });
+    // Metadata first: an object is only readable once both files exist
+    await this.atomicWrite(`${cid}.json`, JSON.stringify({ contentType }));
+    await this.atomicWrite(cid, bytes);
+  }
+
+  async describe(): Promise<Record<string, unknown>> {
+    await mkdir(this.root, { recursive: true });
+    const files = await readdir(this.root);
+    return { backend: "fs", path: this.root, objects: files.filter((f) => !f.endsWith(".json") && !f.endsWith(".tmp")).length };
+  }
+
+  private async atomicWrite(name: string, data: string | Uint8Array): Promise<void> {
+    const target = path.join(this.root, name);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, data);
+    await rename(tmp, target);
+  }
+}
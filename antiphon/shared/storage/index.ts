@@ -0,0 +1,9 @@
+export { createStorage, STORAGE_BACKENDS } from "./factory.js";
+export type { StorageBackend, StorageOptions } from "./factory.js";
+export { StorachaStorage, initStoracha } from "./storacha.js";
+export type { StorachaClient, StorachaCredentials } from "./storacha.js";
+export { FsStorage } from "./fs.js";
+export { MemoryStorage } from "./memory.js";
+export { LocalStorage } from "./local.js";
+export { ObjectNotFoundError } from "./errors.js";
+export type { StorageProvider, StoredObject, ObjectStat, RetrieveOptions } from "./types.js";
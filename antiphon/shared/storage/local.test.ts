@@ -0,0 +1,86 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { InvalidCidError } from "../ipfs/index.js";
+import { ObjectNotFoundError } from "./errors.js";
+import { createStorage } from "./factory.js";
+import { FsStorage } from "./fs.js";
+import { MemoryStorage } from "./memory.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-storage-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const csv = () => new Blob(["a,b\n1,2\n"], { type: "text/csv" });
+
+for (const [label, make] of [
+  ["MemoryStorage", async () => new MemoryStorage()],
+  ["FsStorage", async () => new FsStorage(await tempDir())],
+] as const) {
+  describe(label, () => {
+    it("stores content under a stable raw CID", async () => {
+      const storage = await make();
+      const cid = await storage.upload(csv());
+
+      assert.match(cid, /^bafkrei/);
+      assert.strictEqual(await storage.upload(csv()), cid);
+      const object = await storage.retrieve(cid);
+      assert.strictEqual(new TextDecoder().decode(object.bytes), "a,b\n1,2\n");
+      assert.strictEqual(object.contentType, "text/csv");
+      assert.deepStrictEqual(await storage.stat(cid), { cid, size: 8, contentType: "text/csv" });
+    });
+
+    it("resolves files inside an uploaded directory", async () => {
+      const storage = await make();
+      const dir = await storage.uploadDirectory([
+        new File(["a,b\n1,2\n"], "data.csv", { type: "text/csv" }),
+        new File(["{}"], "meta.json", { type: "application/json" }),
+      ]);
+
+      const file = await storage.retrieve(`${dir}/data.csv`);
+      assert.strictEqual(file.cid, await storage.upload(csv()));
+      assert.strictEqual((await storage.stat(`${dir}/meta.json`))?.contentType, "application/json");
+      assert.strictEqual(await storage.stat(`${dir}/missing.csv`), null);
+      await assert.rejects(
+        storage.uploadDirectory([new File(["1"], "x.csv"), new File(["2"], "x.csv")]),
+        /unique, non-empty file names/
+      );
+    });
+
+    it("reports unknown and malformed CIDs", async () => {
+      const storage = await make();
+      const unknown = await new MemoryStorage().upload(new Blob(["elsewhere"]));
+
+      await assert.rejects(storage.retrieve(unknown), ObjectNotFoundError);
+      assert.strictEqual(await storage.stat(unknown), null);
+      await assert.rejects(storage.retrieve("not-a-cid"), InvalidCidError);
+    });
+  });
+}
+
+describe("FsStorage", () => {
+  it("keeps objects across instances on the same directory", async () => {
+    const root = await tempDir();
+    const cid = await new FsStorage(root).upload(csv());
+
+    const reopened = new FsStorage(root);
+    assert.strictEqual((await reopened.retrieve(cid)).contentType, "text/csv");
+    assert.deepStrictEqual(await reopened.describe(), { backend: "fs", path: root, objects: 1 });
+  });
+});
+
+describe("createStorage", () => {
+  it("builds the configured backend", async () => {
+    const options = { path: await tempDir(), retrieval: { gateways: ["https://w3s.link"] } };
+    assert.ok((await createStorage({ ...options, backend: "memory" })) instanceof MemoryStorage);
+    assert.ok((await createStorage({ ...options, backend: "fs" })) instanceof FsStorage);
+    await assert.rejects(createStorage({ ...options, backend: "storacha" }), /Storacha not configured/);
+  });
+});
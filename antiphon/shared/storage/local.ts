@@ -0,0 +1,91 @@
+import { CID } from "multiformats/cid";
+import * as json from "multiformats/codecs/json";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+import { parseCid } from "../ipfs/index.js";
+import { ObjectNotFoundError } from "./errors.js";
+import type { ObjectStat, StorageProvider, StoredObject } from "./types.js";
+
+export interface LocalObject {
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+/** Directory manifest: file name → CID of its content */
+interface Manifest {
+  entries: Record<string, string>;
+}
+
+const MANIFEST_TYPE = "application/json";
+
+/**
+ * Shared logic of the stores that keep content themselves. Files get a CIDv1
+ * of the raw codec over their sha2-256 digest, so the CIDs parse and verify
+ * like IPFS ones; directories are a json-codec manifest of name → CID rather
+ * than UnixFS, so only Storacha produces directory CIDs a public gateway knows.
+ */
+export abstract class LocalStorage implements StorageProvider {
+  abstract readonly name: string;
+
+  protected abstract read(cid: string): Promise<LocalObject | undefined>;
+  protected abstract write(cid: string, object: LocalObject): Promise<void>;
+
+  /** Store `bytes` as-is; returns the CID. */
+  async put(bytes: Uint8Array, contentType = "application/octet-stream"): Promise<string> {
+    const cid = CID.create(1, raw.code, await sha256.digest(bytes)).toString();
+    await this.write(cid, { bytes, contentType });
+    return cid;
+  }
+
+  async upload(file: Blob): Promise<string> {
+    return this.put(new Uint8Array(await file.arrayBuffer()), file.type || undefined);
+  }
+
+  async uploadDirectory(files: File[]): Promise<string> {
+    const entries: Record<string, string> = {};
+    for (const file of files) {
+      if (!file.name || file.name in entries) {
+        throw new Error(`Directory needs unique, non-empty file names (got "${file.name}")`);
+      }
+      entries[file.name] = await this.upload(file);
+    }
+    // Sorted, so the same files always give the same directory CID
+    const names = Object.keys(entries).sort();
+    const manifest: Manifest = { entries: Object.fromEntries(names.map((name) => [name, entries[name]!])) };
+    const bytes = json.encode(manifest);
+    const cid = CID.create(1, json.code, await sha256.digest(bytes)).toString();
+    await this.write(cid, { bytes, contentType: MANIFEST_TYPE });
+    return cid;
+  }
+
+  async retrieve(cid: string): Promise<StoredObject> {
+    const found = await this.lookup(cid);
+    if (!found) throw new ObjectNotFoundError(cid, this.name);
+    return found;
+  }
+
+  async stat(cid: string): Promise<ObjectStat | null> {
+    const found = await this.lookup(cid);
+    return found ? { cid: found.cid, size: found.bytes.length, contentType: found.contentType } : null;
+  }
+
+  private async lookup(cidPath: string): Promise<StoredObject | undefined> {
+    const cid = await this.resolve(cidPath);
+    const object = cid === undefined ? undefined : await this.read(cid);
+    return object && cid !== undefined ? { cid, ...object } : undefined;
+  }
+
+  /** The CID a `<cid>[/<path>]` refers to, or undefined when a path segment is missing. */
+  private async resolve(cidPath: string): Promise<string | undefined> {
+    const slash = cidPath.indexOf("/");
+    const root = parseCid(slash === -1 ? cidPath : cidPath.slice(0, slash));
+    if (slash === -1) return root.toString();
+
+    if (root.code !== json.code) return undefined;
+    const manifest = await this.read(root.toString());
+    if (!manifest) return undefined;
+    return (json.decode(manifest.bytes) as Manifest).entries[cidPath.slice(slash + 1)];
+  }
+
+  abstract describe(): Promise<Record<string, unknown>>;
+}
@@ -0,0 +1,23 @@
+import { LocalStorage, type LocalObject } from "./local.js";
+
+/** Content-addressed store that lives as long as the process — tests and the dev stack. */
+export class MemoryStorage extends LocalStorage {
+  readonly name = "the in-memory store";
+  private objects = new Map<string, LocalObject>();
+
+  get size(): number {
+    return this.objects.size;
+  }
+
+  protected async read(cid: string): Promise<LocalObject | undefined> {
+    return this.objects.get(cid);
+  }
+
+  protected async write(cid: string, object: LocalObject): Promise<void> {
+    this.objects.set(cid, object);
+  }
+
+  async describe(): Promise<Record<string, unknown>> {
+    return { backend: "memory", objects: this.objects.size };
+  }
+}
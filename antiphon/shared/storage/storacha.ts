@@ -0,0 +1,91 @@
+import * as Client from "@storacha/client";
+import { StoreMemory } from "@storacha/client/stores/memory";
+import * as Proof from "@storacha/client/proof";
+import { Signer } from "@storacha/client/principal/ed25519";
+import { GatewayRetrievalError, probeGateway, type GatewayRetriever } from "../ipfs/index.js";
+import { ObjectNotFoundError } from "./errors.js";
+import type { ObjectStat, RetrieveOptions, StorageProvider, StoredObject } from "./types.js";
+
+export interface StorachaCredentials {
+  agentPrivateKey: string;
+  delegation: string;
+}
+
+/** The parts of the Storacha client the provider uses. */
+export interface StorachaClient {
+  uploadFile(file: Blob): Promise<{ toString(): string }>;
+  uploadDirectory(files: File[]): Promise<{ toString(): string }>;
+  currentSpace(): { did(): string } | undefined;
+}
+
+/** A Storacha client acting as AgentA's agent key, with the delegated space selected. */
+export async function initStoracha({ agentPrivateKey, delegation }: StorachaCredentials) {
+  try {
+    const principal = Signer.parse(agentPrivateKey);
+    const store = new StoreMemory();
+    const client = await Client.create({ principal, store });
+
+    const proof = await Proof.parse(delegation);
+    const space = await client.addSpace(proof);
+    await client.setCurrentSpace(space.did());
+
+    return client;
+  } catch (error: any) {
+    console.error("Error initializing Storacha client:", error);
+    throw new Error("Failed to initialize Storacha client: " + error.message);
+  }
+}
+
+/**
+ * Uploads go to the delegated Storacha space; reads go through the IPFS
+ * gateways, where Storacha content is published, and are verified against
+ * the CID. Verified blocks carry no content type, so reads report
+ * application/octet-stream.
+ */
+export class StorachaStorage implements StorageProvider {
+  readonly name = "Storacha";
+
+  constructor(
+    private client: StorachaClient,
+    private retriever: GatewayRetriever
+  ) {}
+
+  static async connect(credentials: StorachaCredentials, retriever: GatewayRetriever): Promise<StorachaStorage> {
+    return new StorachaStorage(await initStoracha(credentials), retriever);
+  }
+
+  async upload(file: Blob): Promise<string> {
+    return (await this.client.uploadFile(file)).toString();
+  }
+
+  async uploadDirectory(files: File[]): Promise<string> {
+    return (await this.client.uploadDirectory(files)).toString();
+  }
+
+  async retrieve(cid: string, options: RetrieveOptions = {}): Promise<StoredObject> {
+    try {
+      const { bytes } = await this.retriever.retrieve(cid, options);
+      return { cid, bytes, contentType: "application/octet-stream" };
+    } catch (err) {
+      if (err instanceof GatewayRetrievalError && err.notFound) throw new ObjectNotFoundError(cid, this.name);
+      throw err;
+    }
+  }
+
+  async stat(cid: string, { signal }: RetrieveOptions = {}): Promise<ObjectStat | null> {
+    const [gateway] = this.retriever.gateways;
+    const probe = await probeGateway(cid, { ...(gateway && { gateway }), ...(signal && { signal }) });
+    if (!probe.reachable) return null;
+    return {
+      cid,
+      ...(probe.contentLength !== undefined && { size: probe.contentLength }),
+      contentType: probe.contentType ?? "application/octet-stream",
+    };
+  }
+
+  async describe(): Promise<Record<string, unknown>> {
+    const space = this.client.currentSpace();
+    if (!space) throw new Error("no current space");
+    return { backend: "storacha", space: space.did(), gateways: this.retriever.gateways };
+  }
+}
@@ -0,0 +1,35 @@
+export interface StoredObject {
+  cid: string;
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+export interface ObjectStat {
+  cid: string;
+  /** Unknown when a gateway doesn't report it */
+  size?: number;
+  contentType: string;
+}
+
+export interface RetrieveOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Content-addressed storage the coordinator moves data through. Every `cid`
+ * argument may carry a path into an uploaded directory (`<dirCID>/<name>`).
+ */
+export interface StorageProvider {
+  /** Shown in progress messages and the health report */
+  readonly name: string;
+  /** Store one file; returns its CID. */
+  upload(file: Blob): Promise<string>;
+  /** Store files under one directory CID; each is reachable as `<dirCID>/<file.name>`. */
+  uploadDirectory(files: File[]): Promise<string>;
+  /** Throws ObjectNotFoundError if the backend doesn't have `cid`. */
+  retrieve(cid: string, options?: RetrieveOptions): Promise<StoredObject>;
+  /** Size and type without the content, or null if the backend doesn't have `cid`. */
+  stat(cid: string, options?: RetrieveOptions): Promise<ObjectStat | null>;
+  /** Backend details for the health report; throws when the backend is unusable. */
+  describe(): Promise<Record<string, unknown>>;
+}
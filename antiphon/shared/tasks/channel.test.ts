@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { setTimeout as sleep } from "timers/promises";
+import { formatSseEvent, isTerminalEvent, parseLastEventId, TaskChannel, TaskStreams, type TaskEvent } from "./channel.js";
+
+const step = (stepNum: number, msg: string) => ({ event: "step" as const, data: { stepNum, msg, liveLog: [msg] } });
+
+describe("TaskChannel", () => {
+  it("numbers events and replays everything after Last-Event-ID", () => {
+    const channel = new TaskChannel();
+    const live: TaskEvent[] = [];
+    channel.on("event", (evt: TaskEvent) => live.push(evt));
+
+    channel.publish(step(1, "submitted"));
+    channel.publish(step(2, "discovering"));
+    channel.publish({ event: "done", data: { success: true, service: "analyze", liveLog: [] } });
+
+    assert.deepStrictEqual(live.map((e) => e.id), [1, 2, 3]);
+    assert.deepStrictEqual(channel.since(0).map((e) => e.id), [1, 2, 3]);
+    assert.deepStrictEqual(channel.since(1).map((e) => e.id), [2, 3]);
+    assert.deepStrictEqual(channel.since(3), []);
+    // An id from a previous run of the channel replays nothing, not everything
+    assert.deepStrictEqual(channel.since(99), []);
+  });
+
+  it("is finished once a terminal event is published", () => {
+    const channel = new TaskChannel();
+    assert.strictEqual(channel.finished, false);
+    channel.publish(step(1, "submitted"));
+    assert.strictEqual(channel.finished, false);
+    const cancelled = channel.publish({ event: "cancelled", data: { taskId: "t1", paid: false, liveLog: [] } });
+    assert.strictEqual(channel.finished, true);
+    assert.ok(isTerminalEvent(cancelled));
+  });
+});
+
+describe("TaskStreams", () => {
+  it("keeps a retired channel for the retention period only", async () => {
+    const streams = new TaskStreams(20);
+    const channel = streams.open("t1");
+    streams.open("t2");
+
+    streams.retire("t1");
+    assert.strictEqual(streams.get("t1"), channel);
+    await sleep(50);
+    assert.strictEqual(streams.get("t1"), undefined);
+    assert.ok(streams.get("t2"));
+    streams.close();
+  });
+
+  it("doesn't expire a channel reopened for the same task", async () => {
+    const streams = new TaskStreams(20);
+    streams.open("t1");
+    streams.retire("t1");
+    const reopened = streams.open("t1");
+
+    await sleep(50);
+    assert.strictEqual(streams.get("t1"), reopened);
+    streams.close();
+  });
+});
+
+describe("formatSseEvent", () => {
+  it("sends steps as default messages and names terminal events", () => {
+    assert.strictEqual(
+      formatSseEvent({ id: 4, ...step(2, "hi") }),
+      `id: 4\ndata: {"stepNum":2,"msg":"hi","liveLog":["hi"]}\n\n`
+    );
+    assert.strictEqual(
+      formatSseEvent({ id: 5, event: "error", data: { error: "boom", liveLog: [] } }),
+      `id: 5\nevent: error\ndata: {"error":"boom","liveLog":[]}\n\n`
+    );
+  });
+});
+
+describe("parseLastEventId", () => {
+  it("reads positive ids and treats anything else as the start", () => {
+    assert.strictEqual(parseLastEventId("7"), 7);
+    assert.strictEqual(parseLastEventId(undefined), 0);
+    assert.strictEqual(parseLastEventId(""), 0);
+    assert.strictEqual(parseLastEventId("abc"), 0);
+    assert.strictEqual(parseLastEventId("-3"), 0);
+    assert.strictEqual(parseLastEventId(["7"]), 0);
+  });
+});
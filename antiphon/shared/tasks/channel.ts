@@ -0,0 +1,102 @@
+import { EventEmitter } from "events";
+import type { CancelledResult, ErrorResult, StepEvent, TaskResult } from "./types.js";
+
+export type TaskEvent =
+  | { id: number; event: "step"; data: StepEvent }
+  | { id: number; event: "done"; data: TaskResult }
+  | { id: number; event: "error"; data: ErrorResult }
+  | { id: number; event: "cancelled"; data: CancelledResult };
+
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+type TaskEventInput = WithoutId<TaskEvent>;
+
+const TERMINAL_EVENTS = new Set<TaskEvent["event"]>(["done", "error", "cancelled"]);
+
+export function isTerminalEvent(evt: TaskEvent): boolean {
+  return TERMINAL_EVENTS.has(evt.event);
+}
+
+/**
+ * Per-task event log. Every published event gets a monotonically increasing id
+ * and is kept in order, so SSE subscribers can attach late or reconnect with
+ * `Last-Event-ID` and still see every step plus the terminal done/error/cancelled.
+ *
+ * Emits `'event'` with the buffered {@link TaskEvent} for live subscribers.
+ */
+export class TaskChannel extends EventEmitter {
+  private events: TaskEvent[] = [];
+  private nextId = 1;
+
+  publish(input: TaskEventInput): TaskEvent {
+    const evt = { ...input, id: this.nextId++ } as TaskEvent;
+    this.events.push(evt);
+    this.emit("event", evt);
+    return evt;
+  }
+
+  /** Buffered events with id greater than `lastEventId` (0 replays everything). */
+  since(lastEventId: number): TaskEvent[] {
+    return this.events.filter((evt) => evt.id > lastEventId);
+  }
+
+  get finished(): boolean {
+    const last = this.events[this.events.length - 1];
+    return !!last && isTerminalEvent(last);
+  }
+}
+
+/**
+ * Channels by taskId. A finished task's channel is kept for `retentionMs` so
+ * clients can still reconnect with `Last-Event-ID`; after that the task store
+ * answers for it.
+ */
+export class TaskStreams {
+  private channels = new Map<string, TaskChannel>();
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(private retentionMs: number) {}
+
+  /** A fresh channel for `taskId`, replacing any earlier one. */
+  open(taskId: string): TaskChannel {
+    const channel = new TaskChannel();
+    this.channels.set(taskId, channel);
+    return channel;
+  }
+
+  get(taskId: string): TaskChannel | undefined {
+    return this.channels.get(taskId);
+  }
+
+  /** Drop `taskId`'s channel once the retention period is over. */
+  retire(taskId: string): void {
+    const channel = this.channels.get(taskId);
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (this.channels.get(taskId) === channel) this.channels.delete(taskId);
+    }, this.retentionMs);
+    timer.unref();
+    this.timers.add(timer);
+  }
+
+  /** Drop every channel and pending expiry (shutdown / tests). */
+  close(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.channels.clear();
+  }
+}
+
+/**
+ * Serialize an event as an SSE frame. Step events use the default `message`
+ * type so `EventSource.onmessage` receives them; terminal events are named.
+ */
+export function formatSseEvent(evt: TaskEvent): string {
+  const name = evt.event === "step" ? "" : `event: ${evt.event}\n`;
+  return `id: ${evt.id}\n${name}data: ${JSON.stringify(evt.data)}\n\n`;
+}
+
+/** Parse a `Last-Event-ID` header / query value; anything unusable means "from the start". */
+export function parseLastEventId(value: unknown): number {
+  const n = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
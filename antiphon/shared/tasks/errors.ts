@@ -0,0 +1,7 @@
+/** Thrown inside the pipeline once a task's AbortSignal fires (DELETE /api/task/:taskId). */
+export class TaskCancelledError extends Error {
+  constructor(message = "Task cancelled by requester") {
+    super(message);
+    this.name = "TaskCancelledError";
+  }
+}
@@ -0,0 +1,65 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  IdempotencyConflictError,
+  IdempotencyStore,
+  InvalidIdempotencyKeyError,
+  fingerprintRequest,
+} from "./idempotency.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function tempStorePath(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-idempotency-"));
+  tempDirs.push(dir);
+  return path.join(dir, "idempotency.json");
+}
+
+describe("fingerprintRequest", () => {
+  it("ignores field order but not file contents", () => {
+    const file = { buffer: Buffer.from("a,b\n1,2"), originalname: "data.csv" };
+    assert.strictEqual(
+      fingerprintRequest({ service: "analyze", cid: undefined }, file),
+      fingerprintRequest({ cid: undefined, service: "analyze" }, file)
+    );
+    assert.notStrictEqual(
+      fingerprintRequest({ service: "analyze" }, file),
+      fingerprintRequest({ service: "analyze" }, { ...file, buffer: Buffer.from("a,b\n1,3") })
+    );
+  });
+});
+
+describe("IdempotencyStore", () => {
+  it("returns the original taskId for a repeat and survives a reload", async () => {
+    const file = await tempStorePath();
+    const store = new IdempotencyStore(file);
+    assert.strictEqual(store.lookup("0xabc", "key-1", "fp"), undefined);
+    store.remember("0xabc", "key-1", "fp", "task-1");
+    await store.flush();
+
+    const reloaded = new IdempotencyStore(file);
+    await reloaded.load();
+    assert.strictEqual(reloaded.lookup("0xabc", "key-1", "fp"), "task-1");
+  });
+
+  it("scopes keys per requester and rejects a different body", async () => {
+    const store = new IdempotencyStore(await tempStorePath());
+    store.remember("0xabc", "key-1", "fp", "task-1");
+    assert.strictEqual(store.lookup("0xdef", "key-1", "other"), undefined);
+    assert.throws(() => store.lookup("0xabc", "key-1", "other"), IdempotencyConflictError);
+    assert.throws(() => store.lookup("0xabc", "has space", "fp"), InvalidIdempotencyKeyError);
+    await store.flush();
+  });
+
+  it("forgets keys after the TTL", async () => {
+    const store = new IdempotencyStore(await tempStorePath(), 1);
+    store.remember("0xabc", "key-1", "fp", "task-1");
+    await new Promise((r) => setTimeout(r, 5));
+    assert.strictEqual(store.lookup("0xabc", "key-1", "fp"), undefined);
+    await store.flush();
+  });
+});
@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { JsonFile } from "../persistence/index.js";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+const DEFAULT_IDEMPOTENCY_STORE_PATH = path.join("data", "idempotency.json");
+
+/** Same Idempotency-Key reused with a different request body. */
+export class IdempotencyConflictError extends Error {
+  constructor(key: string) {
+    super(`Idempotency-Key "${key}" was already used for a different request`);
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+export class InvalidIdempotencyKeyError extends Error {
+  constructor() {
+    super(`Idempotency-Key must be 1–${MAX_KEY_LENGTH} visible ASCII characters`);
+    this.name = "InvalidIdempotencyKeyError";
+  }
+}
+
+interface IdempotencyEntry {
+  /** `<scope>:<key>` — keys are per requester */
+  id: string;
+  fingerprint: string;
+  taskId: string;
+  expiresAt: string;
+}
+
+/**
+ * sha256 over the request fields plus the uploaded file's bytes, so a retry
+ * only matches when it would have started the exact same task.
+ */
+export function fingerprintRequest(
+  fields: Record<string, unknown>,
+  file?: { buffer: Buffer; originalname: string }
+): string {
+  const hash = createHash("sha256");
+  const sorted = Object.keys(fields)
+    .sort()
+    .map((k) => [k, fields[k] ?? null]);
+  hash.update(JSON.stringify(sorted));
+  if (file) {
+    hash.update("\0file\0").update(file.originalname).update("\0").update(file.buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Idempotency-Key → taskId map persisted to a JSON file (shared/persistence
+ * JsonFile). Entries expire after `ttlMs`.
+ */
+export class IdempotencyStore {
+  private entries = new Map<string, IdempotencyEntry>();
+  private file: JsonFile;
+
+  constructor(
+    private filePath: string = DEFAULT_IDEMPOTENCY_STORE_PATH,
+    private ttlMs: number = DEFAULT_TTL_MS
+  ) {
+    this.file = new JsonFile(filePath, "IdempotencyStore");
+  }
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    const now = new Date().toISOString();
+    for (const entry of JSON.parse(raw) as IdempotencyEntry[]) {
+      if (entry.expiresAt > now) this.entries.set(entry.id, entry);
+    }
+  }
+
+  /**
+   * taskId previously started for this key, or undefined for a new key.
+   * Throws IdempotencyConflictError if the key was used with another body.
+   */
+  lookup(scope: string, key: string, fingerprint: string): string | undefined {
+    assertValidKey(key);
+    const entry = this.entries.get(`${scope}:${key}`);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= new Date().toISOString()) {
+      this.entries.delete(entry.id);
+      return undefined;
+    }
+    if (entry.fingerprint !== fingerprint) throw new IdempotencyConflictError(key);
+    return entry.taskId;
+  }
+
+  remember(scope: string, key: string, fingerprint: string, taskId: string): void {
+    assertValidKey(key);
+    this.prune();
+    const id = `${scope}:${key}`;
+    const expiresAt = new Date(Date.now() + this.ttlMs).toISOString();
+    this.entries.set(id, { id, fingerprint, taskId, expiresAt });
+    this.persist();
+  }
+
+  /** Resolves once every scheduled write has reached disk. */
+  flush(): Promise<void> {
+    return this.file.flush();
+  }
+
+  private prune(): void {
+    const now = new Date().toISOString();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(id);
+    }
+  }
+
+  private persist(): void {
+    this.file.write(() => [...this.entries.values()]);
+  }
+}
+
+function assertValidKey(key: string): void {
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new InvalidIdempotencyKeyError();
+  }
+}
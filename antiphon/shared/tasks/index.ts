@@ -0,0 +1,25 @@
+export { TaskStore } from "./store.js";
+export type { TaskListFilter } from "./store.js";
+export type {
+  StepEvent,
+  ProviderFailover,
+  TaskResult,
+  ErrorResult,
+  CancelledResult,
+  TaskStatus,
+  TaskRecord,
+  TaskSummary,
+  WorkflowHopRef,
+  WorkflowHopResult,
+} from "./types.js";
+export { TaskChannel, TaskStreams, formatSseEvent, parseLastEventId, isTerminalEvent } from "./channel.js";
+export type { TaskEvent } from "./channel.js";
+export { TaskCancelledError } from "./errors.js";
+export { TaskQueue, ConcurrencyLimiter } from "./queue.js";
+export type { Release, AcquireOptions, TaskQueueOptions, TaskQueueStats } from "./queue.js";
+export {
+  IdempotencyStore,
+  IdempotencyConflictError,
+  InvalidIdempotencyKeyError,
+  fingerprintRequest,
+} from "./idempotency.js";
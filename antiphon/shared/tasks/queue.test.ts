@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { ConcurrencyLimiter, TaskQueue } from "./queue.js";
+import { TaskCancelledError } from "./errors.js";
+
+describe("ConcurrencyLimiter", () => {
+  it("admits up to the limit and queues the rest in FIFO order", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const release1 = await limiter.acquire();
+
+    const positions: number[] = [];
+    const order: string[] = [];
+    const second = limiter.acquire({ onQueued: (p) => positions.push(p) }).then((r) => {
+      order.push("second");
+      return r;
+    });
+    const third = limiter.acquire().then((r) => {
+      order.push("third");
+      return r;
+    });
+    assert.strictEqual(limiter.queued, 2);
+    assert.deepStrictEqual(positions, [1]);
+
+    release1();
+    const release2 = await second;
+    release2();
+    const release3 = await third;
+    release3();
+
+    assert.deepStrictEqual(order, ["second", "third"]);
+    assert.strictEqual(limiter.running, 0);
+  });
+
+  it("updates positions as waiters ahead are admitted", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const release = await limiter.acquire();
+    void limiter.acquire();
+    const positions: number[] = [];
+    void limiter.acquire({ onQueued: (p) => positions.push(p) });
+
+    release();
+    assert.deepStrictEqual(positions, [2, 1]);
+  });
+
+  it("rejects a queued waiter with TaskCancelledError when aborted", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = limiter.acquire({ signal: controller.signal });
+    controller.abort();
+    await assert.rejects(waiting, TaskCancelledError);
+    assert.strictEqual(limiter.queued, 0);
+  });
+});
+
+describe("TaskQueue", () => {
+  it("limits each provider endpoint independently", async () => {
+    const queue = new TaskQueue({ concurrency: 4, perProviderConcurrency: 1 });
+    const a = await queue.acquireProvider("http://a/analyze");
+    const b = await queue.acquireProvider("http://b/upload");
+
+    let queuedAt = 0;
+    const a2 = queue.acquireProvider("http://a/analyze", { onQueued: (p) => (queuedAt = p) });
+    assert.strictEqual(queuedAt, 1);
+    assert.deepStrictEqual(queue.stats().providers["http://a/analyze"], { running: 1, queued: 1 });
+
+    a();
+    (await a2)();
+    b();
+    assert.deepStrictEqual(queue.stats().providers, {});
+  });
+});
@@ -0,0 +1,139 @@
+import { TaskCancelledError } from "./errors.js";
+
+export type Release = () => void;
+
+export interface AcquireOptions {
+  /** Abort while waiting → the promise rejects with TaskCancelledError */
+  signal?: AbortSignal;
+  /** Called when the caller has to wait, and again whenever its 1-based position changes */
+  onQueued?: (position: number) => void;
+}
+
+interface Waiter {
+  grant: (release: Release) => void;
+  onQueued: ((position: number) => void) | undefined;
+}
+
+/** FIFO counting semaphore. */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(readonly limit: number) {}
+
+  get running(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  acquire(options: AcquireOptions = {}): Promise<Release> {
+    const { signal, onQueued } = options;
+    if (signal?.aborted) return Promise.reject(new TaskCancelledError());
+
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve(this.releaser());
+    }
+
+    return new Promise<Release>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        this.notifyPositions();
+        reject(new TaskCancelledError());
+      };
+      const waiter: Waiter = {
+        grant: (release) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(release);
+        },
+        onQueued,
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      onQueued?.(this.waiters.length);
+    });
+  }
+
+  private releaser(): Release {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) {
+        // Slot passes straight to the next waiter; `active` stays the same
+        next.grant(this.releaser());
+        this.notifyPositions();
+      } else {
+        this.active--;
+      }
+    };
+  }
+
+  private notifyPositions(): void {
+    this.waiters.forEach((w, i) => w.onQueued?.(i + 1));
+  }
+}
+
+export interface TaskQueueOptions {
+  /** Max pipelines running at once across the coordinator */
+  concurrency: number;
+  /** Max paid requests in flight against a single provider endpoint */
+  perProviderConcurrency: number;
+}
+
+export interface TaskQueueStats {
+  running: number;
+  queued: number;
+  concurrency: number;
+  perProviderConcurrency: number;
+  providers: Record<string, { running: number; queued: number }>;
+}
+
+/**
+ * Two-level admission control for the coordinator: a global slot is held for
+ * the whole pipeline, a provider slot only around the paid request to it.
+ */
+export class TaskQueue {
+  private global: ConcurrencyLimiter;
+  private providers = new Map<string, ConcurrencyLimiter>();
+
+  constructor(private options: TaskQueueOptions) {
+    this.global = new ConcurrencyLimiter(options.concurrency);
+  }
+
+  acquire(options?: AcquireOptions): Promise<Release> {
+    return this.global.acquire(options);
+  }
+
+  async acquireProvider(endpoint: string, options?: AcquireOptions): Promise<Release> {
+    let limiter = this.providers.get(endpoint);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(this.options.perProviderConcurrency);
+      this.providers.set(endpoint, limiter);
+    }
+    const release = await limiter.acquire(options);
+    return () => {
+      release();
+      // Drop idle limiters so the map doesn't grow with every endpoint ever seen
+      if (limiter.running === 0 && limiter.queued === 0) this.providers.delete(endpoint);
+    };
+  }
+
+  stats(): TaskQueueStats {
+    const providers: TaskQueueStats["providers"] = {};
+    for (const [endpoint, limiter] of this.providers) {
+      providers[endpoint] = { running: limiter.running, queued: limiter.queued };
+    }
+    return {
+      running: this.global.running,
+      queued: this.global.queued,
+      concurrency: this.options.concurrency,
+      perProviderConcurrency: this.options.perProviderConcurrency,
+      providers,
+    };
+  }
+}
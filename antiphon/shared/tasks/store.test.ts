@@ -0,0 +1,108 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { TaskStore } from "./store.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function tempStorePath(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "antiphon-tasks-"));
+  tempDirs.push(dir);
+  return path.join(dir, "tasks.json");
+}
+
+describe("TaskStore", () => {
+  it("persists a completed task and reloads it", async () => {
+    const file = await tempStorePath();
+    const store = new TaskStore(file);
+    store.create("t1", "analyze");
+    store.recordStep("t1", 2, ["🔍 discovering"]);
+    store.complete("t1", {
+      success: true,
+      service: "analyze",
+      liveLog: ["🔍 discovering", "🏆 done"],
+      resultCID: "bafyresult",
+    });
+    await store.flush();
+
+    const reloaded = new TaskStore(file);
+    await reloaded.load();
+    const task = reloaded.get("t1");
+    assert.ok(task);
+    assert.strictEqual(task.status, "done");
+    assert.strictEqual(task.result?.resultCID, "bafyresult");
+    assert.deepStrictEqual(task.liveLog, ["🔍 discovering", "🏆 done"]);
+  });
+
+  it("does not persist retrieved file bytes", async () => {
+    const file = await tempStorePath();
+    const store = new TaskStore(file);
+    store.create("t2", "retrieve");
+    store.complete("t2", {
+      success: true,
+      service: "retrieve",
+      liveLog: [],
+      retrievedCID: "bafyfile",
+      retrievedDataBase64: "aGVsbG8=",
+    });
+    await store.flush();
+
+    const raw = await readFile(file, "utf8");
+    assert.ok(!raw.includes("aGVsbG8="));
+    assert.strictEqual(store.list()[0]?.resultCID, "bafyfile");
+  });
+
+  it("records a cancelled task and whether it had already paid", async () => {
+    const file = await tempStorePath();
+    const store = new TaskStore(file);
+    store.create("t3", "analyze");
+    store.start("t3", "trace-1");
+    store.cancel("t3", ["🔍 discovering", "⏹️ Task cancelled before any payment was signed"], false);
+    store.create("t4", "store");
+    store.cancel("t4", [], true);
+    await store.flush();
+
+    const reloaded = new TaskStore(file);
+    await reloaded.load();
+    assert.strictEqual(reloaded.get("t3")?.status, "cancelled");
+    assert.strictEqual(reloaded.get("t3")?.paid, false);
+    assert.strictEqual(reloaded.get("t3")?.liveLog.at(-1), "⏹️ Task cancelled before any payment was signed");
+    assert.strictEqual(reloaded.get("t4")?.paid, true);
+    assert.deepStrictEqual(reloaded.list({ status: "cancelled" }).map((t) => t.taskId).sort(), ["t3", "t4"]);
+    // Unknown tasks are ignored
+    store.cancel("missing", [], false);
+    assert.strictEqual(store.get("missing"), undefined);
+  });
+
+  it("marks tasks left running by a previous process as failed", async () => {
+    const file = await tempStorePath();
+    const now = new Date().toISOString();
+    await writeFile(
+      file,
+      JSON.stringify([
+        { taskId: "t3", service: "store", status: "running", currentStep: 3, liveLog: [], createdAt: now, updatedAt: now },
+      ])
+    );
+
+    const store = new TaskStore(file);
+    await store.load();
+    assert.strictEqual(store.get("t3")?.status, "error");
+    assert.match(store.get("t3")?.error ?? "", /restarted/);
+  });
+
+  it("lists newest first and filters by status", async () => {
+    const store = new TaskStore(await tempStorePath());
+    store.create("a", "analyze");
+    await new Promise((r) => setTimeout(r, 5));
+    store.create("b", "store");
+    store.fail("b", "boom", []);
+
+    assert.deepStrictEqual(store.list().map((t) => t.taskId), ["b", "a"]);
+    assert.deepStrictEqual(store.list({ status: "error" }).map((t) => t.taskId), ["b"]);
+    assert.strictEqual(store.list({ limit: 1 }).length, 1);
+    await store.flush();
+  });
+});
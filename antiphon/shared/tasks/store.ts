@@ -0,0 +1,181 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { JsonFile } from "../persistence/index.js";
+import type { WebhookDelivery } from "../webhooks/index.js";
+import type { TaskRecord, TaskResult, TaskStatus, TaskSummary } from "./types.js";
+
+const DEFAULT_MAX_TASKS = 1000;
+
+const DEFAULT_TASK_STORE_PATH = path.join("data", "tasks.json");
+
+export interface TaskListFilter {
+  status?: TaskStatus;
+  service?: string;
+  /** Only tasks submitted by this address (case-insensitive) */
+  owner?: string;
+  limit?: number;
+}
+
+/**
+ * Durable task store backed by a single JSON file.
+ *
+ * Records live in memory and every mutation schedules a full rewrite of the
+ * file (shared/persistence JsonFile: serialized, atomic rewrites) so a crash
+ * mid-write never leaves a truncated store behind.
+ */
+export class TaskStore {
+  private tasks = new Map<string, TaskRecord>();
+  private file: JsonFile;
+
+  constructor(
+    private filePath: string = DEFAULT_TASK_STORE_PATH,
+    private maxTasks: number = DEFAULT_MAX_TASKS
+  ) {
+    this.file = new JsonFile(filePath, "TaskStore");
+  }
+
+  /** Load records from disk. Tasks left in flight by a previous process are marked failed. */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+
+    const records = JSON.parse(raw) as TaskRecord[];
+    let interrupted = 0;
+    for (const record of records) {
+      if (record.status === "queued" || record.status === "running") {
+        record.status = "error";
+        record.error = "Coordinator restarted before the task finished";
+        record.updatedAt = new Date().toISOString();
+        interrupted++;
+      }
+      this.tasks.set(record.taskId, record);
+    }
+    if (interrupted > 0) this.persist();
+  }
+
+  create(taskId: string, service: string, owner?: string, callbackUrl?: string): TaskRecord {
+    const now = new Date().toISOString();
+    const record: TaskRecord = {
+      taskId,
+      service,
+      status: "queued",
+      currentStep: 1,
+      liveLog: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (owner) record.owner = owner;
+    if (callbackUrl) record.callbackUrl = callbackUrl;
+    this.tasks.set(taskId, record);
+    this.prune();
+    this.persist();
+    return record;
+  }
+
+  /** Task left the queue and its pipeline is now executing. */
+  start(taskId: string, traceId?: string): void {
+    const record = this.tasks.get(taskId);
+    if (!record) return;
+    record.status = "running";
+    if (traceId) record.traceId = traceId;
+    this.touch(record);
+  }
+
+  recordStep(taskId: string, stepNum: number, liveLog: string[]): void {
+    const record = this.tasks.get(taskId);
+    if (!record) return;
+    record.currentStep = stepNum;
+    record.liveLog = [...liveLog];
+    this.touch(record);
+  }
+
+  complete(taskId: string, result: TaskResult): void {
+    const record = this.tasks.get(taskId);
+    if (!record) return;
+    record.status = "done";
+    record.liveLog = [...result.liveLog];
+    // Retrieved file bytes can be tens of MB — keep the CID, drop the payload.
+    const { retrievedDataBase64: _omit, ...persisted } = result;
+    record.result = persisted;
+    this.touch(record);
+  }
+
+  fail(taskId: string, error: string, liveLog: string[], errorCode?: string): void {
+    const record = this.tasks.get(taskId);
+    if (!record) return;
+    record.status = "error";
+    record.error = error;
+    if (errorCode) record.errorCode = errorCode;
+    record.liveLog = [...liveLog];
+    this.touch(record);
+  }
+
+  cancel(taskId: string, liveLog: string[], paid: boolean): void {
+    const record = this.tasks.get(taskId);
+    if (!record) return;
+    record.status = "cancelled";
+    record.paid = paid;
+    record.liveLog = [...liveLog];
+    this.touch(record);
+  }
+
+  recordWebhook(taskId: string, delivery: WebhookDelivery): void {
+    const record = this.tasks.get(taskId);
+    if (!record) return;
+    record.webhook = delivery;
+    this.touch(record);
+  }
+
+  get(taskId: string): TaskRecord | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  /** Newest first. */
+  list(filter: TaskListFilter = {}): TaskSummary[] {
+    const limit = filter.limit ?? 50;
+    const owner = filter.owner?.toLowerCase();
+    return [...this.tasks.values()]
+      .filter((t) => !owner || t.owner?.toLowerCase() === owner)
+      .filter((t) => !filter.status || t.status === filter.status)
+      .filter((t) => !filter.service || t.service === filter.service)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(toSummary);
+  }
+
+  /** Resolves once every scheduled write has reached disk. */
+  flush(): Promise<void> {
+    return this.file.flush();
+  }
+
+  private touch(record: TaskRecord): void {
+    record.updatedAt = new Date().toISOString();
+    this.persist();
+  }
+
+  private prune(): void {
+    if (this.tasks.size <= this.maxTasks) return;
+    const finished = [...this.tasks.values()]
+      .filter((t) => t.status !== "queued" && t.status !== "running")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const record of finished) {
+      if (this.tasks.size <= this.maxTasks) break;
+      this.tasks.delete(record.taskId);
+    }
+  }
+
+  private persist(): void {
+    this.file.write(() => [...this.tasks.values()]);
+  }
+}
+
+function toSummary(record: TaskRecord): TaskSummary {
+  const { liveLog: _log, result, webhook: _webhook, ...rest } = record;
+  const resultCID = result?.resultCID ?? result?.cid ?? result?.retrievedCID;
+  return resultCID ? { ...rest, resultCID } : rest;
+}
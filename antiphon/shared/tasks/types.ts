@@ -0,0 +1,101 @@
+import type { WebhookDelivery } from "../webhooks/index.js";
+
+// ── SSE payloads ─────────────────────────────────────────────────────────────
+export interface StepEvent {
+  stepNum: number;   // PipelineStep id from shared/pipeline/definitions.ts
+  msg: string;       // human-readable message shown in terminal log
+  liveLog: string[]; // full accumulated log up to this point
+  queuePosition?: number; // set on `queued` steps: 1-based place in line
+  hop?: WorkflowHopRef;   // set on workflow tasks: which hop emitted the step
+  failover?: ProviderFailover; // set when the task moves on to the next provider
+}
+
+/** A provider given up on before anything was paid, and the one tried next. */
+export interface ProviderFailover {
+  from: string;  // endpoint that couldn't take the request
+  to: string;    // next endpoint in the discovery ranking
+  reason: string;
+}
+
+export interface WorkflowHopRef {
+  id: string;
+  service: string;
+  index: number; // 0-based position in execution order
+  total: number;
+}
+
+export interface TaskResult {
+  success: boolean;
+  service: string;
+  liveLog: string[];
+  resultCID?: string;
+  summary?: string;
+  statistics?: Record<string, unknown>;
+  insights?: string[];
+  cid?: string;
+  fileName?: string;
+  fileSize?: number;
+  reputationTxHash?: string;
+  retrievedCID?: string;
+  retrievedContentType?: string;
+  retrievedDataBase64?: string;
+  /** Workflow tasks only: one entry per hop, in execution order */
+  hops?: WorkflowHopResult[];
+}
+
+export interface WorkflowHopResult {
+  id: string;
+  service: string;
+  /** CID handed to the next hop (resultCID / stored cid / retrieved cid) */
+  outputCID?: string;
+  summary?: string;
+  fileName?: string;
+  fileSize?: number;
+  retrievedContentType?: string;
+  reputationTxHash?: string;
+}
+
+export interface ErrorResult {
+  error: string;
+  /** Machine-readable reason when known, e.g. a PolicyViolation code */
+  code?: string;
+  liveLog: string[];
+}
+
+export interface CancelledResult {
+  taskId: string;
+  /** True when an x402 payment was already signed before the cancel landed */
+  paid: boolean;
+  liveLog: string[];
+}
+
+// ── Persisted task record ────────────────────────────────────────────────────
+export type TaskStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface TaskRecord {
+  taskId: string;
+  service: string;
+  /** SIWE address that submitted the task (absent when auth is disabled) */
+  owner?: string;
+  status: TaskStatus;
+  currentStep: number;
+  liveLog: string[];
+  result?: TaskResult;
+  error?: string;
+  errorCode?: string;
+  /** Set on cancelled tasks: whether an x402 payment was signed first */
+  paid?: boolean;
+  /** Requester callback for the final result (POST /api/task `callbackUrl`) */
+  callbackUrl?: string;
+  /** Delivery state of the callback, once the task has finished */
+  webhook?: WebhookDelivery;
+  /** Trace id of the task's root span in the trace export */
+  traceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** List view of a task — liveLog, result payload and webhook attempts stripped. */
+export type TaskSummary = Omit<TaskRecord, 'liveLog' | 'result' | 'webhook'> & {
+  resultCID?: string;
+};
@@ -0,0 +1,102 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import type { AttributeValue, Attributes, SpanData, SpanExporter, SpanKind, SpanStatusCode } from "./tracer.js";
+
+const FLUSH_INTERVAL_MS = 1000;
+const MAX_BATCH = 256;
+
+const DEFAULT_TRACE_EXPORT_PATH = path.join("data", "traces.jsonl");
+
+const KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+function otlpValue(value: AttributeValue) {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function otlpAttributes(attributes: Attributes) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+/** One OTLP/JSON ExportTraceServiceRequest for a batch of spans. */
+export function toOtlpJson(spans: SpanData[], resource: Attributes) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otlpAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: "antiphon" },
+            spans: spans.map((s) => ({
+              traceId: s.traceId,
+              spanId: s.spanId,
+              ...(s.parentSpanId && { parentSpanId: s.parentSpanId }),
+              name: s.name,
+              kind: KIND[s.kind],
+              startTimeUnixNano: String(s.startTimeUnixNano),
+              endTimeUnixNano: String(s.endTimeUnixNano),
+              attributes: otlpAttributes(s.attributes),
+              events: s.events.map((e) => ({
+                name: e.name,
+                timeUnixNano: String(e.timeUnixNano),
+                attributes: otlpAttributes(e.attributes),
+              })),
+              status: { code: STATUS[s.status.code], ...(s.status.message && { message: s.status.message }) },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Appends finished spans to a JSON Lines file, one OTLP/JSON export request
+ * per line (the OpenTelemetry file exporter layout), batched every second.
+ */
+export class OtlpJsonFileExporter implements SpanExporter {
+  private batch: SpanData[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string = DEFAULT_TRACE_EXPORT_PATH,
+    private resource: Attributes = { "service.name": "antiphon-coordinator" }
+  ) {}
+
+  export(span: SpanData): void {
+    this.batch.push(span);
+    if (this.batch.length >= MAX_BATCH) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  /** Writes everything buffered so far; resolves once it is on disk. */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const spans = this.batch;
+    this.batch = [];
+    if (spans.length === 0) return this.pendingWrite;
+
+    const line = JSON.stringify(toOtlpJson(spans, this.resource)) + "\n";
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        await appendFile(this.filePath, line, "utf8");
+      })
+      .catch((err) => {
+        console.error("[Tracing] ⚠️  Failed to export spans:", (err as Error).message);
+      });
+    return this.pendingWrite;
+  }
+}
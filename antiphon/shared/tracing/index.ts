@@ -0,0 +1,14 @@
+export { Tracer, Span, tracer } from "./tracer.js";
+export type {
+  SpanKind,
+  SpanStatusCode,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanOptions,
+  Attributes,
+  AttributeValue,
+} from "./tracer.js";
+export { OtlpJsonFileExporter, toOtlpJson } from "./exporter.js";
+export { TRACEPARENT_HEADER, formatTraceparent, parseTraceparent } from "./propagation.js";
+export type { SpanContext } from "./propagation.js";
@@ -0,0 +1,26 @@
+/** W3C Trace Context (`traceparent`) encoding for outgoing and incoming requests. */
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+export interface SpanContext {
+  /** 32 lowercase hex chars */
+  traceId: string;
+  /** 16 lowercase hex chars */
+  spanId: string;
+  sampled: boolean;
+}
+
+const TRACEPARENT_RE = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+export function formatTraceparent({ traceId, spanId, sampled }: SpanContext): string {
+  return `00-${traceId}-${spanId}-${sampled ? "01" : "00"}`;
+}
+
+/** Parsed context, or null for a missing, malformed or all-zero header. */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = header ? TRACEPARENT_RE.exec(header.trim().toLowerCase()) : null;
+  if (!match) return null;
+  const [, traceId, spanId, flags] = match as unknown as [string, string, string, string];
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return null;
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
@@ -0,0 +1,91 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Tracer, type SpanData } from "./tracer.js";
+import { OtlpJsonFileExporter } from "./exporter.js";
+import { formatTraceparent, parseTraceparent } from "./propagation.js";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+function collectingTracer() {
+  const spans: SpanData[] = [];
+  const tracer = new Tracer();
+  tracer.useExporter({ export: (span) => spans.push(span) });
+  return { tracer, spans };
+}
+
+describe("Tracer", () => {
+  it("parents spans through awaits and records failures", async () => {
+    const { tracer, spans } = collectingTracer();
+    await tracer.withSpan("task", {}, async (root) => {
+      await new Promise((r) => setTimeout(r, 1));
+      await tracer.withSpan("discover", { kind: "client" }, async () => {});
+      await assert.rejects(
+        tracer.withSpan("pay", {}, async () => {
+          throw new Error("402 rejected");
+        })
+      );
+      assert.strictEqual(tracer.active(), root);
+    });
+
+    const [discover, pay, task] = spans;
+    assert.deepStrictEqual(spans.map((s) => s.name), ["discover", "pay", "task"]);
+    assert.strictEqual(discover?.parentSpanId, task?.spanId);
+    assert.strictEqual(pay?.traceId, task?.traceId);
+    assert.strictEqual(task?.parentSpanId, undefined);
+    assert.deepStrictEqual(pay?.status, { code: "error", message: "402 rejected" });
+    assert.strictEqual(pay?.events[0]?.name, "exception");
+    assert.strictEqual(task?.status.code, "ok");
+    assert.strictEqual(tracer.active(), undefined);
+  });
+
+  it("continues an incoming traceparent", async () => {
+    const { tracer, spans } = collectingTracer();
+    const parent = parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+    assert.ok(parent);
+    await tracer.withSpan("task", { parent }, async (span) => {
+      assert.match(span.traceparent, /^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+    });
+    assert.strictEqual(spans[0]?.parentSpanId, "00f067aa0ba902b7");
+  });
+});
+
+describe("traceparent", () => {
+  it("round-trips and rejects malformed headers", () => {
+    const ctx = { traceId: "a".repeat(32), spanId: "b".repeat(16), sampled: true };
+    assert.deepStrictEqual(parseTraceparent(formatTraceparent(ctx)), ctx);
+    assert.strictEqual(parseTraceparent("00-xyz-123-01"), null);
+    assert.strictEqual(parseTraceparent(`00-${"0".repeat(32)}-${"b".repeat(16)}-01`), null);
+    assert.strictEqual(parseTraceparent(undefined), null);
+  });
+});
+
+describe("OtlpJsonFileExporter", () => {
+  it("appends one OTLP/JSON export request per flush", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "antiphon-traces-"));
+    tempDirs.push(dir);
+    const file = path.join(dir, "traces.jsonl");
+    const exporter = new OtlpJsonFileExporter(file);
+    const tracer = new Tracer();
+    tracer.useExporter(exporter);
+
+    await tracer.withSpan("REPUTATION_POST", { attributes: { "task.id": "t1", rating: 5 } }, async () => {});
+    await exporter.flush();
+
+    const lines = (await readFile(file, "utf8")).trim().split("\n");
+    assert.strictEqual(lines.length, 1);
+    const request = JSON.parse(lines[0]!);
+    const span = request.resourceSpans[0].scopeSpans[0].spans[0];
+    assert.strictEqual(span.name, "REPUTATION_POST");
+    assert.strictEqual(span.kind, 1);
+    assert.deepStrictEqual(span.status, { code: 1 });
+    assert.deepStrictEqual(span.attributes, [
+      { key: "task.id", value: { stringValue: "t1" } },
+      { key: "rating", value: { intValue: "5" } },
+    ]);
+    assert.match(span.startTimeUnixNano, /^\d+$/);
+  });
+});
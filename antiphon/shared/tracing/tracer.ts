@@ -0,0 +1,171 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { formatTraceparent, type SpanContext } from "./propagation.js";
+
+export type SpanKind = "internal" | "server" | "client";
+export type SpanStatusCode = "unset" | "ok" | "error";
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue>;
+
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: bigint;
+  attributes: Attributes;
+}
+
+/** A finished span as handed to the exporter. */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Attributes;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+export interface SpanExporter {
+  export(span: SpanData): void;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /** Explicit parent (e.g. from an incoming traceparent); null forces a new trace. Default: the active span. */
+  parent?: SpanContext | null;
+}
+
+function nowUnixNano(): bigint {
+  return BigInt(Date.now()) * 1_000_000n;
+}
+
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId: string | undefined;
+  private attributes: Attributes;
+  private events: SpanEvent[] = [];
+  private status: SpanData["status"] = { code: "unset" };
+  private readonly startTimeUnixNano = nowUnixNano();
+  private ended = false;
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    parent: SpanContext | null,
+    attributes: Attributes,
+    private onEnd: (span: SpanData) => void
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+    this.spanId = randomBytes(8).toString("hex");
+    this.parentSpanId = parent?.spanId;
+    this.attributes = { ...attributes };
+  }
+
+  get context(): SpanContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: true };
+  }
+
+  /** `traceparent` header value that makes a downstream span a child of this one. */
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  get statusCode(): SpanStatusCode {
+    return this.status.code;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  addEvent(name: string, attributes: Attributes = {}): this {
+    this.events.push({ name, timeUnixNano: nowUnixNano(), attributes });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = message === undefined ? { code } : { code, message };
+    return this;
+  }
+
+  /** Marks the span failed and keeps the error as an `exception` event. */
+  recordException(err: unknown): this {
+    const error = err instanceof Error ? err : new Error(String(err));
+    this.addEvent("exception", { "exception.type": error.name, "exception.message": error.message });
+    return this.setStatus("error", error.message);
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    const data: SpanData = {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTimeUnixNano,
+      endTimeUnixNano: nowUnixNano(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    };
+    if (this.parentSpanId) data.parentSpanId = this.parentSpanId;
+    this.onEnd(data);
+  }
+}
+
+/**
+ * Creates spans and tracks the active one across awaits with
+ * AsyncLocalStorage. Without an exporter spans are still created (so
+ * traceparent propagation works) but dropped on end.
+ */
+export class Tracer {
+  private storage = new AsyncLocalStorage<Span>();
+  private exporter: SpanExporter | null = null;
+
+  useExporter(exporter: SpanExporter | null): void {
+    this.exporter = exporter;
+  }
+
+  active(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent !== undefined ? options.parent : this.active()?.context ?? null;
+    return new Span(name, options.kind ?? "internal", parent, options.attributes ?? {}, (span) =>
+      this.exporter?.export(span)
+    );
+  }
+
+  /** Runs `fn` with `span` active; the caller owns ending it. */
+  withActive<T>(span: Span, fn: () => T): T {
+    return this.storage.run(span, fn);
+  }
+
+  /**
+   * Runs `fn` inside a new active span and ends it afterwards. A throw marks
+   * the span failed; otherwise it ends `ok` unless `fn` set a status itself.
+   */
+  async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      const result = await this.storage.run(span, () => fn(span));
+      if (span.statusCode === "unset") span.setStatus("ok");
+      return result;
+    } catch (err) {
+      span.recordException(err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/** Process-wide tracer; the coordinator attaches an exporter at startup. */
+export const tracer = new Tracer();
@@ -0,0 +1,156 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebhookDispatcher, type WebhookDelivery } from "./dispatcher.js";
+import { verifySignature } from "./signature.js";
+import { assertPublicCallbackUrl, InvalidCallbackUrlError, parseCallbackUrl } from "./url.js";
+
+const SECRET = "test-secret";
+// The test receiver listens on loopback, which deliveries otherwise refuse
+const LOCAL = { secret: SECRET, allowedHosts: ["127.0.0.1"] };
+
+interface Received {
+  body: string;
+  headers: IncomingMessage["headers"];
+}
+
+describe("WebhookDispatcher", () => {
+  let server: Server;
+  let base: string;
+  const received: Received[] = [];
+  // Status codes the receiver answers with, in order; 200 once exhausted
+  let script: number[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ body, headers: req.headers });
+        const status = script.shift() ?? 200;
+        res.writeHead(status, status >= 300 && status < 400 ? { Location: "/elsewhere" } : {}).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("signs the body so the receiver can verify it", async () => {
+    received.length = 0;
+    script = [];
+    const dispatcher = new WebhookDispatcher(LOCAL);
+    const delivery = await dispatcher.dispatch("t1", `${base}/hook`, "done", { success: true });
+
+    assert.strictEqual(delivery.state, "delivered");
+    const [req] = received;
+    assert.ok(req);
+    assert.deepStrictEqual(JSON.parse(req.body), { taskId: "t1", event: "done", data: { success: true } });
+    const timestamp = req.headers["x-rachax402-timestamp"] as string;
+    const signature = req.headers["x-rachax402-signature"] as string;
+    assert.ok(verifySignature(SECRET, timestamp, req.body, signature));
+    assert.ok(!verifySignature("wrong-secret", timestamp, req.body, signature));
+  });
+
+  it("retries 5xx with backoff and reports every attempt", async () => {
+    received.length = 0;
+    script = [503, 500];
+    const updates: WebhookDelivery[] = [];
+    const dispatcher = new WebhookDispatcher({
+      ...LOCAL,
+      baseDelayMs: 5,
+      onUpdate: (_taskId, d) => updates.push(d),
+    });
+    const delivery = await dispatcher.dispatch("t2", `${base}/hook`, "error", { error: "boom" });
+
+    assert.strictEqual(delivery.state, "delivered");
+    assert.deepStrictEqual(delivery.attempts.map((a) => a.status), [503, 500, 200]);
+    assert.ok(delivery.attempts[0]?.nextRetryAt);
+    assert.deepStrictEqual(updates.map((u) => u.state), ["pending", "pending", "delivered"]);
+    // Same delivery id on every attempt
+    assert.strictEqual(new Set(received.map((r) => r.headers["x-rachax402-delivery"])).size, 1);
+  });
+
+  it("gives up on 4xx and after maxAttempts", async () => {
+    script = [400];
+    const dispatcher = new WebhookDispatcher({ ...LOCAL, baseDelayMs: 5 });
+    const rejected = await dispatcher.dispatch("t3", `${base}/hook`, "done", {});
+    assert.strictEqual(rejected.state, "failed");
+    assert.strictEqual(rejected.attempts.length, 1);
+
+    script = [500, 500, 500];
+    const limited = new WebhookDispatcher({ ...LOCAL, baseDelayMs: 5, maxAttempts: 2 });
+    const exhausted = await limited.dispatch("t4", `${base}/hook`, "done", {});
+    assert.strictEqual(exhausted.state, "failed");
+    assert.strictEqual(exhausted.attempts.length, 2);
+    script = [];
+  });
+
+  it("doesn't follow redirects", async () => {
+    received.length = 0;
+    script = [302];
+    const delivery = await new WebhookDispatcher(LOCAL).dispatch("t5", `${base}/hook`, "done", {});
+
+    assert.strictEqual(delivery.state, "failed");
+    assert.deepStrictEqual(delivery.attempts.map((a) => a.error), ["HTTP 302 (redirects are not followed)"]);
+    assert.strictEqual(received.length, 1);
+  });
+
+  it("never sends to a non-public host", async () => {
+    received.length = 0;
+    const dispatcher = new WebhookDispatcher({ secret: SECRET, baseDelayMs: 5 });
+    const delivery = await dispatcher.dispatch("t6", `${base}/hook`, "done", {});
+
+    assert.strictEqual(delivery.state, "failed");
+    assert.strictEqual(delivery.attempts.length, 1);
+    assert.match(delivery.attempts[0]!.error!, /non-public address 127\.0\.0\.1/);
+    assert.strictEqual(received.length, 0);
+  });
+});
+
+describe("parseCallbackUrl", () => {
+  it("accepts absolute http(s) URLs only", () => {
+    assert.strictEqual(parseCallbackUrl("https://example.com/hook"), "https://example.com/hook");
+    assert.throws(() => parseCallbackUrl("/relative"), InvalidCallbackUrlError);
+    assert.throws(() => parseCallbackUrl("file:///etc/passwd"), InvalidCallbackUrlError);
+    assert.throws(() => parseCallbackUrl("https://user:pw@example.com/"), InvalidCallbackUrlError);
+  });
+});
+
+describe("assertPublicCallbackUrl", () => {
+  const dns: Record<string, string[]> = {
+    "hooks.example.com": ["93.184.216.34"],
+    "internal.example.com": ["93.184.216.34", "10.0.0.7"],
+    localhost: ["127.0.0.1", "::1"],
+  };
+  const lookup = async (host: string) => dns[host] ?? [];
+
+  it("accepts hosts that only resolve to public addresses", async () => {
+    await assertPublicCallbackUrl("https://hooks.example.com/hook", { lookup });
+    await assertPublicCallbackUrl("https://[2606:4700::1111]/hook", { lookup });
+  });
+
+  it("rejects loopback, link-local and private targets", async () => {
+    for (const url of [
+      "http://localhost:3001/api/tasks",
+      "http://127.0.0.1/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://10.1.2.3/",
+      "http://172.16.0.1/",
+      "http://192.168.1.1/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://[fd00::1]/",
+      "https://internal.example.com/hook",
+      "https://nowhere.example.com/hook",
+    ]) {
+      await assert.rejects(assertPublicCallbackUrl(url, { lookup }), InvalidCallbackUrlError, url);
+    }
+  });
+
+  it("lets allowed hosts through", async () => {
+    await assertPublicCallbackUrl("http://localhost:9000/hook", { lookup, allowedHosts: ["LOCALHOST"] });
+  });
+});
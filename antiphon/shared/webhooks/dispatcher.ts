@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from "./signature.js";
+import { assertPublicCallbackUrl, InvalidCallbackUrlError, type CallbackTargetOptions } from "./url.js";
+
+export type WebhookEvent = "done" | "error";
+
+export interface WebhookAttempt {
+  attempt: number;
+  at: string;
+  /** HTTP status, when the receiver answered at all */
+  status?: number;
+  ok: boolean;
+  error?: string;
+  /** Set when another attempt is scheduled */
+  nextRetryAt?: string;
+}
+
+export interface WebhookDelivery {
+  /** Same for every attempt — receivers can use it to de-duplicate */
+  deliveryId: string;
+  url: string;
+  event: WebhookEvent;
+  state: "pending" | "delivered" | "failed";
+  attempts: WebhookAttempt[];
+}
+
+export interface WebhookDispatcherOptions extends CallbackTargetOptions {
+  secret: string;
+  maxAttempts?: number;
+  /** Delay before the 2nd attempt; doubles each time up to `maxDelayMs` */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+  /** Called after every attempt with the delivery's updated state */
+  onUpdate?: (taskId: string, delivery: WebhookDelivery) => void;
+}
+
+/**
+ * POSTs task results to requester callback URLs with an HMAC-SHA256 signature,
+ * retrying network errors, timeouts, 429 and 5xx with exponential backoff.
+ * Other 4xx answers are final. Redirects are not followed (a 3xx is a failed
+ * delivery), and the host is re-resolved before every attempt so it can't
+ * move onto a non-public address. Pending retries live in memory only.
+ */
+export class WebhookDispatcher {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly timeoutMs: number;
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(private options: WebhookDispatcherOptions) {
+    this.maxAttempts = options.maxAttempts ?? 6;
+    this.baseDelayMs = options.baseDelayMs ?? 1_000;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  /** Start delivering; resolves once the delivery is delivered or has failed for good. */
+  dispatch(taskId: string, url: string, event: WebhookEvent, payload: unknown): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = { deliveryId: randomUUID(), url, event, state: "pending", attempts: [] };
+    const body = JSON.stringify({ taskId, event, data: payload });
+
+    return new Promise((resolve) => {
+      const attempt = async () => {
+        const record = await this.send(delivery, body, delivery.attempts.length + 1);
+        delivery.attempts.push(record);
+
+        if (record.ok) {
+          delivery.state = "delivered";
+        } else if (record.nextRetryAt) {
+          const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            void attempt();
+          }, Date.parse(record.nextRetryAt) - Date.now());
+          this.timers.add(timer);
+        } else {
+          delivery.state = "failed";
+        }
+
+        this.options.onUpdate?.(taskId, { ...delivery, attempts: [...delivery.attempts] });
+        if (delivery.state !== "pending") resolve(delivery);
+      };
+      void attempt();
+    });
+  }
+
+  /** Drop scheduled retries (shutdown / tests). */
+  close(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private async send(delivery: WebhookDelivery, body: string, attempt: number): Promise<WebhookAttempt> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const record: WebhookAttempt = { attempt, at: new Date().toISOString(), ok: false };
+    let retryable = true;
+
+    try {
+      await assertPublicCallbackUrl(delivery.url, this.options);
+      const res = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Rachax402-AgentA-Webhooks",
+          "X-Rachax402-Event": delivery.event,
+          "X-Rachax402-Delivery": delivery.deliveryId,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signPayload(this.options.secret, timestamp, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      await res.body?.cancel();
+      record.status = res.status;
+      record.ok = res.ok;
+      retryable = res.status === 429 || res.status >= 500;
+      if (res.status >= 300 && res.status < 400) record.error = `HTTP ${res.status} (redirects are not followed)`;
+      else if (!res.ok) record.error = `HTTP ${res.status}`;
+    } catch (err) {
+      if (err instanceof InvalidCallbackUrlError) retryable = false;
+      record.error = (err as Error).name === "TimeoutError" ? "timed out" : (err as Error).message;
+    }
+
+    if (!record.ok && retryable && attempt < this.maxAttempts) {
+      const delay = Math.min(this.baseDelayMs * 2 ** (attempt - 1), this.maxDelayMs);
+      record.nextRetryAt = new Date(Date.now() + delay).toISOString();
+    }
+    return record;
+  }
+}
@@ -0,0 +1,10 @@
+export { WebhookDispatcher } from "./dispatcher.js";
+export type {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDispatcherOptions,
+  WebhookEvent,
+} from "./dispatcher.js";
+export { signPayload, verifySignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from "./signature.js";
+export { parseCallbackUrl, assertPublicCallbackUrl, isNonPublicAddress, InvalidCallbackUrlError } from "./url.js";
+export type { CallbackTargetOptions } from "./url.js";
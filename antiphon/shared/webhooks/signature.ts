@@ -0,0 +1,20 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const SIGNATURE_HEADER = "X-Rachax402-Signature";
+export const TIMESTAMP_HEADER = "X-Rachax402-Timestamp";
+
+/**
+ * `sha256=<hex>` HMAC over `<timestamp>.<body>`. Binding the timestamp lets
+ * receivers reject replays of an old delivery.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/** Constant-time check of a received signature header — for receivers and tests. */
+export function verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
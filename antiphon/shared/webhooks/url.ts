@@ -0,0 +1,100 @@
+import { lookup as dnsLookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+export class InvalidCallbackUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCallbackUrlError";
+  }
+}
+
+/** Loopback, link-local (cloud metadata), private, shared and reserved ranges a callback may not reach. */
+const NON_PUBLIC = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, "ipv6");
+}
+
+/** Whether `address` (an IP literal) is outside the public internet; IPv4-mapped IPv6 counts as its IPv4. */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export interface CallbackTargetOptions {
+  /** Hostnames that may resolve to non-public addresses, e.g. a receiver on the coordinator's own network */
+  allowedHosts?: string[];
+  /** Every address `hostname` resolves to; defaults to the system resolver */
+  lookup?: (hostname: string) => Promise<string[]>;
+}
+
+const systemLookup = async (hostname: string) =>
+  (await dnsLookup(hostname, { all: true, verbatim: true })).map((a) => a.address);
+
+/** Normalised callbackUrl, or InvalidCallbackUrlError for anything but an absolute http(s) URL. */
+export function parseCallbackUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new InvalidCallbackUrlError(`callbackUrl is not a valid URL: ${raw}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new InvalidCallbackUrlError(`callbackUrl must be http(s), got ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new InvalidCallbackUrlError("callbackUrl must not embed credentials");
+  }
+  return url.toString();
+}
+
+/**
+ * Resolve `callbackUrl`'s host and throw InvalidCallbackUrlError if any of its
+ * addresses is loopback, link-local or private, so API callers can't aim
+ * signed POSTs at services behind the coordinator. Hosts in `allowedHosts`
+ * are exempt. Checked when the task is accepted and again before each attempt.
+ */
+export async function assertPublicCallbackUrl(
+  callbackUrl: string,
+  { allowedHosts = [], lookup = systemLookup }: CallbackTargetOptions = {}
+): Promise<void> {
+  const { hostname } = new URL(callbackUrl);
+  const host = hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (allowedHosts.some((allowed) => allowed.toLowerCase() === host)) return;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await lookup(host);
+  } catch (err) {
+    throw new InvalidCallbackUrlError(`callbackUrl host ${host} does not resolve: ${(err as Error).message}`);
+  }
+  if (addresses.length === 0) {
+    throw new InvalidCallbackUrlError(`callbackUrl host ${host} does not resolve`);
+  }
+  const internal = addresses.find(isNonPublicAddress);
+  if (internal) {
+    throw new InvalidCallbackUrlError(`callbackUrl host ${host} resolves to non-public address ${internal}`);
+  }
+}